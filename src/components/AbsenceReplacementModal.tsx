@@ -0,0 +1,240 @@
+import { useState, useEffect } from 'react';
+import { endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import type { Staff, ShiftAbsence, BreakRule } from '../types';
+import { shiftStorage, absenceStorage } from '../utils/supabaseStorage';
+import {
+  timeSlotStorage,
+  staffSkillStorage,
+  staffAvailabilityStorage,
+  staffWorkLimitStorage,
+  staffUnavailableDateStorage,
+  staffPairRuleStorage,
+  breakRuleStorage,
+} from '../utils/autoShiftStorage';
+import {
+  rankReplacementCandidates,
+  createReplacementShift,
+  type ReplacementCandidate,
+} from '../utils/absenceReplacement';
+import { getAdjacentDateRange } from '../utils/shiftConstraints';
+import { buildPairRuleSet } from '../utils/staffPairRules';
+import { applyBreakRulesToShift, resolveBreakRules } from '../utils/restBreaks';
+import { emailService } from '../utils/emailService';
+
+interface AbsenceReplacementModalProps {
+  absence: ShiftAbsence;
+  staff: Staff[];
+  onClose: () => void;
+  onUpdate: () => void;
+}
+
+export default function AbsenceReplacementModal({ absence, staff, onClose, onUpdate }: AbsenceReplacementModalProps) {
+  const [candidates, setCandidates] = useState<ReplacementCandidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [assigning, setAssigning] = useState(false);
+  const [notify, setNotify] = useState(true);
+  const [breakRules, setBreakRules] = useState<Omit<BreakRule, 'id'>[]>([]);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [absence.id]);
+
+  const loadCandidates = async () => {
+    setLoading(true);
+    try {
+      // 欠勤日の月と、月をまたぐ制約の判定に使う前後の期間のシフトだけを読み込む
+      const { from, to } = getAdjacentDateRange(
+        format(startOfMonth(parseISO(absence.date)), 'yyyy-MM-dd'),
+        format(endOfMonth(parseISO(absence.date)), 'yyyy-MM-dd')
+      );
+      const [shifts, timeSlots, skills, availabilities, workLimits, unavailableDates, pairRules, breakRules] = await Promise.all([
+        shiftStorage.getByDateRange(from, to),
+        timeSlotStorage.getAll(),
+        staffSkillStorage.getAll(),
+        staffAvailabilityStorage.getAll(),
+        staffWorkLimitStorage.getAll(),
+        staffUnavailableDateStorage.getByDateRange(absence.date, absence.date),
+        staffPairRuleStorage.getAll(),
+        breakRuleStorage.getAll(),
+      ]);
+
+      // 休憩時間が未設定のシフトは登録した休憩ルールで労働時間を集計する
+      const rules = resolveBreakRules(breakRules);
+      setBreakRules(rules);
+      setCandidates(
+        rankReplacementCandidates(applyBreakRulesToShift(absence, rules), {
+          staff,
+          timeSlots: timeSlots.filter(ts => ts.isActive),
+          shifts: shifts.map(s => applyBreakRulesToShift(s, rules)),
+          skills: new Map(skills.map(sk => [`${sk.staffId}-${sk.position}`, sk])),
+          availabilities,
+          workLimits: new Map(workLimits.map(wl => [wl.staffId, wl])),
+          unavailableDates,
+          pairRules: buildPairRuleSet(pairRules),
+        })
+      );
+    } catch (error) {
+      console.error('Error loading replacement candidates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAssign = async (candidate: ReplacementCandidate) => {
+    if (
+      candidate.violations.length > 0 &&
+      !confirm(
+        `${candidate.staffName}さんは次の制約に違反します。\n${candidate.violations.map(v => `・${v.message}`).join('\n')}\n\nこのまま割り当てますか？`
+      )
+    ) {
+      return;
+    }
+
+    setAssigning(true);
+    try {
+      await shiftStorage.add(createReplacementShift(applyBreakRulesToShift(absence, breakRules), candidate.staffId));
+
+      // 代わりのスタッフへ通知（送信できた場合は通知日時を記録）
+      const member = staff.find(s => s.id === candidate.staffId);
+      const notified = notify && member?.email ? await emailService.sendShiftReplacement(member.email, absence) : false;
+      await absenceStorage.setReplacement(
+        absence.id,
+        candidate.staffId,
+        notified ? new Date().toISOString() : undefined
+      );
+
+      alert(
+        `${candidate.staffName}さんを代わりに割り当てました${notified ? '（メールで通知しました）' : ''}`
+      );
+      await onUpdate();
+      onClose();
+    } catch (error) {
+      console.error('Error assigning replacement:', error);
+      // Unique constraint違反のエラーをチェック
+      const { code, message } = (error || {}) as { code?: string; message?: string };
+      if (code === '23505' || message?.includes('duplicate') || message?.includes('unique')) {
+        alert('この日は既に他の予定が入っています');
+      } else {
+        alert('代わりのスタッフの割り当てに失敗しました');
+      }
+    } finally {
+      setAssigning(false);
+    }
+  };
+
+  const absentStaff = staff.find(s => s.id === absence.staffId);
+
+  // 上限を超える値は赤字で表示
+  const formatImpact = (value: number, max: number | undefined, unit: string) => (
+    <span className={max !== undefined && value > max ? 'text-red-600 font-semibold' : 'text-gray-700'}>
+      {Number.isInteger(value) ? value : value.toFixed(1)}
+      {max !== undefined ? ` / ${max}` : ''}
+      {unit}
+    </span>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="card max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4 text-gray-800">代わりのスタッフを探す</h3>
+
+        <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 mb-4 text-sm text-gray-700">
+          <div>
+            欠勤: <span className="font-medium">{absentStaff?.name || '不明'}</span>
+            {absence.reason && <span className="text-gray-500">（{absence.reason}）</span>}
+          </div>
+          <div>
+            {absence.date} {absence.position} {absence.startTime.slice(0, 5)}〜{absence.endTime.slice(0, 5)}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">読み込み中...</div>
+        ) : candidates.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>この役職に対応できるスタッフがいません</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">スタッフ</th>
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">週の労働時間</th>
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">月の労働時間</th>
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">連続勤務</th>
+                  <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">判定</th>
+                  <th className="px-3 py-2 text-right text-sm font-semibold text-gray-700">操作</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {candidates.map(candidate => (
+                  <tr key={candidate.staffId} className="hover:bg-gray-50">
+                    <td className="px-3 py-2 text-sm">
+                      {candidate.staffName}
+                      {!candidate.isPrimary && <span className="ml-1 text-xs text-gray-500">（兼務）</span>}
+                    </td>
+                    <td className="px-3 py-2 text-sm">
+                      {formatImpact(candidate.impact.weeklyHours, candidate.impact.maxHoursPerWeek, 'h')}
+                    </td>
+                    <td className="px-3 py-2 text-sm">
+                      {formatImpact(candidate.impact.monthlyHours, candidate.impact.maxHoursPerMonth, 'h')}
+                    </td>
+                    <td className="px-3 py-2 text-sm">
+                      {formatImpact(candidate.impact.consecutiveDays, candidate.impact.maxConsecutiveDays, '日')}
+                    </td>
+                    <td className="px-3 py-2 text-sm">
+                      {candidate.violations.length === 0 ? (
+                        <span className="text-green-600 font-medium">割り当て可</span>
+                      ) : (
+                        <ul className="text-xs text-yellow-800 space-y-0.5">
+                          {candidate.violations.map((v, index) => (
+                            <li key={index}>・{v.message}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-sm text-right">
+                      <button
+                        onClick={() => handleAssign(candidate)}
+                        disabled={assigning}
+                        className={`btn whitespace-nowrap ${candidate.violations.length === 0 ? 'btn-primary' : 'btn-secondary'}`}
+                      >
+                        割り当て
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between mt-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={notify}
+              onChange={(e) => setNotify(e.target.checked)}
+              className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+            />
+            割り当てたスタッフにメールで通知する
+          </label>
+          <button onClick={onClose} className="btn btn-secondary" disabled={assigning}>
+            閉じる
+          </button>
+        </div>
+
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mt-4">
+          <h3 className="font-semibold text-blue-900 mb-2">💡 代わりのスタッフについて</h3>
+          <ul className="text-sm text-blue-800 space-y-1">
+            <li>• 自動シフト生成と同じ制約（スキル・希望休・勤務可能時間・労働時間制約・勤務間インターバル・ペアルール）で判定し、違反の少ない順 → 主担当 → 月の労働時間の少ない順に並べます</li>
+            <li>• 労働時間・連続勤務日数は、このシフトに入った後の値です。労働時間制約の上限を超える値は赤字で表示します</li>
+            <li>• 制約に違反するスタッフも、確認の上で割り当てられます</li>
+            <li>• 閉じた場合も欠勤は記録されたままです。代わりが必要な場合はシフトを追加してください</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
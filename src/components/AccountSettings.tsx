@@ -3,13 +3,14 @@ import type { Staff } from '../types';
 import { staffStorage } from '../utils/supabaseStorage';
 import StaffAvailabilitySettings from './StaffAvailabilitySettings';
 import UnavailableDateRequest from './UnavailableDateRequest';
+import MonthlyPreferenceRequest from './MonthlyPreferenceRequest';
 
 interface AccountSettingsProps {
   currentUser: Staff;
   onUpdate: () => void;
 }
 
-type AccountTab = 'basic' | 'availability' | 'requests';
+type AccountTab = 'basic' | 'availability' | 'preferences' | 'requests';
 
 export default function AccountSettings({ currentUser, onUpdate }: AccountSettingsProps) {
   const [activeTab, setActiveTab] = useState<AccountTab>('basic');
@@ -147,6 +148,16 @@ export default function AccountSettings({ currentUser, onUpdate }: AccountSettin
           >
             勤務可能時間
           </button>
+          <button
+            onClick={() => setActiveTab('preferences')}
+            className={`flex-1 px-6 py-3 font-medium transition-colors ${
+              activeTab === 'preferences'
+                ? 'text-primary-600 border-b-2 border-primary-600 bg-primary-50'
+                : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+            }`}
+          >
+            月間の勤務希望
+          </button>
           <button
             onClick={() => setActiveTab('requests')}
             className={`flex-1 px-6 py-3 font-medium transition-colors ${
@@ -330,6 +341,10 @@ export default function AccountSettings({ currentUser, onUpdate }: AccountSettin
         />
       )}
 
+      {activeTab === 'preferences' && (
+        <MonthlyPreferenceRequest currentUser={currentUser} />
+      )}
+
       {activeTab === 'requests' && (
         <UnavailableDateRequest currentUser={currentUser} />
       )}
@@ -1,6 +1,6 @@
-import { useState } from 'react';
-import type { Staff } from '../types';
-import { staffStorage, shiftStorage } from '../utils/supabaseStorage';
+import { useState, useRef } from 'react';
+import type { Staff, Building } from '../types';
+import { staffStorage, shiftStorage, positionStorage, staffScheduleStorage } from '../utils/supabaseStorage';
 import {
   timeSlotStorage,
   dailyRequirementStorage,
@@ -8,9 +8,45 @@ import {
   staffAvailabilityStorage,
   staffWorkLimitStorage,
   staffUnavailableDateStorage,
+  staffWorkRequestStorage,
+  staffPairRuleStorage,
+  seniorCoverageRuleStorage,
+  breakRuleStorage,
+  staffPriorityStorage,
+  requiredStaffAssignmentStorage,
+  staffSkillStorage,
+  requirementTemplateStorage,
+  requirementTemplateAssignmentStorage,
+  buildingStorage,
 } from '../utils/autoShiftStorage';
-import { generateMonthlyShift, type GenerationResult, type ShortageReport } from '../utils/autoShiftAlgorithm';
-import { formatDateJP } from '../utils/helpers';
+import { resolveRequirements, findDatesWithoutRequirements } from '../utils/requirementTemplates';
+import type {
+  ConstraintWarning,
+  GenerationProgress,
+  GenerationResult,
+  ShortageReport,
+  UnderAllocationReport,
+} from '../utils/autoShiftAlgorithm';
+import { DEFAULT_OPTIMIZER_OPTIONS } from '../utils/shiftOptimizer';
+import { getAdjacentDateRange, getAdjacentShifts } from '../utils/shiftConstraints';
+import {
+  getShiftGenerationStrategy,
+  SHIFT_GENERATION_STRATEGIES,
+  DEFAULT_STRATEGY_ID,
+  type ShiftStrategyId,
+} from '../utils/shiftEngine';
+import {
+  startShiftGeneration,
+  ShiftGenerationCancelledError,
+  type ShiftGenerationTask,
+} from '../utils/shiftGenerationWorker';
+import {
+  DAY_CATEGORIES,
+  DAY_CATEGORY_LABELS,
+  DEFAULT_FAIRNESS_WINDOW_MONTHS,
+} from '../utils/shiftFairness';
+import { getJapaneseHolidaysInRange } from '../utils/japaneseHolidays';
+import { formatDate, formatDateJP, calculateShiftHours } from '../utils/helpers';
 
 interface AutoShiftGeneratorProps {
   currentUser: Staff;
@@ -20,26 +56,50 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
   const currentDate = new Date();
   const [selectedYear, setSelectedYear] = useState(currentDate.getFullYear());
   const [selectedMonth, setSelectedMonth] = useState(currentDate.getMonth() + 1); // 1-12
-  const [overwriteMode, setOverwriteMode] = useState<'keep' | 'overwrite'>('keep');
+  const [overwriteMode, setOverwriteMode] = useState<'keep' | 'fill' | 'overwrite'>('keep');
+  const [strategyId, setStrategyId] = useState<ShiftStrategyId>(DEFAULT_STRATEGY_ID);
+  const [seed, setSeed] = useState(DEFAULT_OPTIMIZER_OPTIONS.seed);
+  const [iterations, setIterations] = useState(DEFAULT_OPTIMIZER_OPTIONS.iterations);
+  const [timeLimitSec, setTimeLimitSec] = useState(DEFAULT_OPTIMIZER_OPTIONS.timeLimitMs / 1000);
+  const [fairnessWindowMonths, setFairnessWindowMonths] = useState(DEFAULT_FAIRNESS_WINDOW_MONTHS);
   const [generating, setGenerating] = useState(false);
   const [saving, setSaving] = useState(false);
   const [result, setResult] = useState<GenerationResult | null>(null);
   const [hasExistingShifts, setHasExistingShifts] = useState(false);
+  const [expandedShortage, setExpandedShortage] = useState<string | null>(null);
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [staffList, setStaffList] = useState<Staff[]>([]);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const generationTask = useRef<ShiftGenerationTask | null>(null);
+  // データの読み込み中（ワーカーの開始前）にキャンセルされたか
+  const cancelRequested = useRef(false);
 
   const handleGenerate = async () => {
+    cancelRequested.current = false;
     setGenerating(true);
+    setProgress(null);
     setResult(null);
     setHasExistingShifts(false);
+    setExpandedShortage(null);
 
     try {
-      // 期間を計算
-      const startDate = new Date(selectedYear, selectedMonth - 1, 1);
-      const endDate = new Date(selectedYear, selectedMonth, 0);
-      const startDateStr = startDate.toISOString().split('T')[0];
-      const endDateStr = endDate.toISOString().split('T')[0];
+      // 期間を計算（toISOString はUTCに変換されて日付がずれるため、ローカルの日付で文字列にする）
+      const startDateStr = formatDate(new Date(selectedYear, selectedMonth - 1, 1));
+      const endDateStr = formatDate(new Date(selectedYear, selectedMonth, 0));
+
+      // 土日祝・夜勤の公平性の集計期間（初日から前月末日まで、両端ともローカルの日付で計算する）
+      const windowStartStr = formatDate(new Date(selectedYear, selectedMonth - fairnessWindowMonths, 1));
+      const windowEndStr = formatDate(new Date(selectedYear, selectedMonth - 1, 0));
+
+      // 公平性の集計期間と、月をまたぐ制約の判定に使う前後の期間のシフトだけを読み込む
+      const adjacentRange = getAdjacentDateRange(startDateStr, endDateStr);
+      const allShifts = await shiftStorage.getByDateRange(
+        windowStartStr < adjacentRange.from ? windowStartStr : adjacentRange.from,
+        adjacentRange.to
+      );
+      if (cancelRequested.current) return;
 
       // 既存シフトをチェック
-      const allShifts = await shiftStorage.getAll();
       const existingShifts = allShifts.filter(
         (s) => s.date >= startDateStr && s.date <= endDateStr
       );
@@ -50,42 +110,120 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
         return;
       }
 
+      // 空き埋めモードでは既存シフトを固定として扱う
+      const keptShifts = overwriteMode === 'fill' ? existingShifts : [];
+
+      // 土日祝・夜勤の公平性の集計期間に含める過去のシフト
+      const pastShifts = allShifts.filter((s) => s.date >= windowStartStr && s.date <= windowEndStr);
+
       // 必要なデータを全て取得
-      const [staff, timeSlots, requirements, occupancies] = await Promise.all([
+      const [
+        staff,
+        timeSlots,
+        dateRequirements,
+        templates,
+        templateItems,
+        templateAssignments,
+        occupancies,
+        priorities,
+        requiredAssignments,
+        skills,
+        positions,
+        buildingsData,
+        availabilities,
+        workLimits,
+        unavailableDates,
+        standardSchedules,
+        workRequests,
+        pairRules,
+        seniorCoverageRules,
+        breakRules,
+      ] = await Promise.all([
         staffStorage.getAll(),
         timeSlotStorage.getAll(),
         dailyRequirementStorage.getByDateRange(startDateStr, endDateStr),
+        requirementTemplateStorage.getAll(),
+        requirementTemplateStorage.getItems(),
+        requirementTemplateAssignmentStorage.getByDateRange(startDateStr, endDateStr),
         dailyOccupancyStorage.getByDateRange(startDateStr, endDateStr),
+        staffPriorityStorage.getAll(),
+        requiredStaffAssignmentStorage.getByDateRange(startDateStr, endDateStr),
+        staffSkillStorage.getAll(),
+        positionStorage.getAll(),
+        buildingStorage.getAll(),
+        staffAvailabilityStorage.getAll(),
+        staffWorkLimitStorage.getAll(),
+        staffUnavailableDateStorage.getByDateRange(startDateStr, endDateStr),
+        staffScheduleStorage.getAll(),
+        staffWorkRequestStorage.getByDateRange(startDateStr, endDateStr),
+        staffPairRuleStorage.getAll(),
+        seniorCoverageRuleStorage.getAll(),
+        breakRuleStorage.getAll(),
       ]);
+      if (cancelRequested.current) return;
+      setBuildings(buildingsData);
+      setStaffList(staff);
+
+      // 日付ごとの必要人数がない枠はテンプレートから展開
+      const requirements = resolveRequirements(
+        startDateStr,
+        endDateStr,
+        dateRequirements,
+        templates,
+        templateItems,
+        templateAssignments
+      );
 
-      // スタッフごとの詳細情報を取得
-      const availabilities = [];
-      const workLimits = [];
-      const unavailableDates = [];
-
-      for (const s of staff) {
-        const [avail, limit, unavail] = await Promise.all([
-          staffAvailabilityStorage.getByStaffId(s.id),
-          staffWorkLimitStorage.getByStaffId(s.id),
-          staffUnavailableDateStorage.getByStaffId(s.id),
-        ]);
-        availabilities.push(...avail);
-        if (limit) workLimits.push(limit);
-        unavailableDates.push(...unavail);
+      // 必要人数が展開されない日は不足としても数えられないため、生成前に確認する
+      const datesWithoutRequirements = findDatesWithoutRequirements(startDateStr, endDateStr, requirements);
+      if (
+        requirements.length > 0 &&
+        datesWithoutRequirements.length > 0 &&
+        !confirm(
+          `次の日は必要人数（日付ごとの設定・テンプレート）がないため、シフトを割り当てません。\n${datesWithoutRequirements.map(formatDateJP).join('\n')}\n\nこのまま生成しますか？`
+        )
+      ) {
+        return;
       }
 
-      // シフト生成
-      const generationResult = await generateMonthlyShift(
-        selectedYear,
-        selectedMonth,
-        staff,
-        timeSlots,
-        requirements,
-        availabilities,
-        workLimits,
-        unavailableDates,
-        occupancies
+      // シフト生成（画面が固まらないようワーカーで実行）
+      generationTask.current = startShiftGeneration(
+        {
+          input: {
+            year: selectedYear,
+            month: selectedMonth,
+            staff,
+            timeSlots,
+            requirements,
+            availabilities,
+            workLimits,
+            unavailableDates,
+            occupancies,
+            priorities,
+            requiredAssignments,
+            skills,
+            existingShifts: keptShifts,
+            pastShifts,
+            holidays: getJapaneseHolidaysInRange(windowStartStr, endDateStr).map((h) => h.date),
+            positions,
+            adjacentShifts: getAdjacentShifts(allShifts, startDateStr, endDateStr),
+            standardSchedules,
+            workRequests,
+            pairRules,
+            seniorCoverageRules,
+            breakRules,
+          },
+          strategyId,
+          options: {
+            ...DEFAULT_OPTIMIZER_OPTIONS,
+            seed,
+            iterations,
+            timeLimitMs: timeLimitSec * 1000,
+          },
+        },
+        setProgress
       );
+      const generationResult = await generationTask.current.result;
 
       setResult(generationResult);
 
@@ -93,13 +231,21 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
         alert('生成されたシフトがありません。必要人数設定と稼働状況を確認してください。');
       }
     } catch (error) {
+      if (error instanceof ShiftGenerationCancelledError) return;
       console.error('Error generating shifts:', error);
       alert('シフト生成中にエラーが発生しました');
     } finally {
+      generationTask.current = null;
       setGenerating(false);
+      setProgress(null);
     }
   };
 
+  const handleCancel = () => {
+    cancelRequested.current = true;
+    generationTask.current?.cancel();
+  };
+
   const handleSave = async () => {
     if (!result || result.shifts.length === 0) {
       alert('保存するシフトがありません');
@@ -109,6 +255,8 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
     const confirmMessage =
       overwriteMode === 'overwrite'
         ? `期間内の既存シフトを削除して、${result.shifts.length}件のシフトを保存しますか？`
+        : overwriteMode === 'fill'
+        ? `既存シフトはそのままで、${result.shifts.length}件のシフトを追加保存しますか？`
         : `${result.shifts.length}件のシフトを保存しますか？`;
 
     if (!confirm(confirmMessage)) {
@@ -117,8 +265,9 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
 
     setSaving(true);
     try {
-      const startDate = new Date(selectedYear, selectedMonth - 1, 1).toISOString().split('T')[0];
-      const endDate = new Date(selectedYear, selectedMonth, 0).toISOString().split('T')[0];
+      // 生成時と同じくローカルの日付で期間を計算（UTCに変換すると前月末日を削除して当月末日が残る）
+      const startDate = formatDate(new Date(selectedYear, selectedMonth - 1, 1));
+      const endDate = formatDate(new Date(selectedYear, selectedMonth, 0));
 
       // 上書きモードの場合は既存シフトを削除
       if (overwriteMode === 'overwrite') {
@@ -148,6 +297,25 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
     }
   };
 
+  const formatUnderAllocationType = (report: UnderAllocationReport) => {
+    switch (report.type) {
+      case 'weekly_hours':
+        return `週の労働時間（${formatDateJP(report.weekStart!)}〜）`;
+      case 'monthly_hours':
+        return '月の労働時間';
+      case 'monthly_days':
+        return '月の勤務日数';
+    }
+  };
+
+  const formatUnderAllocationValue = (type: UnderAllocationReport['type'], value: number) =>
+    type === 'monthly_days' ? `${value}日` : `${Math.round(value * 10) / 10}時間`;
+
+  const hasWarning = (...types: ConstraintWarning['type'][]) =>
+    !!result?.warnings.some(w => types.includes(w.type));
+
+  const formatYen = (amount: number) => `${Math.round(amount).toLocaleString()}円`;
+
   const groupShortagesByDate = (shortages: ShortageReport[]) => {
     const grouped = new Map<string, ShortageReport[]>();
     shortages.forEach((s) => {
@@ -164,9 +332,7 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
 
     const utilization = new Map<string, number>();
     result.shifts.forEach((shift) => {
-      const [startHour, startMin] = shift.startTime.split(':').map(Number);
-      const [endHour, endMin] = shift.endTime.split(':').map(Number);
-      const duration = (endHour * 60 + endMin - (startHour * 60 + startMin)) / 60;
+      const duration = calculateShiftHours(shift);
 
       const current = utilization.get(shift.staffId) || 0;
       utilization.set(shift.staffId, current + duration);
@@ -230,12 +396,25 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
                 type="radio"
                 value="keep"
                 checked={overwriteMode === 'keep'}
-                onChange={(e) => setOverwriteMode(e.target.value as 'keep' | 'overwrite')}
+                onChange={(e) => setOverwriteMode(e.target.value as 'keep' | 'fill' | 'overwrite')}
                 className="mr-2"
                 disabled={generating}
               />
               <span className="text-sm text-gray-700">
-                既存シフトを維持して空きだけ埋める
+                既存シフトがある場合は生成しない
+              </span>
+            </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                value="fill"
+                checked={overwriteMode === 'fill'}
+                onChange={(e) => setOverwriteMode(e.target.value as 'keep' | 'fill' | 'overwrite')}
+                className="mr-2"
+                disabled={generating}
+              />
+              <span className="text-sm text-gray-700">
+                既存シフトを維持して空きだけ埋める（手動で作成・確定したシフトは変更しません）
               </span>
             </label>
             <label className="flex items-center">
@@ -243,7 +422,7 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
                 type="radio"
                 value="overwrite"
                 checked={overwriteMode === 'overwrite'}
-                onChange={(e) => setOverwriteMode(e.target.value as 'keep' | 'overwrite')}
+                onChange={(e) => setOverwriteMode(e.target.value as 'keep' | 'fill' | 'overwrite')}
                 className="mr-2"
                 disabled={generating}
               />
@@ -254,8 +433,121 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
           </div>
         </div>
 
+        {/* 生成方式 */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            生成方式
+          </label>
+          <div className="space-y-2">
+            {SHIFT_GENERATION_STRATEGIES.map((strategy) => (
+              <label key={strategy.id} className="flex items-center">
+                <input
+                  type="radio"
+                  value={strategy.id}
+                  checked={strategyId === strategy.id}
+                  onChange={(e) => setStrategyId(e.target.value as ShiftStrategyId)}
+                  className="mr-2"
+                  disabled={generating}
+                />
+                <span className="text-sm text-gray-700">
+                  {strategy.name}（{strategy.description}）
+                </span>
+              </label>
+            ))}
+          </div>
+          {getShiftGenerationStrategy(strategyId).usesOptimizerOptions && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">乱数シード</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={seed}
+                  onChange={(e) => setSeed(parseInt(e.target.value) || 1)}
+                  className="input w-full"
+                  disabled={generating}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">反復回数</label>
+                <input
+                  type="number"
+                  min="1000"
+                  max="200000"
+                  step="1000"
+                  value={iterations}
+                  onChange={(e) => setIterations(Math.min(200000, Math.max(1000, parseInt(e.target.value) || 1000)))}
+                  className="input w-full"
+                  disabled={generating}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">計算時間の上限（秒）</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="60"
+                  value={timeLimitSec}
+                  onChange={(e) => setTimeLimitSec(Math.min(60, Math.max(1, parseInt(e.target.value) || 1)))}
+                  className="input w-full"
+                  disabled={generating}
+                />
+              </div>
+              <p className="text-xs text-gray-500 md:col-span-3">
+                ※ 同じシード・反復回数なら同じ結果になります（計算時間の上限は安全のための打ち切りで、達した場合はその時点で最も良い結果を使用し、生成結果に表示します）
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* 土日祝・夜勤の公平性 */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            土日祝・夜勤の公平性の集計期間
+          </label>
+          <select
+            value={fairnessWindowMonths}
+            onChange={(e) => setFairnessWindowMonths(Number(e.target.value))}
+            className="input max-w-xs"
+            disabled={generating}
+          >
+            {[1, 2, 3, 6, 12].map((months) => (
+              <option key={months} value={months}>
+                {months === 1 ? '対象月のみ' : `過去${months}ヶ月（対象月を含む）`}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* 生成の進捗 */}
+        {generating && progress && (
+          <div className="mb-4">
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>
+                {progress.phase === 'assign'
+                  ? `割り当て中: ${progress.completed}/${progress.total}日`
+                  : `最適化中: ${progress.completed}/${progress.total}回`}
+              </span>
+              <span className={progress.shortageCount > 0 ? 'text-red-600' : 'text-green-600'}>
+                現在の不足: {progress.shortageCount}人
+              </span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-primary-600 h-2 rounded-full"
+                style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
         {/* 生成ボタン */}
-        <div className="flex justify-end">
+        <div className="flex justify-end gap-3">
+          {generating && (
+            <button onClick={handleCancel} className="btn btn-secondary">
+              キャンセル
+            </button>
+          )}
           <button
             onClick={handleGenerate}
             disabled={generating}
@@ -272,17 +564,28 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
           <h3 className="font-semibold text-yellow-900 mb-2">既存シフトが存在します</h3>
           <p className="text-sm text-yellow-800 mb-4">
             {selectedYear}年{selectedMonth}月には既にシフトが登録されています。
-            「全て削除して最初から生成」を選択してから再度生成してください。
+            「既存シフトを維持して空きだけ埋める」または「全て削除して最初から生成」を選択してから再度生成してください。
           </p>
-          <button
-            onClick={() => {
-              setOverwriteMode('overwrite');
-              setHasExistingShifts(false);
-            }}
-            className="btn btn-secondary text-sm"
-          >
-            削除モードに切り替え
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                setOverwriteMode('fill');
+                setHasExistingShifts(false);
+              }}
+              className="btn btn-secondary text-sm"
+            >
+              空き埋めモードに切り替え
+            </button>
+            <button
+              onClick={() => {
+                setOverwriteMode('overwrite');
+                setHasExistingShifts(false);
+              }}
+              className="btn btn-secondary text-sm"
+            >
+              削除モードに切り替え
+            </button>
+          </div>
         </div>
       )}
 
@@ -315,6 +618,80 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
             <div className="mt-4 text-sm text-gray-700">{result.message}</div>
           </div>
 
+          {/* 必須スタッフ設定・翌月のシフト・ペアルール・ベテランの人数・休憩の重なりの警告 */}
+          {result.warnings.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">制約違反の警告</h3>
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+                <p className="text-sm text-yellow-800 mb-2">以下の警告の内容を確認してください。</p>
+                <ul className="text-sm text-yellow-800 space-y-1">
+                  {hasWarning('pinned_violation', 'rest_interval') && (
+                    <li>• 必須スタッフ設定: 制約に違反していますが、設定どおりに配置しました（同じ日に既存シフトがある設定は配置していません）</li>
+                  )}
+                  {hasWarning('next_month') && <li>• 翌月の登録済みシフト: 月末の勤務と合わせた違反です</li>}
+                  {hasWarning('pair_rule') && (
+                    <li>• 指導担当・同時配置NG: 必須スタッフ設定や維持した既存シフトによる違反です</li>
+                  )}
+                  {hasWarning('senior_coverage') && (
+                    <li>• ベテランの人数: 条件を満たすスタッフを配置できなかった枠です</li>
+                  )}
+                  {hasWarning('break_coverage') && (
+                    <li>• 休憩の重なり: 同じ役職の全員が同時に休憩している時間帯です</li>
+                  )}
+                </ul>
+              </div>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {result.warnings.map((warning, index) => (
+                  <div
+                    key={index}
+                    className="flex items-center justify-between text-sm bg-white border border-yellow-200 rounded p-2"
+                  >
+                    <div className="flex items-center gap-4">
+                      <span className="font-medium text-gray-700">{formatDateJP(warning.date)}</span>
+                      <span className="text-gray-700">{warning.timeSlotName}</span>
+                      <span className="text-gray-600">{warning.position}</span>
+                      {warning.staffId && (
+                        <span className="text-gray-600">
+                          {staffList.find(s => s.id === warning.staffId)?.name || '不明なスタッフ'}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-yellow-800 font-semibold">{warning.message}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* 最低労働時間に満たないスタッフ */}
+          {result.underAllocations.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">最低労働時間に満たないスタッフ</h3>
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
+                <p className="text-sm text-yellow-800">
+                  以下のスタッフは労働時間制約の最低値に届きませんでした。勤務可能時間や希望休を確認し、必要に応じて手動でシフトを追加してください。
+                </p>
+              </div>
+              <div className="space-y-2 max-h-96 overflow-y-auto">
+                {result.underAllocations.map((report, index) => (
+                  <div
+                    key={index}
+                    className="flex items-center justify-between text-sm bg-white border border-yellow-200 rounded p-2"
+                  >
+                    <div className="flex items-center gap-4">
+                      <span className="font-medium text-gray-700">{report.staffName}</span>
+                      <span className="text-gray-600">{formatUnderAllocationType(report)}</span>
+                    </div>
+                    <div className="text-yellow-800 font-semibold">
+                      {formatUnderAllocationValue(report.type, report.actual)} / 最低
+                      {formatUnderAllocationValue(report.type, report.target)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* 不足箇所レポート */}
           {result.shortages.length > 0 && (
             <div className="mb-6">
@@ -323,6 +700,9 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
                 <p className="text-sm text-red-800 mb-2">
                   以下の時間帯で必要人数を満たせませんでした。手動でスタッフを追加してください。
                 </p>
+                <p className="text-xs text-red-700">
+                  ※ 各行をクリックすると、対応できるスタッフが割り当てられなかった理由を確認できます
+                </p>
               </div>
               <div className="space-y-4 max-h-96 overflow-y-auto">
                 {groupShortagesByDate(result.shortages).map(([date, shortages]) => (
@@ -331,23 +711,88 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
                       {formatDateJP(date)}
                     </div>
                     <div className="space-y-2">
-                      {shortages.map((shortage, index) => (
-                        <div
-                          key={index}
-                          className="flex items-center justify-between text-sm bg-red-50 rounded p-2"
-                        >
-                          <div className="flex items-center gap-4">
-                            <span className="font-medium text-gray-700">
-                              {shortage.timeSlotName}
-                            </span>
-                            <span className="text-gray-600">{shortage.position}</span>
-                          </div>
-                          <div className="text-red-700 font-semibold">
-                            必要{shortage.requiredCount}人 / 割当{shortage.assignedCount}人
-                            （<span className="text-red-800">{shortage.shortageCount}人不足</span>）
+                      {shortages.map((shortage) => {
+                        const shortageKey = `${shortage.date}-${shortage.timeSlotId}-${shortage.position}-${shortage.buildingId || ''}`;
+                        const isExpanded = expandedShortage === shortageKey;
+                        const closest = shortage.closestCandidate;
+
+                        return (
+                          <div key={shortageKey}>
+                            <div
+                              onClick={() => setExpandedShortage(isExpanded ? null : shortageKey)}
+                              className="flex items-center justify-between text-sm bg-red-50 rounded p-2 cursor-pointer hover:bg-red-100"
+                            >
+                              <div className="flex items-center gap-4">
+                                <span className="text-gray-400">{isExpanded ? '▼' : '▶'}</span>
+                                <span className="font-medium text-gray-700">
+                                  {shortage.timeSlotName}
+                                </span>
+                                <span className="text-gray-600">
+                                  {shortage.position}
+                                  {shortage.buildingId &&
+                                    `（${buildings.find((b) => b.id === shortage.buildingId)?.name || '館'}）`}
+                                </span>
+                              </div>
+                              <div className="text-red-700 font-semibold">
+                                必要{shortage.requiredCount}人 / 割当{shortage.assignedCount}人
+                                （<span className="text-red-800">{shortage.shortageCount}人不足</span>）
+                              </div>
+                            </div>
+
+                            {/* 不足理由の詳細 */}
+                            {isExpanded && (
+                              <div className="border border-red-100 rounded-b p-3 text-sm space-y-3">
+                                {closest ? (
+                                  <div className="bg-yellow-50 border border-yellow-200 rounded p-2 text-yellow-900">
+                                    <span className="font-semibold">最も近い候補: </span>
+                                    {closest.staffName}
+                                    {closest.violations.length === 0
+                                      ? '（制約違反なし。手動で追加できます）'
+                                      : `（追加すると違反: ${closest.violations.map((v) => v.message).join(' / ')}）`}
+                                  </div>
+                                ) : (
+                                  <div className="text-gray-600">
+                                    この役職に対応できるスタッフがいません。スタッフ管理で主担当または兼務スキルを登録してください。
+                                  </div>
+                                )}
+
+                                {shortage.candidates.length > 0 && (
+                                  <table className="w-full">
+                                    <thead className="bg-gray-50">
+                                      <tr>
+                                        <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700">スタッフ</th>
+                                        <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700">区分</th>
+                                        <th className="px-3 py-2 text-left text-xs font-semibold text-gray-700">割り当てできなかった理由</th>
+                                      </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-200">
+                                      {shortage.candidates.map((candidate) => (
+                                        <tr key={candidate.staffId}>
+                                          <td className="px-3 py-2 text-gray-800">{candidate.staffName}</td>
+                                          <td className="px-3 py-2 text-gray-600">
+                                            {candidate.isPrimary ? '主担当' : '兼務'}
+                                          </td>
+                                          <td className="px-3 py-2 text-gray-700">
+                                            {candidate.violations.length === 0 ? (
+                                              <span className="text-green-700">制約違反なし</span>
+                                            ) : (
+                                              <ul className="space-y-0.5">
+                                                {candidate.violations.map((violation) => (
+                                                  <li key={violation.reason}>• {violation.message}</li>
+                                                ))}
+                                              </ul>
+                                            )}
+                                          </td>
+                                        </tr>
+                                      ))}
+                                    </tbody>
+                                  </table>
+                                )}
+                              </div>
+                            )}
                           </div>
-                        </div>
-                      ))}
+                        );
+                      })}
                     </div>
                   </div>
                 ))}
@@ -386,6 +831,164 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
             </div>
           </div>
 
+          {/* 人件費の見込み */}
+          {result.laborCost.rows.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">人件費の見込み</h3>
+              {result.laborCost.unpricedShiftCount > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4">
+                  <p className="text-sm text-yellow-800">
+                    時給が未設定のスタッフのシフトが{result.laborCost.unpricedShiftCount}件あります（0円として集計しています）
+                  </p>
+                </div>
+              )}
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">役職</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">労働時間</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">見込み</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">予算</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">予算との差</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[
+                      ...result.laborCost.rows,
+                      {
+                        position: '合計',
+                        hours: result.laborCost.rows.reduce((sum, row) => sum + row.hours, 0),
+                        cost: result.laborCost.totalCost,
+                        budget: result.laborCost.totalBudget,
+                      },
+                    ].map((row, index) => {
+                      const isTotal = index === result.laborCost.rows.length;
+                      return (
+                        <tr
+                          key={row.position}
+                          className={`border-t ${isTotal ? 'bg-gray-50 font-semibold' : 'hover:bg-gray-50'}`}
+                        >
+                          <td className="px-4 py-2 text-sm">{row.position}</td>
+                          <td className="px-4 py-2 text-sm text-right">{row.hours.toFixed(1)}時間</td>
+                          <td className="px-4 py-2 text-sm text-right">{formatYen(row.cost)}</td>
+                          <td className="px-4 py-2 text-sm text-right">
+                            {row.budget > 0 ? formatYen(row.budget) : '-'}
+                          </td>
+                          <td
+                            className={`px-4 py-2 text-sm text-right ${
+                              row.budget > 0 && row.cost > row.budget ? 'text-red-600 font-semibold' : 'text-gray-600'
+                            }`}
+                          >
+                            {row.budget > 0
+                              ? `${row.cost > row.budget ? '+' : ''}${formatYen(row.cost - row.budget)}`
+                              : '-'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* 勤務希望の満足度 */}
+          {result.preferences.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">勤務希望の満足度</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-100">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">スタッフ</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">満足度</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">評価したシフト</th>
+                      <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">出勤希望日</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...result.preferences]
+                      .sort((a, b) => (a.rate ?? 101) - (b.rate ?? 101))
+                      .map((row) => (
+                        <tr key={row.staffId} className="border-t hover:bg-gray-50">
+                          <td className="px-4 py-2 text-sm">{row.staffName}</td>
+                          <td
+                            className={`px-4 py-2 text-sm text-right ${
+                              row.rate !== null && row.rate < 50 ? 'text-red-600 font-semibold' : ''
+                            }`}
+                          >
+                            {row.rate !== null ? `${Math.round(row.rate)}%` : '-'}
+                          </td>
+                          <td className="px-4 py-2 text-sm text-right">{row.shiftCount}件</td>
+                          <td className="px-4 py-2 text-sm text-right">
+                            {row.workRequestCount > 0
+                              ? `${row.grantedWorkRequestCount} / ${row.workRequestCount}日`
+                              : '-'}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* 土日祝・夜勤の公平性 */}
+          {result.fairness.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-lg font-semibold text-gray-800 mb-4">
+                土日祝・夜勤の担当回数
+                {fairnessWindowMonths > 1 && `（過去${fairnessWindowMonths}ヶ月）`}
+              </h3>
+              <div className="space-y-4">
+                {result.fairness.map((report) => (
+                  <div key={report.position} className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-gray-100">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">
+                            {report.position}
+                          </th>
+                          {DAY_CATEGORIES.map((category) => (
+                            <th key={category} className="px-4 py-2 text-right text-sm font-semibold text-gray-700">
+                              {DAY_CATEGORY_LABELS[category]}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.rows.map((row) => (
+                          <tr key={row.staffId} className="border-t hover:bg-gray-50">
+                            <td className="px-4 py-2 text-sm">{row.staffName}</td>
+                            {DAY_CATEGORIES.map((category) => (
+                              <td key={category} className="px-4 py-2 text-sm text-right">
+                                {row.counts[category]}回
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                        <tr className="border-t bg-gray-50">
+                          <td className="px-4 py-2 text-sm text-gray-600">最大と最小の差</td>
+                          {DAY_CATEGORIES.map((category) => (
+                            <td
+                              key={category}
+                              className={`px-4 py-2 text-sm text-right font-medium ${
+                                report.spread[category] >= 3 ? 'text-yellow-700' : 'text-gray-600'
+                              }`}
+                            >
+                              {report.spread[category]}
+                            </td>
+                          ))}
+                        </tr>
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* 保存ボタン */}
           <div className="flex justify-end gap-3">
             <button onClick={() => setResult(null)} className="btn btn-secondary">
@@ -408,10 +1011,26 @@ export default function AutoShiftGenerator({ currentUser: _currentUser }: AutoSh
           <h4 className="font-semibold text-blue-900 mb-2">自動シフト生成について</h4>
           <ul className="text-sm text-blue-800 space-y-1">
             <li>• 1ヶ月分のシフトを自動的に生成します</li>
-            <li>• 必要人数設定と稼働状況に基づいて最適なスタッフを配置します</li>
+            <li>• 必須スタッフ設定（マスタ管理の「必須スタッフ」）は最初に配置され、必要人数に含めて計算します</li>
+            <li>• 不足箇所レポートでは、対応できるスタッフごとに割り当てできなかった理由（希望休・勤務可能時間・労働時間上限など）と最も近い候補を確認できます</li>
+            <li>• 「空きだけ埋める」では既存シフトを労働時間・必要人数に含めて計算し、不足している枠だけを追加で生成します</li>
+            <li>• 必要人数設定と稼働状況に基づいて最適なスタッフを配置します（日付ごとの設定がない日は必要人数テンプレートを使います）</li>
             <li>• スタッフの勤務可能時間、労働時間制約、希望休を考慮します</li>
             <li>• 同じスタッフを1日に複数時間帯に割り当てません</li>
-            <li>• 優先度: スキル適合度 → 連続勤務回避 → 月の累積労働時間</li>
+            <li>• 土曜・日曜・祝日（振替休日・国民の休日を含む）・夜勤（22時〜翌5時にかかる時間帯）は、集計期間の担当回数が少ないスタッフを優先します</li>
+            <li>• 最低労働時間・勤務日数（労働時間制約）は、必要人数を満たした後に対応できる枠へ追加して近づけます。届かなかったスタッフは結果に表示されます</li>
+            <li>• 前日の終業から勤務間インターバル（既定11時間）を空けて割り当てます</li>
+            <li>• 前月末・翌月初めの登録済みシフトも連続勤務日数・月をまたぐ週の労働時間・勤務間インターバルに含めます（月の労働時間には含めません）</li>
+            <li>• 研修中のスタッフは指導担当が同じ役職で勤務している時間帯にのみ割り当て、同時配置NGのスタッフ同士は同じ時間帯に割り当てません（スタッフ詳細の「ペアルール」タブ）</li>
+            <li>• ベテランの最低人数（マスタ管理の「ベテラン配置」）を設定した時間帯×役職は、信頼度または勤続期間の基準を満たすスタッフから先に割り当てます</li>
+            <li>• 休憩は休憩ルール（マスタ管理の「休憩ルール」、既定は6時間超で45分・8時間超で60分）から各シフトに設定し、同じ役職の休憩がなるべく重ならないよう開始時刻をずらします。労働時間の制約・集計は休憩を除いた実働時間で計算します</li>
+            <li>• 主担当のスタッフで足りない場合は、兼務スキル（スタッフ管理の編集画面）を持つスタッフで補います</li>
+            <li>• 標準の優先度: スキル適合度 → 優先度設定（スタッフ詳細の「優先度」タブ）・連続勤務回避 → 月の累積労働時間</li>
+            <li>• 標準勤務パターン（希望曜日・開始時刻・1日の時間・週の日数）と月間の勤務希望の出勤希望日に合うスタッフを優先します（守れない場合もあります）。結果の満足度は希望に合ったシフトの割合で、勤務が入らなかった出勤希望日は0%として数えます</li>
+            <li>• 「信頼度順」「公平性重視」「人件費重視」は同じ制約のもとで、割り当てるスタッフの順番だけを変えます</li>
+            <li>• 人件費は時給（スタッフ管理）に深夜（22時〜翌5時）・休日（日曜・祝日）の割増を加えて見込み、役職管理の月の予算と比較します。条件が同じスタッフは人件費の安い方を優先します</li>
+            <li>• 「最適化」を選ぶと、標準の結果をもとに月全体で不足と労働時間の偏りが少なくなるよう入れ替えます</li>
+            <li>• 生成はバックグラウンドで行い、処理済みの日数・現在の不足人数を表示します。「キャンセル」で途中で止められます</li>
             <li>• 生成後、不足箇所レポートを確認してから保存してください</li>
           </ul>
         </div>
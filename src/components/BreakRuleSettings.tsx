@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { breakRuleStorage } from '../utils/autoShiftStorage';
+import { DEFAULT_BREAK_RULES } from '../utils/helpers';
+
+interface BreakRuleRow {
+  minWorkHours: string;
+  breakMinutes: string;
+}
+
+const toRows = (rules: { minWorkHours: number; breakMinutes: number }[]): BreakRuleRow[] =>
+  rules.map(r => ({ minWorkHours: String(r.minWorkHours), breakMinutes: String(r.breakMinutes) }));
+
+export default function BreakRuleSettings() {
+  const [rows, setRows] = useState<BreakRuleRow[]>([]);
+  const [isDefault, setIsDefault] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    setLoading(true);
+    const data = await breakRuleStorage.getAll();
+
+    // 登録がない場合は既定値を表示（保存するまでは既定値で生成する）
+    setIsDefault(data.length === 0);
+    setRows(toRows(data.length > 0 ? data : DEFAULT_BREAK_RULES));
+    setLoading(false);
+  };
+
+  const updateRow = (index: number, field: keyof BreakRuleRow, value: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const handleSave = async () => {
+    const rules = rows.map(row => ({
+      minWorkHours: Number(row.minWorkHours),
+      breakMinutes: Number(row.breakMinutes),
+    }));
+
+    const isInvalid = (value: number) => !Number.isFinite(value) || value <= 0;
+    if (rules.some(r => isInvalid(r.minWorkHours) || isInvalid(r.breakMinutes))) {
+      alert('労働時間・休憩時間は0より大きい数値を入力してください');
+      return;
+    }
+    if (new Set(rules.map(r => r.minWorkHours)).size !== rules.length) {
+      alert('同じ労働時間のルールが複数あります');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await breakRuleStorage.replaceAll([...rules].sort((a, b) => a.minWorkHours - b.minWorkHours));
+      alert('休憩ルールを保存しました');
+      await loadRules();
+    } catch (error) {
+      console.error('Error saving break rules:', error);
+      alert('保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-gray-500">読み込み中...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">休憩ルール</h2>
+
+      <div className="card">
+        <div className="mb-4">
+          <h3 className="font-semibold text-lg mb-2">労働時間ごとの休憩時間</h3>
+          <p className="text-sm text-gray-600">
+            労働時間が設定した時間を超えるシフトには、設定した休憩時間を与えます。
+            {isDefault && '（未登録のため既定値を表示しています）'}
+          </p>
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <p>休憩ルールがありません（保存すると既定値で計算します）</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-3 text-sm">
+                <span>労働時間が</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.5"
+                  value={row.minWorkHours}
+                  onChange={(e) => updateRow(index, 'minWorkHours', e.target.value)}
+                  className="input w-24"
+                />
+                <span>時間を超える場合、休憩</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="5"
+                  value={row.breakMinutes}
+                  onChange={(e) => updateRow(index, 'breakMinutes', e.target.value)}
+                  className="input w-24"
+                />
+                <span>分</span>
+                <button
+                  onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-800 ml-auto"
+                >
+                  削除
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="mt-6 flex justify-between">
+          <button
+            onClick={() => setRows(prev => [...prev, { minWorkHours: '', breakMinutes: '' }])}
+            className="btn btn-secondary"
+            disabled={saving}
+          >
+            ルールを追加
+          </button>
+          <div className="flex gap-3">
+            <button
+              onClick={() => setRows(toRows(DEFAULT_BREAK_RULES))}
+              className="btn btn-secondary"
+              disabled={saving}
+            >
+              既定値に戻す
+            </button>
+            <button
+              onClick={handleSave}
+              className="btn btn-primary"
+              disabled={saving}
+            >
+              {saving ? '保存中...' : '保存'}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h3 className="font-semibold text-blue-900 mb-2">💡 休憩ルールについて</h3>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• 既定は労働基準法に合わせて、6時間を超える場合45分、8時間を超える場合60分です</li>
+          <li>• 中抜け勤務の中抜け時間は休憩に含めます。足りない分だけ勤務中の休憩を設定します</li>
+          <li>• 労働時間の上限・下限、集計、人件費はすべて休憩を除いた実働時間で計算します</li>
+          <li>• 自動シフト生成では、同じ役職の全員が同時に休憩しないよう休憩の開始時刻をずらします</li>
+          <li>• 変更は以降に生成・登録するシフトに反映されます。登録済みのシフトの休憩時間は変わりません</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
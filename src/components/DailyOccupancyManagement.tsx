@@ -65,6 +65,11 @@ export default function DailyOccupancyManagement() {
     const occupancy = occupancies.find(o => o.buildingId === buildingId);
     if (!occupancy) return;
 
+    if (occupancy.hasBanquet && !occupancy.banquetStartTime !== !occupancy.banquetEndTime) {
+      alert('宴会時間は開始時刻と終了時刻の両方を入力してください');
+      return;
+    }
+
     setSaving(true);
     try {
       await dailyOccupancyStorage.upsert(occupancy);
@@ -114,6 +119,8 @@ export default function DailyOccupancyManagement() {
         ...occ,
         hasBanquet,
         banquetGuestCount: hasBanquet ? occ.banquetGuestCount : 0,
+        banquetStartTime: hasBanquet ? occ.banquetStartTime : undefined,
+        banquetEndTime: hasBanquet ? occ.banquetEndTime : undefined,
       };
     }));
   };
@@ -129,6 +136,21 @@ export default function DailyOccupancyManagement() {
     }));
   };
 
+  const handleBanquetTimeChange = (
+    buildingId: string,
+    field: 'banquetStartTime' | 'banquetEndTime',
+    value: string
+  ) => {
+    setOccupancies(prev => prev.map(occ => {
+      if (occ.buildingId !== buildingId) return occ;
+
+      return {
+        ...occ,
+        [field]: value || undefined,
+      };
+    }));
+  };
+
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -389,6 +411,32 @@ export default function DailyOccupancyManagement() {
                   </div>
                 </div>
               )}
+
+              {occupancy.hasBanquet && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-600 mb-2">
+                    宴会時間
+                  </label>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="time"
+                      value={occupancy.banquetStartTime || ''}
+                      onChange={(e) => handleBanquetTimeChange(occupancy.buildingId, 'banquetStartTime', e.target.value)}
+                      className="input w-full md:w-36"
+                    />
+                    <span className="text-gray-600">〜</span>
+                    <input
+                      type="time"
+                      value={occupancy.banquetEndTime || ''}
+                      onChange={(e) => handleBanquetTimeChange(occupancy.buildingId, 'banquetEndTime', e.target.value)}
+                      className="input w-full md:w-36"
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    未入力の場合は、すべての時間帯に宴会の追加人数を加えます
+                  </p>
+                </div>
+              )}
             </div>
           </div>
 
@@ -411,7 +459,8 @@ export default function DailyOccupancyManagement() {
         <ul className="text-sm text-blue-800 space-y-1">
           <li>• この情報は自動シフト生成時に必要人数を調整するために使用されます</li>
           <li>• 稼働率が高いほど、より多くのスタッフが必要になります</li>
-          <li>• 宴会がある場合、追加のスタッフが必要になります</li>
+          <li>• 宴会がある場合、宴会の時間に重なる時間帯に追加のスタッフが必要になります</li>
+          <li>• 役職ごとの「宴会客数あたりの追加人数」（役職管理で設定）に応じて、宴会人数が多いほど追加人数が増えます</li>
           <li>• CSVインポートで予約データから自動的に館別の稼働状況を取り込めます</li>
         </ul>
       </div>
@@ -1,11 +1,20 @@
 import { useState, useEffect } from 'react';
-import type { TimeSlot, PositionMaster } from '../types';
-import { timeSlotStorage, dailyRequirementStorage } from '../utils/autoShiftStorage';
+import type { TimeSlot, PositionMaster, DailyStaffRequirement, RequirementTemplate, Building } from '../types';
+import {
+  timeSlotStorage,
+  dailyRequirementStorage,
+  requirementTemplateStorage,
+  requirementTemplateAssignmentStorage,
+  buildingStorage,
+} from '../utils/autoShiftStorage';
+import { resolveTemplateForDate } from '../utils/requirementTemplates';
 import { positionStorage } from '../utils/supabaseStorage';
+import { getDayType, getHolidayName, DAY_TYPE_LABELS } from '../utils/japaneseHolidays';
+import { getDaysInMonth, formatDate } from '../utils/helpers';
 
 interface DailyStaffRequirementSettingsProps {
-  selectedDate?: string; // YYYY-MM-DD形式、未指定なら曜日テンプレート
-  dayOfWeek?: number; // 0-6、selectedDateが未指定の場合に使用
+  selectedDate?: string; // YYYY-MM-DD形式、未指定ならテンプレート
+  templateId?: string; // selectedDateが未指定の場合に編集するテンプレート
 }
 
 interface RequirementMatrix {
@@ -20,35 +29,60 @@ interface RequirementMatrix {
 
 export default function DailyStaffRequirementSettings({
   selectedDate,
-  dayOfWeek = 1, // デフォルトは月曜日
+  templateId,
 }: DailyStaffRequirementSettingsProps) {
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
   const [positions, setPositions] = useState<PositionMaster[]>([]);
+  const [buildings, setBuildings] = useState<Building[]>([]);
+  const [buildingId, setBuildingId] = useState(''); // 空の場合は全館
   const [matrix, setMatrix] = useState<RequirementMatrix>({});
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
-
-  const dayNames = ['日曜日', '月曜日', '火曜日', '水曜日', '木曜日', '金曜日', '土曜日'];
+  // 日付の設定がなくテンプレートの値を表示している場合のテンプレート
+  const [sourceTemplate, setSourceTemplate] = useState<RequirementTemplate | null>(null);
 
   useEffect(() => {
     loadInitialData();
-  }, [selectedDate, dayOfWeek]);
+  }, [selectedDate, templateId, buildingId]);
+
+  // 選択中の館（全館）の設定のみ対象
+  const isSelectedBuilding = (r: Pick<DailyStaffRequirement, 'buildingId'>) => (r.buildingId || '') === buildingId;
 
   const loadInitialData = async () => {
     setLoading(true);
     try {
       // 時間帯と役職を取得
-      const [timeSlotsData, positionsData] = await Promise.all([
+      const [timeSlotsData, positionsData, buildingsData] = await Promise.all([
         timeSlotStorage.getAll(),
         positionStorage.getActive(),
+        buildingStorage.getAll(),
       ]);
 
       setTimeSlots(timeSlotsData);
       setPositions(positionsData);
+      setBuildings(buildingsData);
 
       // 既存の設定を取得（特定日の場合）
       if (selectedDate) {
-        const requirements = await dailyRequirementStorage.getByDate(selectedDate);
+        let requirements: Pick<
+          DailyStaffRequirement,
+          'timeSlotId' | 'position' | 'requiredCount' | 'roomOccupancyBonus' | 'banquetBonus'
+        >[] = (await dailyRequirementStorage.getByDate(selectedDate)).filter(isSelectedBuilding);
+        setSourceTemplate(null);
+
+        // 日付の設定がない場合は、その日のテンプレートの値を表示
+        if (requirements.length === 0) {
+          const [templates, assignments] = await Promise.all([
+            requirementTemplateStorage.getAll(),
+            requirementTemplateAssignmentStorage.getByDateRange(selectedDate, selectedDate),
+          ]);
+          const template = resolveTemplateForDate(selectedDate, templates, assignments);
+          if (template) {
+            requirements = (await requirementTemplateStorage.getItems(template.id)).filter(isSelectedBuilding);
+            setSourceTemplate(template);
+          }
+        }
+
         const newMatrix: RequirementMatrix = {};
 
         // マトリクスを初期化
@@ -68,15 +102,21 @@ export default function DailyStaffRequirementSettings({
 
         setMatrix(newMatrix);
       } else {
-        // 曜日テンプレートの場合は空のマトリクスを作成
+        // テンプレートの場合はテンプレートの設定を取得
+        const items = templateId
+          ? (await requirementTemplateStorage.getItems(templateId)).filter(isSelectedBuilding)
+          : [];
         const newMatrix: RequirementMatrix = {};
         timeSlotsData.forEach(slot => {
           newMatrix[slot.id] = {};
           positionsData.forEach(pos => {
+            const existing = items.find(
+              i => i.timeSlotId === slot.id && i.position === pos.name
+            );
             newMatrix[slot.id][pos.name] = {
-              requiredCount: 0,
-              roomOccupancyBonus: 0,
-              banquetBonus: 0,
+              requiredCount: existing?.requiredCount || 0,
+              roomOccupancyBonus: existing?.roomOccupancyBonus || 0,
+              banquetBonus: existing?.banquetBonus || 0,
             };
           });
         });
@@ -108,29 +148,53 @@ export default function DailyStaffRequirementSettings({
     }));
   };
 
-  const handleSave = async () => {
-    if (!selectedDate) {
-      alert('日付が指定されていません');
-      return;
-    }
-
-    setSaving(true);
-    try {
-      // マトリクスの各セルをupsert
+  // マトリクスの各セルを指定した日付にupsert
+  const saveMatrix = async (dates: string[]) => {
+    for (const date of dates) {
       for (const timeSlotId of Object.keys(matrix)) {
         for (const position of Object.keys(matrix[timeSlotId])) {
           const data = matrix[timeSlotId][position];
           await dailyRequirementStorage.upsert({
-            date: selectedDate,
+            date,
             position,
             timeSlotId,
             requiredCount: data.requiredCount,
+            buildingId: buildingId || undefined,
             roomOccupancyBonus: data.roomOccupancyBonus,
             banquetBonus: data.banquetBonus,
           });
         }
       }
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selectedDate && !templateId) {
+      alert('日付が指定されていません');
+      return;
+    }
 
+    setSaving(true);
+    try {
+      if (selectedDate) {
+        await saveMatrix([selectedDate]);
+        setSourceTemplate(null);
+      } else {
+        for (const timeSlotId of Object.keys(matrix)) {
+          for (const position of Object.keys(matrix[timeSlotId])) {
+            const data = matrix[timeSlotId][position];
+            await requirementTemplateStorage.upsertItem({
+              templateId: templateId!,
+              position,
+              timeSlotId,
+              requiredCount: data.requiredCount,
+              buildingId: buildingId || undefined,
+              roomOccupancyBonus: data.roomOccupancyBonus,
+              banquetBonus: data.banquetBonus,
+            });
+          }
+        }
+      }
       alert('保存しました');
     } catch (error) {
       console.error('Error saving requirements:', error);
@@ -140,6 +204,32 @@ export default function DailyStaffRequirementSettings({
     }
   };
 
+  // 同じ月の同じ日種別（平日・日曜祝日・休前日祝前日）の日にまとめて保存
+  const handleApplyToDayType = async () => {
+    if (!selectedDate) return;
+
+    const dayType = getDayType(selectedDate);
+    const [year, month] = selectedDate.split('-').map(Number);
+    const dates = Array.from({ length: getDaysInMonth(year, month) }, (_, i) =>
+      formatDate(new Date(year, month - 1, i + 1))
+    ).filter((date) => getDayType(date) === dayType);
+
+    if (!confirm(`${month}月の${DAY_TYPE_LABELS[dayType]}（${dates.length}日）に同じ必要人数を保存しますか？`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveMatrix(dates);
+      alert(`${dates.length}日分を保存しました`);
+    } catch (error) {
+      console.error('Error saving requirements:', error);
+      alert('保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="card">
@@ -155,9 +245,34 @@ export default function DailyStaffRequirementSettings({
           役職別必要人数設定
         </h2>
         {selectedDate ? (
-          <p className="text-gray-600">日付: {selectedDate}</p>
+          <p className="text-gray-600">
+            日付: {selectedDate}（{DAY_TYPE_LABELS[getDayType(selectedDate)]}
+            {getHolidayName(selectedDate) && `・${getHolidayName(selectedDate)}`}）
+          </p>
         ) : (
-          <p className="text-gray-600">曜日テンプレート: {dayNames[dayOfWeek]}</p>
+          <p className="text-gray-600">テンプレートの必要人数</p>
+        )}
+        {sourceTemplate && (
+          <p className="text-sm text-primary-700 mt-1">
+            この日はテンプレート「{sourceTemplate.name}」の値を使用しています。保存するとこの日だけの設定になります
+          </p>
+        )}
+        {buildings.length > 0 && (
+          <div className="flex items-center gap-2 mt-3">
+            <label className="text-sm font-medium text-gray-700">対象の館</label>
+            <select
+              value={buildingId}
+              onChange={(e) => setBuildingId(e.target.value)}
+              className="input max-w-xs"
+            >
+              <option value="">全館</option>
+              {buildings.map(building => (
+                <option key={building.id} value={building.id}>
+                  {building.name}
+                </option>
+              ))}
+            </select>
+          </div>
         )}
       </div>
 
@@ -266,13 +381,25 @@ export default function DailyStaffRequirementSettings({
             <h4 className="font-semibold text-blue-900 mb-2">設定の説明</h4>
             <ul className="text-sm text-blue-800 space-y-1">
               <li>• <strong>基本</strong>: 基本的な必要人数</li>
-              <li>• <strong>稼働</strong>: 客室稼働率10%ごとに追加する人数</li>
-              <li>• <strong>宴会</strong>: 宴会がある場合に追加する人数</li>
+              <li>• <strong>稼働</strong>: 客室稼働率10%ごとに追加する人数（全館の設定は館ごとの稼働率を客室数で加重平均した値を使います）</li>
+              <li>• <strong>対象の館</strong>: 館を選ぶと、その館の稼働率・宴会で変動する館別の必要人数になり、その館が所属館のスタッフのみ割り当てられます</li>
+              <li>• <strong>宴会</strong>: 宴会がある場合に、宴会の時間に重なる時間帯へ追加する人数（宴会客数に応じた追加人数は役職管理で設定）</li>
+              <li>• 日付の設定がない日は、必要人数テンプレート（カレンダーで割り当てたもの、なければ日種別の既定）の値を使います</li>
+              <li>• 「同じ日種別に適用」で、同じ月の平日・日曜祝日・休前日祝前日（翌日が日曜・祝日の日）にまとめて保存できます</li>
             </ul>
           </div>
 
-          {selectedDate && (
-            <div className="flex justify-end">
+          {(selectedDate || templateId) && (
+            <div className="flex justify-end gap-3">
+              {selectedDate && (
+                <button
+                  onClick={handleApplyToDayType}
+                  disabled={saving}
+                  className="btn btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  同じ日種別に適用
+                </button>
+              )}
               <button
                 onClick={handleSave}
                 disabled={saving}
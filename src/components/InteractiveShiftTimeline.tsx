@@ -1,7 +1,10 @@
-import { useState } from 'react';
-import type { Staff, Shift } from '../types';
-import { getPositionColor, generateId } from '../utils/helpers';
+import { useState, useEffect } from 'react';
+import type { Staff, Shift, BreakRule } from '../types';
+import { getPositionColor, generateId, getRequiredBreakMinutes, getRestBreakRange } from '../utils/helpers';
 import { shiftStorage } from '../utils/supabaseStorage';
+import { breakRuleStorage } from '../utils/autoShiftStorage';
+import { resolveBreakRules } from '../utils/restBreaks';
+import { validateRestInterval, validateShiftPairRules } from '../utils/shiftValidation';
 
 interface InteractiveShiftTimelineProps {
   shifts: Shift[];
@@ -24,6 +27,11 @@ export default function InteractiveShiftTimeline({
   const [hoveredStaffId, setHoveredStaffId] = useState<string | null>(null);
   const [hoveredShiftId, setHoveredShiftId] = useState<string | null>(null);
   const [resizingShift, setResizingShift] = useState<{ shiftId: string; edge: 'start' | 'end'; originalStart: number; originalEnd: number } | null>(null);
+  const [breakRules, setBreakRules] = useState<BreakRule[]>([]);
+
+  useEffect(() => {
+    breakRuleStorage.getAll().then(setBreakRules);
+  }, []);
 
   // 時刻から秒を削除（HH:MM:SS -> HH:MM）
   const formatTime = (time: string): string => {
@@ -62,7 +70,8 @@ export default function InteractiveShiftTimeline({
     }
 
     const left = ((start - minHour) / totalHours) * 100;
-    const width = ((end - start) / totalHours) * 100;
+    // 時間軸の終端（翌3:00）を超える部分は切り詰める
+    const width = ((Math.min(end, maxHour) - start) / totalHours) * 100;
 
     return {
       left: `${left}%`,
@@ -70,6 +79,36 @@ export default function InteractiveShiftTimeline({
     };
   };
 
+  // 中抜け時間帯を時間軸上の数値で取得（中抜けがない場合はnull）
+  const getBreakRange = (shift: Shift): { start: number; end: number } | null => {
+    if (!shift.breakStartTime || !shift.breakEndTime) return null;
+
+    const shiftStart = timeToNumber(shift.startTime);
+    let start = timeToNumber(shift.breakStartTime);
+    let end = timeToNumber(shift.breakEndTime);
+
+    if (start < shiftStart) start += 24;
+    if (end < start) end += 24;
+
+    return { start, end };
+  };
+
+  // 中抜け部分の位置とサイズを計算（シフトバー内の相対位置）
+  const getBreakGapStyle = (shift: Shift) => {
+    const breakRange = getBreakRange(shift);
+    if (!breakRange) return null;
+
+    const start = timeToNumber(shift.startTime);
+    let end = timeToNumber(shift.endTime);
+    if (end < start) end += 24;
+
+    const duration = Math.min(end, maxHour) - start;
+    return {
+      left: `${((breakRange.start - start) / duration) * 100}%`,
+      width: `${((breakRange.end - breakRange.start) / duration) * 100}%`,
+    };
+  };
+
   // マウス位置から時刻を計算
   const getTimeFromMousePosition = (e: React.MouseEvent<HTMLDivElement>, element: HTMLDivElement): number => {
     const rect = element.getBoundingClientRect();
@@ -115,6 +154,13 @@ export default function InteractiveShiftTimeline({
       return;
     }
 
+    // 指導担当・同時配置NGのチェック（確認の上で削除できる）
+    const shift = shifts.find((s) => s.id === shiftId);
+    const pairError = shift ? await validateShiftPairRules(shift, true) : null;
+    if (pairError && !confirm(`${pairError}\n\nこのまま削除しますか？`)) {
+      return;
+    }
+
     try {
       await shiftStorage.delete(shiftId);
       await onUpdate();
@@ -181,6 +227,15 @@ export default function InteractiveShiftTimeline({
       return;
     }
 
+    // 中抜け勤務は中抜け時間帯をまたぐ範囲のみ許可
+    const breakRange = getBreakRange(shift);
+    if (breakRange && (newStart >= breakRange.start || newEnd <= breakRange.end)) {
+      alert('中抜け勤務は中抜け時間帯の前後に勤務が必要です');
+      setResizingShift(null);
+      setDragEnd(null);
+      return;
+    }
+
     // 重複チェック（自分自身のシフトを除外）
     if (hasOverlap(staffId, newStart, newEnd, resizingShift.shiftId)) {
       alert('この時間帯は既にシフトが登録されています');
@@ -200,10 +255,47 @@ export default function InteractiveShiftTimeline({
       startTimeStr = numberToTime(newStart - 24);
     }
 
+    // 勤務間インターバルチェック
+    const restError = await validateRestInterval({
+      id: shift.id,
+      staffId,
+      date: shift.date,
+      startTime: startTimeStr,
+      endTime: endTimeStr,
+    });
+    if (restError) {
+      alert(restError);
+      setResizingShift(null);
+      setDragEnd(null);
+      return;
+    }
+
+    // 勤務時間に合わせて休憩ルールの休憩時間に設定し直す（開始時刻は勤務時間の中ほど）
+    const restBreakMinutes = getRequiredBreakMinutes(
+      { ...shift, startTime: startTimeStr, endTime: endTimeStr },
+      resolveBreakRules(breakRules)
+    );
+
+    // 指導担当・同時配置NGのチェック（確認の上で保存できる）
+    const pairError = await validateShiftPairRules({
+      ...shift,
+      startTime: startTimeStr,
+      endTime: endTimeStr,
+      restBreakStartTime: undefined,
+      restBreakMinutes,
+    });
+    if (pairError && !confirm(`${pairError}\n\nこのまま保存しますか？`)) {
+      setResizingShift(null);
+      setDragEnd(null);
+      return;
+    }
+
     try {
       await shiftStorage.update(shift.id, {
         startTime: startTimeStr,
         endTime: endTimeStr,
+        restBreakStartTime: undefined,
+        restBreakMinutes,
       });
       await onUpdate();
     } catch (error: any) {
@@ -287,18 +379,46 @@ export default function InteractiveShiftTimeline({
       startTimeStr = numberToTime(startTime - 24);
     }
 
-    try {
-      const newShift: Shift = {
-        id: generateId(),
-        staffId: dragStart.staffId,
-        date: date,
-        position: staffMember.position,
-        startTime: startTimeStr,
-        endTime: endTimeStr,
-        isStandard: false,
-        isConfirmed: false,
-      };
+    // 勤務間インターバルチェック
+    const restError = await validateRestInterval({
+      staffId: dragStart.staffId,
+      date,
+      startTime: startTimeStr,
+      endTime: endTimeStr,
+    });
+    if (restError) {
+      alert(restError);
+      setIsDragging(false);
+      setDragStart(null);
+      setDragEnd(null);
+      return;
+    }
+
+    const newShift: Shift = {
+      id: generateId(),
+      staffId: dragStart.staffId,
+      date: date,
+      position: staffMember.position,
+      startTime: startTimeStr,
+      endTime: endTimeStr,
+      restBreakMinutes: getRequiredBreakMinutes(
+        { startTime: startTimeStr, endTime: endTimeStr },
+        resolveBreakRules(breakRules)
+      ),
+      isStandard: false,
+      isConfirmed: false,
+    };
 
+    // 指導担当・同時配置NGのチェック（確認の上で保存できる）
+    const pairError = await validateShiftPairRules(newShift);
+    if (pairError && !confirm(`${pairError}\n\nこのまま保存しますか？`)) {
+      setIsDragging(false);
+      setDragStart(null);
+      setDragEnd(null);
+      return;
+    }
+
+    try {
       await shiftStorage.add(newShift);
       await onUpdate();
     } catch (error: any) {
@@ -470,6 +590,8 @@ export default function InteractiveShiftTimeline({
                     const resizePreview = getResizePreviewStyle(shift);
                     const style = isResizing && resizePreview ? resizePreview : getShiftBarStyle(shift);
                     const isHovering = hoveredShiftId === shift.id;
+                    const breakGapStyle = isResizing ? null : getBreakGapStyle(shift);
+                    const restBreak = getRestBreakRange(shift, resolveBreakRules(breakRules));
 
                     return (
                       <div
@@ -482,8 +604,22 @@ export default function InteractiveShiftTimeline({
                         onMouseLeave={() => setHoveredShiftId(null)}
                         title={`${staffMember.name}: ${formatTime(shift.startTime)} - ${formatTime(
                           shift.endTime
-                        )}`}
+                        )}${
+                          shift.breakStartTime && shift.breakEndTime
+                            ? `（中抜け ${formatTime(shift.breakStartTime)} - ${formatTime(shift.breakEndTime)}）`
+                            : ''
+                        }${restBreak ? `（休憩 ${restBreak.startTime} - ${restBreak.endTime}）` : ''}`}
                       >
+                        {/* 中抜け部分（前半・後半の2本のバーに見えるよう背景で塗りつぶす） */}
+                        {breakGapStyle && (
+                          <div
+                            className="absolute -top-1 -bottom-1 bg-gray-50 border-x-2 border-dashed border-gray-300 flex items-center justify-center text-gray-400 pointer-events-none"
+                            style={breakGapStyle}
+                          >
+                            <span className="truncate">中抜け</span>
+                          </div>
+                        )}
+
                         {/* 左端のリサイズハンドル */}
                         <div
                           className="absolute left-0 top-0 bottom-0 w-3 cursor-ew-resize hover:bg-black hover:bg-opacity-20 flex items-center justify-center"
@@ -5,6 +5,11 @@ import BuildingManagement from './BuildingManagement';
 import RoomManagement from './RoomManagement';
 import TimeSlotManagement from './TimeSlotManagement';
 import DailyStaffRequirementSettings from './DailyStaffRequirementSettings';
+import RequirementTemplateSettings from './RequirementTemplateSettings';
+import ReservationDemandProposal from './ReservationDemandProposal';
+import RequiredStaffAssignmentSettings from './RequiredStaffAssignmentSettings';
+import SeniorCoverageSettings from './SeniorCoverageSettings';
+import BreakRuleSettings from './BreakRuleSettings';
 import { getToday } from '../utils/helpers';
 
 interface MasterManagementProps {
@@ -14,10 +19,10 @@ interface MasterManagementProps {
 }
 
 export default function MasterManagement({ currentUser, positions, onUpdate }: MasterManagementProps) {
-  const [activeSubTab, setActiveSubTab] = useState<'timeslots' | 'requirements' | 'positions' | 'buildings' | 'rooms'>(() => {
+  const [activeSubTab, setActiveSubTab] = useState<'timeslots' | 'requirements' | 'templates' | 'demand' | 'required' | 'senior' | 'breaks' | 'positions' | 'buildings' | 'rooms'>(() => {
     const savedSubTab = localStorage.getItem('masterManagementSubTab');
-    const validSubTabs = ['timeslots', 'requirements', 'positions', 'buildings', 'rooms'];
-    return validSubTabs.includes(savedSubTab || '') ? (savedSubTab as 'timeslots' | 'requirements' | 'positions' | 'buildings' | 'rooms') : 'timeslots';
+    const validSubTabs = ['timeslots', 'requirements', 'templates', 'demand', 'required', 'senior', 'breaks', 'positions', 'buildings', 'rooms'];
+    return validSubTabs.includes(savedSubTab || '') ? (savedSubTab as 'timeslots' | 'requirements' | 'templates' | 'demand' | 'required' | 'senior' | 'breaks' | 'positions' | 'buildings' | 'rooms') : 'timeslots';
   });
 
   useEffect(() => {
@@ -49,6 +54,56 @@ export default function MasterManagement({ currentUser, positions, onUpdate }: M
           >
             必要人数設定
           </button>
+          <button
+            onClick={() => setActiveSubTab('templates')}
+            className={`flex-1 px-6 py-3 font-medium text-sm transition-colors whitespace-nowrap ${
+              activeSubTab === 'templates'
+                ? 'text-primary-600 border-b-2 border-primary-600 bg-primary-50'
+                : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+            }`}
+          >
+            必要人数テンプレート
+          </button>
+          <button
+            onClick={() => setActiveSubTab('demand')}
+            className={`flex-1 px-6 py-3 font-medium text-sm transition-colors whitespace-nowrap ${
+              activeSubTab === 'demand'
+                ? 'text-primary-600 border-b-2 border-primary-600 bg-primary-50'
+                : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+            }`}
+          >
+            予約から算出
+          </button>
+          <button
+            onClick={() => setActiveSubTab('required')}
+            className={`flex-1 px-6 py-3 font-medium text-sm transition-colors whitespace-nowrap ${
+              activeSubTab === 'required'
+                ? 'text-primary-600 border-b-2 border-primary-600 bg-primary-50'
+                : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+            }`}
+          >
+            必須スタッフ
+          </button>
+          <button
+            onClick={() => setActiveSubTab('senior')}
+            className={`flex-1 px-6 py-3 font-medium text-sm transition-colors whitespace-nowrap ${
+              activeSubTab === 'senior'
+                ? 'text-primary-600 border-b-2 border-primary-600 bg-primary-50'
+                : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+            }`}
+          >
+            ベテラン配置
+          </button>
+          <button
+            onClick={() => setActiveSubTab('breaks')}
+            className={`flex-1 px-6 py-3 font-medium text-sm transition-colors whitespace-nowrap ${
+              activeSubTab === 'breaks'
+                ? 'text-primary-600 border-b-2 border-primary-600 bg-primary-50'
+                : 'text-gray-600 hover:text-gray-800 hover:bg-gray-50'
+            }`}
+          >
+            休憩ルール
+          </button>
           <button
             onClick={() => setActiveSubTab('positions')}
             className={`flex-1 px-6 py-3 font-medium text-sm transition-colors whitespace-nowrap ${
@@ -89,6 +144,21 @@ export default function MasterManagement({ currentUser, positions, onUpdate }: M
       {activeSubTab === 'requirements' && (
         <DailyStaffRequirementSettings selectedDate={getToday()} />
       )}
+      {activeSubTab === 'templates' && (
+        <RequirementTemplateSettings />
+      )}
+      {activeSubTab === 'demand' && (
+        <ReservationDemandProposal />
+      )}
+      {activeSubTab === 'required' && (
+        <RequiredStaffAssignmentSettings positions={positions} />
+      )}
+      {activeSubTab === 'senior' && (
+        <SeniorCoverageSettings positions={positions} />
+      )}
+      {activeSubTab === 'breaks' && (
+        <BreakRuleSettings />
+      )}
       {activeSubTab === 'positions' && (
         <PositionManagement currentUser={currentUser} positions={positions} onUpdate={onUpdate} />
       )}
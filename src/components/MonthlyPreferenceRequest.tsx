@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react';
+import { addMonths, format } from 'date-fns';
+import type { Staff, StaffUnavailableDate, StaffWorkRequest } from '../types';
+import { staffUnavailableDateStorage, staffWorkRequestStorage } from '../utils/autoShiftStorage';
+import { getHolidayName } from '../utils/japaneseHolidays';
+import { formatDate, getDaysInMonth } from '../utils/helpers';
+
+interface MonthlyPreferenceRequestProps {
+  currentUser: Staff;
+}
+
+export default function MonthlyPreferenceRequest({ currentUser }: MonthlyPreferenceRequestProps) {
+  // 既定は翌月（次に作るシフトの月）
+  const [selectedMonth, setSelectedMonth] = useState(format(addMonths(new Date(), 1), 'yyyy-MM'));
+  const [workRequests, setWorkRequests] = useState<StaffWorkRequest[]>([]);
+  const [unavailableDates, setUnavailableDates] = useState<StaffUnavailableDate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingDate, setSavingDate] = useState<string | null>(null);
+
+  const [year, month] = selectedMonth.split('-').map(Number);
+  const startDate = format(new Date(year, month - 1, 1), 'yyyy-MM-dd');
+  const endDate = format(new Date(year, month, 0), 'yyyy-MM-dd');
+
+  useEffect(() => {
+    loadData();
+  }, [selectedMonth]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [workRequestsData, unavailableData] = await Promise.all([
+        staffWorkRequestStorage.getByStaffId(currentUser.id, startDate, endDate),
+        staffUnavailableDateStorage.getByStaffId(currentUser.id, startDate, endDate),
+      ]);
+      setWorkRequests(workRequestsData);
+      setUnavailableDates(unavailableData);
+    } catch (error) {
+      console.error('Error loading monthly preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // クリックで なし → 出勤希望 → 希望休 → なし の順に切り替える
+  const handleToggle = async (date: string) => {
+    const workRequest = workRequests.find(r => r.date === date);
+    const unavailable = unavailableDates.find(u => u.date === date);
+
+    // 承認・却下済みや時間帯指定の希望休は希望休申請の画面で扱う
+    if (unavailable && (unavailable.status !== 'pending' || unavailable.unavailableType !== 'all_day')) {
+      alert('この日の希望休は処理済みまたは時間帯指定のため、希望休申請の画面で確認してください');
+      return;
+    }
+
+    setSavingDate(date);
+    try {
+      if (workRequest) {
+        await staffWorkRequestStorage.delete(workRequest.id);
+        await staffUnavailableDateStorage.add({
+          staffId: currentUser.id,
+          date,
+          unavailableType: 'all_day',
+          reason: '希望休',
+          status: 'pending',
+        });
+      } else if (unavailable) {
+        await staffUnavailableDateStorage.delete(unavailable.id);
+      } else {
+        await staffWorkRequestStorage.upsert({ staffId: currentUser.id, date });
+      }
+      await loadData();
+    } catch (error) {
+      console.error('Error saving monthly preference:', error);
+      alert('保存に失敗しました');
+    } finally {
+      setSavingDate(null);
+    }
+  };
+
+  const firstDay = new Date(year, month - 1, 1).getDay();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">月間の勤務希望</h2>
+        <input
+          type="month"
+          value={selectedMonth}
+          onChange={(e) => setSelectedMonth(e.target.value)}
+          className="input max-w-xs"
+        />
+      </div>
+
+      <div className="card">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">読み込み中...</div>
+        ) : (
+          <>
+            <div className="flex gap-4 mb-4 text-sm">
+              <span className="text-gray-600">
+                出勤希望 <span className="font-semibold text-primary-700">{workRequests.length}日</span>
+              </span>
+              <span className="text-gray-600">
+                希望休 <span className="font-semibold text-red-700">{unavailableDates.length}日</span>
+              </span>
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {['日', '月', '火', '水', '木', '金', '土'].map((day, i) => (
+                <div key={i} className={`text-center text-sm font-semibold py-1 ${i === 0 ? 'text-red-600' : i === 6 ? 'text-blue-600' : ''}`}>
+                  {day}
+                </div>
+              ))}
+              {Array.from({ length: firstDay }).map((_, i) => (
+                <div key={`empty-${i}`} className="bg-gray-100 rounded min-h-16"></div>
+              ))}
+              {Array.from({ length: getDaysInMonth(year, month) }, (_, i) => i + 1).map(day => {
+                const date = formatDate(new Date(year, month - 1, day));
+                const holidayName = getHolidayName(date);
+                const isWorkRequest = workRequests.some(r => r.date === date);
+                const unavailable = unavailableDates.find(u => u.date === date);
+
+                return (
+                  <button
+                    key={day}
+                    onClick={() => handleToggle(date)}
+                    disabled={savingDate !== null}
+                    className={`border rounded p-1 min-h-16 text-xs text-left hover:bg-gray-50 disabled:opacity-60 ${
+                      isWorkRequest
+                        ? 'bg-primary-50 border-primary-300'
+                        : unavailable
+                          ? 'bg-red-50 border-red-300'
+                          : 'bg-white'
+                    }`}
+                  >
+                    <div className={`font-semibold ${holidayName ? 'text-red-600' : ''}`}>
+                      {day}
+                      {holidayName && <span className="ml-1 font-normal">{holidayName}</span>}
+                    </div>
+                    {isWorkRequest && <div className="text-primary-800 font-medium">出勤希望</div>}
+                    {unavailable && (
+                      <div className="text-red-800 font-medium">
+                        希望休
+                        {unavailable.status === 'approved' && '（承認済み）'}
+                        {unavailable.status === 'rejected' && '（却下）'}
+                        {unavailable.status === 'pending' && '（承認待ち）'}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h3 className="font-semibold text-blue-900 mb-2">💡 月間の勤務希望について</h3>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• 日付をクリックすると「出勤希望」→「希望休」→「なし」の順に切り替わります</li>
+          <li>• 出勤希望の日は、シフトの自動生成で優先して割り当てます（必要人数や労働時間の上限により入らない場合もあります）</li>
+          <li>• 希望休は承認待ちとして申請され、承認されるとシフト生成時に考慮されます</li>
+          <li>• 承認・却下済みの希望休や時間帯指定の希望休は、希望休申請の画面で確認してください</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useRef } from 'react';
 import { useReactToPrint } from 'react-to-print';
 import type { Staff, Shift } from '../types';
-import { formatDate, getDaysInMonth, getPositionColor, getDayOfWeek } from '../utils/helpers';
+import { formatDate, getDaysInMonth, getPositionColor, getDayOfWeek, getShiftSegments, isOvernightShift } from '../utils/helpers';
+import { getHolidayName } from '../utils/japaneseHolidays';
 
 interface MonthlyStaffViewProps {
   currentUser: Staff;
@@ -119,12 +120,14 @@ export default function MonthlyStaffView({
               const date = formatDate(new Date(currentYear, currentMonth - 1, day));
               const dayOfWeek = getDayOfWeek(date);
               const isToday = date === today;
-              const isSunday = dayOfWeek === '日';
+              const holidayName = getHolidayName(date);
+              const isSunday = dayOfWeek === '日' || holidayName !== undefined;
               const isSaturday = dayOfWeek === '土';
 
               return (
                 <th
                   key={day}
+                  title={holidayName}
                   className={`px-2 py-2 text-center font-medium min-w-[80px] print:min-w-0 print:px-1 print:py-1 print:border print:border-gray-400 ${
                     isToday
                       ? 'bg-primary-100'
@@ -142,6 +145,11 @@ export default function MonthlyStaffView({
                   >
                     <div className="font-bold print:text-[7px]">{day}</div>
                     <div className="text-xs print:text-[6px]">({dayOfWeek})</div>
+                    {holidayName && (
+                      <div className="text-[10px] leading-tight truncate max-w-[80px] print:text-[5px]">
+                        {holidayName}
+                      </div>
+                    )}
                   </div>
                 </th>
               );
@@ -166,7 +174,7 @@ export default function MonthlyStaffView({
                 const shift = getShiftForDate(staffMember.id, day);
                 const isToday = date === today;
                 const dayOfWeek = getDayOfWeek(date);
-                const isSunday = dayOfWeek === '日';
+                const isSunday = dayOfWeek === '日' || getHolidayName(date) !== undefined;
                 const isSaturday = dayOfWeek === '土';
 
                 return (
@@ -197,9 +205,17 @@ export default function MonthlyStaffView({
                           }
                         }}
                       >
-                        <div className="print:leading-tight">{shift.startTime.slice(0, 5)}</div>
-                        <div className="print:hidden">-</div>
-                        <div className="print:leading-tight">{shift.endTime.slice(0, 5)}</div>
+                        {getShiftSegments(shift).map((segment, index) => (
+                          <div key={index} className={index > 0 ? 'mt-1 pt-1 border-t border-white border-opacity-50 print:mt-0 print:pt-0' : ''}>
+                            <div className="print:leading-tight">{segment.startTime.slice(0, 5)}</div>
+                            <div className="print:hidden">-</div>
+                            <div className="print:leading-tight">
+                              {/* 翌日に終了する場合は「翌」を付ける */}
+                              {isOvernightShift({ startTime: shift.startTime, endTime: segment.endTime }) ? '翌' : ''}
+                              {segment.endTime.slice(0, 5)}
+                            </div>
+                          </div>
+                        ))}
                       </div>
                     ) : (
                       <div className="text-gray-300 print:text-[6px]">-</div>
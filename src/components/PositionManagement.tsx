@@ -18,6 +18,8 @@ export default function PositionManagement({ currentUser, positions, onUpdate }:
     isActive: true,
     baseRequiredCount: 1,
     guestCountRatio: 0,
+    banquetGuestsPerStaff: 0,
+    monthlyLaborBudget: 0,
   });
 
   const resetForm = () => {
@@ -27,6 +29,8 @@ export default function PositionManagement({ currentUser, positions, onUpdate }:
       isActive: true,
       baseRequiredCount: 1,
       guestCountRatio: 0,
+      banquetGuestsPerStaff: 0,
+      monthlyLaborBudget: 0,
     });
     setEditingPosition(null);
     setShowModal(false);
@@ -57,6 +61,8 @@ export default function PositionManagement({ currentUser, positions, onUpdate }:
       isActive: position.isActive,
       baseRequiredCount: position.baseRequiredCount,
       guestCountRatio: position.guestCountRatio,
+      banquetGuestsPerStaff: position.banquetGuestsPerStaff,
+      monthlyLaborBudget: position.monthlyLaborBudget,
     });
     setShowModal(true);
   };
@@ -264,6 +270,41 @@ export default function PositionManagement({ currentUser, positions, onUpdate }:
                 </p>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  宴会客数あたりの追加人数
+                </label>
+                <input
+                  type="number"
+                  required
+                  min="0"
+                  value={formData.banquetGuestsPerStaff}
+                  onChange={(e) => setFormData({ ...formData, banquetGuestsPerStaff: parseInt(e.target.value) })}
+                  className="input w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  例: 15 = 宴会客15人につき+1人（端数切り上げ）を宴会の時間帯に追加。0 = 追加なし
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  月の人件費予算（円）
+                </label>
+                <input
+                  type="number"
+                  required
+                  min="0"
+                  step="1000"
+                  value={formData.monthlyLaborBudget}
+                  onChange={(e) => setFormData({ ...formData, monthlyLaborBudget: parseInt(e.target.value) })}
+                  className="input w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  自動シフト生成の結果で人件費の見込みと比較します。0 = 未設定
+                </p>
+              </div>
+
               <div className="flex items-center">
                 <input
                   type="checkbox"
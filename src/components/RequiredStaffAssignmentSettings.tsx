@@ -0,0 +1,253 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import type { Staff, TimeSlot, PositionMaster, RequiredStaffAssignment } from '../types';
+import { staffStorage } from '../utils/supabaseStorage';
+import { timeSlotStorage, requiredStaffAssignmentStorage } from '../utils/autoShiftStorage';
+import { formatDateJP, getToday } from '../utils/helpers';
+
+interface RequiredStaffAssignmentSettingsProps {
+  positions: PositionMaster[];
+}
+
+export default function RequiredStaffAssignmentSettings({ positions }: RequiredStaffAssignmentSettingsProps) {
+  const [selectedMonth, setSelectedMonth] = useState(getToday().slice(0, 7));
+  const [assignments, setAssignments] = useState<RequiredStaffAssignment[]>([]);
+  const [staff, setStaff] = useState<Staff[]>([]);
+  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    date: getToday(),
+    timeSlotId: '',
+    staffId: '',
+    position: '',
+    reason: '',
+  });
+
+  useEffect(() => {
+    loadData();
+  }, [selectedMonth]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [year, month] = selectedMonth.split('-').map(Number);
+      const startDate = format(new Date(year, month - 1, 1), 'yyyy-MM-dd');
+      const endDate = format(new Date(year, month, 0), 'yyyy-MM-dd');
+
+      const [staffData, timeSlotsData, assignmentsData] = await Promise.all([
+        staffStorage.getAll(),
+        timeSlotStorage.getAll(),
+        requiredStaffAssignmentStorage.getByDateRange(startDate, endDate),
+      ]);
+
+      setStaff(staffData.filter(s => s.isActive));
+      setTimeSlots(timeSlotsData.filter(ts => ts.isActive));
+      setAssignments(assignmentsData);
+    } catch (error) {
+      console.error('Error loading required staff assignments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStaffChange = (staffId: string) => {
+    const selected = staff.find(s => s.id === staffId);
+    setFormData(prev => ({
+      ...prev,
+      staffId,
+      // 役職は未選択の場合のみスタッフの役職を初期値にする
+      position: prev.position || selected?.position || '',
+    }));
+  };
+
+  const handleAdd = async () => {
+    if (!formData.date || !formData.timeSlotId || !formData.staffId || !formData.position) {
+      alert('日付・時間帯・スタッフ・役職を入力してください');
+      return;
+    }
+
+    const duplicate = assignments.some(
+      a => a.date === formData.date && a.staffId === formData.staffId
+    );
+    if (duplicate && !confirm('このスタッフは同じ日に既に必須設定があります。追加しますか？')) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await requiredStaffAssignmentStorage.add({
+        date: formData.date,
+        timeSlotId: formData.timeSlotId,
+        staffId: formData.staffId,
+        position: formData.position,
+        reason: formData.reason || undefined,
+      });
+      setFormData(prev => ({ ...prev, staffId: '', position: '', reason: '' }));
+      await loadData();
+    } catch (error) {
+      console.error('Error adding required staff assignment:', error);
+      alert('追加に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('この必須スタッフ設定を削除しますか？')) return;
+
+    try {
+      await requiredStaffAssignmentStorage.delete(id);
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting required staff assignment:', error);
+      alert('削除に失敗しました');
+    }
+  };
+
+  const getStaffName = (staffId: string) => staff.find(s => s.id === staffId)?.name || staffId;
+  const getTimeSlotName = (timeSlotId: string) => timeSlots.find(ts => ts.id === timeSlotId)?.name || '-';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">必須スタッフ設定</h2>
+        <input
+          type="month"
+          value={selectedMonth}
+          onChange={(e) => setSelectedMonth(e.target.value)}
+          className="input max-w-xs"
+        />
+      </div>
+
+      <div className="card">
+        <h3 className="font-semibold text-lg mb-4">必須スタッフを追加</h3>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">日付</label>
+            <input
+              type="date"
+              value={formData.date}
+              onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">時間帯</label>
+            <select
+              value={formData.timeSlotId}
+              onChange={(e) => setFormData({ ...formData, timeSlotId: e.target.value })}
+              className="input"
+            >
+              <option value="">選択してください</option>
+              {timeSlots.map(ts => (
+                <option key={ts.id} value={ts.id}>
+                  {ts.name} ({ts.startTime}〜{ts.endTime})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">スタッフ</label>
+            <select
+              value={formData.staffId}
+              onChange={(e) => handleStaffChange(e.target.value)}
+              className="input"
+            >
+              <option value="">選択してください</option>
+              {staff.map(s => (
+                <option key={s.id} value={s.id}>
+                  {s.name} ({s.position})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">役職</label>
+            <select
+              value={formData.position}
+              onChange={(e) => setFormData({ ...formData, position: e.target.value })}
+              className="input"
+            >
+              <option value="">選択してください</option>
+              {positions.map(pos => (
+                <option key={pos.id} value={pos.name}>
+                  {pos.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">理由</label>
+            <input
+              type="text"
+              value={formData.reason}
+              onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+              placeholder="例: VIP対応"
+              className="input"
+            />
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button onClick={handleAdd} disabled={saving} className="btn btn-primary">
+            {saving ? '追加中...' : '追加'}
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        <h3 className="font-semibold text-lg mb-4">登録済みの必須スタッフ</h3>
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">読み込み中...</div>
+        ) : assignments.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <p>この月の必須スタッフ設定はありません</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">日付</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">時間帯</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">スタッフ</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">役職</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">理由</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">操作</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {assignments.map(assignment => (
+                  <tr key={assignment.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">{formatDateJP(assignment.date)}</td>
+                    <td className="px-4 py-3 text-sm">{getTimeSlotName(assignment.timeSlotId)}</td>
+                    <td className="px-4 py-3 text-sm">{getStaffName(assignment.staffId)}</td>
+                    <td className="px-4 py-3 text-sm">{assignment.position}</td>
+                    <td className="px-4 py-3 text-sm">{assignment.reason || '-'}</td>
+                    <td className="px-4 py-3 text-sm text-right">
+                      <button
+                        onClick={() => handleDelete(assignment.id)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        削除
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h3 className="font-semibold text-blue-900 mb-2">💡 必須スタッフ設定について</h3>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• 指定した日付・時間帯に必ず配置するスタッフを登録します</li>
+          <li>• 自動シフト生成では他のスタッフより先に配置され、必要人数に含めて計算されます</li>
+          <li>• 希望休や労働時間制約に違反する場合も配置され、生成結果に警告が表示されます</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
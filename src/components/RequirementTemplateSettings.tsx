@@ -0,0 +1,320 @@
+import { useState, useEffect } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import type { DayType, RequirementTemplate, RequirementTemplateAssignment } from '../types';
+import {
+  requirementTemplateStorage,
+  requirementTemplateAssignmentStorage,
+} from '../utils/autoShiftStorage';
+import { resolveTemplateForDate } from '../utils/requirementTemplates';
+import { DAY_TYPE_LABELS, getHolidayName } from '../utils/japaneseHolidays';
+import { formatDate, getDaysInMonth, getToday } from '../utils/helpers';
+import DailyStaffRequirementSettings from './DailyStaffRequirementSettings';
+
+export default function RequirementTemplateSettings() {
+  const [templates, setTemplates] = useState<RequirementTemplate[]>([]);
+  const [assignments, setAssignments] = useState<RequirementTemplateAssignment[]>([]);
+  const [editingTemplateId, setEditingTemplateId] = useState<string | null>(null);
+  const [selectedMonth, setSelectedMonth] = useState(getToday().slice(0, 7));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newTemplate, setNewTemplate] = useState<{ name: string; dayType: DayType | '' }>({
+    name: '',
+    dayType: '',
+  });
+  const [rangeForm, setRangeForm] = useState({
+    startDate: getToday(),
+    endDate: getToday(),
+    templateId: '', // 空の場合は割り当て解除
+  });
+
+  const [year, month] = selectedMonth.split('-').map(Number);
+  const startDate = format(new Date(year, month - 1, 1), 'yyyy-MM-dd');
+  const endDate = format(new Date(year, month, 0), 'yyyy-MM-dd');
+
+  useEffect(() => {
+    loadData();
+  }, [selectedMonth]);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [templatesData, assignmentsData] = await Promise.all([
+        requirementTemplateStorage.getAll(),
+        requirementTemplateAssignmentStorage.getByDateRange(startDate, endDate),
+      ]);
+      setTemplates(templatesData);
+      setAssignments(assignmentsData);
+    } catch (error) {
+      console.error('Error loading requirement templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddTemplate = async () => {
+    if (!newTemplate.name.trim()) {
+      alert('テンプレート名を入力してください');
+      return;
+    }
+
+    try {
+      await requirementTemplateStorage.add({
+        name: newTemplate.name.trim(),
+        dayType: newTemplate.dayType || undefined,
+        displayOrder: templates.length + 1,
+      });
+      setNewTemplate({ name: '', dayType: '' });
+      await loadData();
+    } catch (error) {
+      console.error('Error adding requirement template:', error);
+      alert('追加に失敗しました（同じ名前のテンプレートがないか確認してください）');
+    }
+  };
+
+  const handleDayTypeChange = async (template: RequirementTemplate, dayType: DayType | '') => {
+    try {
+      await requirementTemplateStorage.update(template.id, { dayType: dayType || undefined });
+      await loadData();
+    } catch (error) {
+      console.error('Error updating requirement template:', error);
+      alert('更新に失敗しました');
+    }
+  };
+
+  const handleDeleteTemplate = async (template: RequirementTemplate) => {
+    if (!confirm(`テンプレート「${template.name}」を削除しますか？\nカレンダーの割り当ても解除されます。`)) return;
+
+    try {
+      await requirementTemplateStorage.delete(template.id);
+      if (editingTemplateId === template.id) setEditingTemplateId(null);
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting requirement template:', error);
+      alert('削除に失敗しました');
+    }
+  };
+
+  const handleAssignRange = async () => {
+    if (!rangeForm.startDate || !rangeForm.endDate || rangeForm.startDate > rangeForm.endDate) {
+      alert('開始日と終了日を正しく入力してください');
+      return;
+    }
+
+    const dates: string[] = [];
+    for (let d = parseISO(rangeForm.startDate); formatDate(d) <= rangeForm.endDate; d = addDays(d, 1)) {
+      dates.push(formatDate(d));
+    }
+
+    setSaving(true);
+    try {
+      if (rangeForm.templateId) {
+        await requirementTemplateAssignmentStorage.assign(dates, rangeForm.templateId);
+      } else {
+        await requirementTemplateAssignmentStorage.unassign(dates);
+      }
+      await loadData();
+    } catch (error) {
+      console.error('Error assigning requirement template:', error);
+      alert('割り当てに失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const firstDay = new Date(year, month - 1, 1).getDay();
+
+  return (
+    <div className="space-y-6">
+      <div className="card">
+        <h2 className="text-2xl font-bold mb-4">必要人数テンプレート</h2>
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">読み込み中...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">テンプレート名</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">既定で使う日</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">操作</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {templates.map(template => (
+                  <tr
+                    key={template.id}
+                    className={editingTemplateId === template.id ? 'bg-primary-50' : 'hover:bg-gray-50'}
+                  >
+                    <td className="px-4 py-3 text-sm font-medium">{template.name}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <select
+                        value={template.dayType || ''}
+                        onChange={(e) => handleDayTypeChange(template, e.target.value as DayType | '')}
+                        className="input max-w-xs"
+                      >
+                        <option value="">なし（カレンダーで割り当てた日のみ）</option>
+                        {(Object.keys(DAY_TYPE_LABELS) as DayType[]).map(dayType => (
+                          <option key={dayType} value={dayType}>
+                            {DAY_TYPE_LABELS[dayType]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right space-x-3">
+                      <button
+                        onClick={() => setEditingTemplateId(editingTemplateId === template.id ? null : template.id)}
+                        className="text-primary-600 hover:text-primary-800"
+                      >
+                        {editingTemplateId === template.id ? '閉じる' : '必要人数を編集'}
+                      </button>
+                      <button
+                        onClick={() => handleDeleteTemplate(template)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        削除
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="px-4 py-3">
+                    <input
+                      type="text"
+                      value={newTemplate.name}
+                      onChange={(e) => setNewTemplate({ ...newTemplate, name: e.target.value })}
+                      placeholder="例: 繁忙期"
+                      className="input"
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <select
+                      value={newTemplate.dayType}
+                      onChange={(e) => setNewTemplate({ ...newTemplate, dayType: e.target.value as DayType | '' })}
+                      className="input max-w-xs"
+                    >
+                      <option value="">なし（カレンダーで割り当てた日のみ）</option>
+                      {(Object.keys(DAY_TYPE_LABELS) as DayType[]).map(dayType => (
+                        <option key={dayType} value={dayType}>
+                          {DAY_TYPE_LABELS[dayType]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button onClick={handleAddTemplate} className="btn btn-primary">
+                      追加
+                    </button>
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {editingTemplateId && (
+        <DailyStaffRequirementSettings key={editingTemplateId} templateId={editingTemplateId} />
+      )}
+
+      <div className="card">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-semibold text-lg">テンプレートの割り当て</h3>
+          <input
+            type="month"
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(e.target.value)}
+            className="input max-w-xs"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">開始日</label>
+            <input
+              type="date"
+              value={rangeForm.startDate}
+              onChange={(e) => setRangeForm({ ...rangeForm, startDate: e.target.value })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">終了日</label>
+            <input
+              type="date"
+              value={rangeForm.endDate}
+              onChange={(e) => setRangeForm({ ...rangeForm, endDate: e.target.value })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">テンプレート</label>
+            <select
+              value={rangeForm.templateId}
+              onChange={(e) => setRangeForm({ ...rangeForm, templateId: e.target.value })}
+              className="input"
+            >
+              <option value="">割り当て解除（既定に戻す）</option>
+              {templates.map(template => (
+                <option key={template.id} value={template.id}>
+                  {template.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button onClick={handleAssignRange} disabled={saving} className="btn btn-primary w-full">
+              {saving ? '保存中...' : '期間に適用'}
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-7 gap-1">
+          {['日', '月', '火', '水', '木', '金', '土'].map((day, i) => (
+            <div key={i} className={`text-center text-sm font-semibold py-1 ${i === 0 ? 'text-red-600' : i === 6 ? 'text-blue-600' : ''}`}>
+              {day}
+            </div>
+          ))}
+          {Array.from({ length: firstDay }).map((_, i) => (
+            <div key={`empty-${i}`} className="bg-gray-100 rounded min-h-16"></div>
+          ))}
+          {Array.from({ length: getDaysInMonth(year, month) }, (_, i) => i + 1).map(day => {
+            const date = formatDate(new Date(year, month - 1, day));
+            const holidayName = getHolidayName(date);
+            const isAssigned = assignments.some(a => a.date === date);
+            const template = resolveTemplateForDate(date, templates, assignments);
+
+            return (
+              <div
+                key={day}
+                onClick={() => setRangeForm({ ...rangeForm, startDate: date, endDate: date })}
+                className={`border rounded p-1 min-h-16 text-xs cursor-pointer hover:bg-gray-50 ${
+                  isAssigned ? 'bg-primary-50 border-primary-300' : 'bg-white'
+                }`}
+              >
+                <div className={`font-semibold ${holidayName ? 'text-red-600' : ''}`}>
+                  {day}
+                  {holidayName && <span className="ml-1 font-normal">{holidayName}</span>}
+                </div>
+                <div className={isAssigned ? 'text-primary-800 font-medium' : 'text-gray-500'}>
+                  {template ? template.name : '-'}
+                  {template && !isAssigned && '（既定）'}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h3 className="font-semibold text-blue-900 mb-2">💡 必要人数テンプレートについて</h3>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• 平日・休前日・繁忙期など、時間帯×役職ごとの必要人数をテンプレートとして登録します</li>
+          <li>• カレンダーで日付や期間にテンプレートを割り当てます。割り当てのない日は「既定で使う日」が一致するテンプレートを使います</li>
+          <li>• 休前日・祝前日は翌日が日曜・祝日の日です（祝日は振替休日・国民の休日を含みます）</li>
+          <li>• 必要人数設定で日付ごとに保存した値は、テンプレートより優先されます</li>
+          <li>• カレンダーの日付をクリックすると、その日が開始日・終了日に入ります</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
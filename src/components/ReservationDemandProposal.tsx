@@ -0,0 +1,258 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import type { DailyStaffRequirement, PositionMaster, TimeSlot } from '../types';
+import { positionStorage, reservationStorage } from '../utils/supabaseStorage';
+import {
+  timeSlotStorage,
+  dailyRequirementStorage,
+  requirementTemplateStorage,
+  requirementTemplateAssignmentStorage,
+} from '../utils/autoShiftStorage';
+import { resolveRequirements } from '../utils/requirementTemplates';
+import { proposeRequirements, type RequirementProposal } from '../utils/demandCalculator';
+import { formatDateJP, getToday } from '../utils/helpers';
+
+export default function ReservationDemandProposal() {
+  const [selectedMonth, setSelectedMonth] = useState(getToday().slice(0, 7));
+  const [positions, setPositions] = useState<PositionMaster[]>([]);
+  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+  const [currentRequirements, setCurrentRequirements] = useState<DailyStaffRequirement[]>([]);
+  const [proposals, setProposals] = useState<RequirementProposal[]>([]);
+  const [selectedDates, setSelectedDates] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, [selectedMonth]);
+
+  // 提案が現在の必要人数と異なるか（未設定は0人として比較）
+  const isChanged = (proposal: RequirementProposal) => proposal.proposedCount !== (proposal.currentCount ?? 0);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [year, month] = selectedMonth.split('-').map(Number);
+      const startDate = format(new Date(year, month - 1, 1), 'yyyy-MM-dd');
+      const endDate = format(new Date(year, month, 0), 'yyyy-MM-dd');
+
+      const [
+        positionsData,
+        reservations,
+        timeSlotsData,
+        dateRequirements,
+        templates,
+        templateItems,
+        templateAssignments,
+      ] = await Promise.all([
+        positionStorage.getActive(),
+        reservationStorage.getAll(),
+        timeSlotStorage.getAll(),
+        dailyRequirementStorage.getByDateRange(startDate, endDate),
+        requirementTemplateStorage.getAll(),
+        requirementTemplateStorage.getItems(),
+        requirementTemplateAssignmentStorage.getByDateRange(startDate, endDate),
+      ]);
+
+      // 現在の必要人数（日付ごとの設定 + テンプレート）と比較する
+      const current = resolveRequirements(
+        startDate,
+        endDate,
+        dateRequirements,
+        templates,
+        templateItems,
+        templateAssignments
+      );
+      const proposalsData = proposeRequirements(
+        startDate,
+        endDate,
+        positionsData,
+        reservations,
+        timeSlotsData,
+        current
+      );
+
+      setPositions(positionsData);
+      setTimeSlots(timeSlotsData.filter(ts => ts.isActive).sort((a, b) => a.displayOrder - b.displayOrder));
+      setCurrentRequirements(current);
+      setProposals(proposalsData);
+      // 現在の設定と異なる日を初期選択
+      setSelectedDates(new Set(proposalsData.filter(isChanged).map(p => p.date)));
+    } catch (error) {
+      console.error('Error loading demand proposals:', error);
+      alert('データの読み込みに失敗しました');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const dates = [...new Set(proposals.map(p => p.date))];
+
+  const toggleDate = (date: string) => {
+    setSelectedDates(prev => {
+      const next = new Set(prev);
+      if (next.has(date)) {
+        next.delete(date);
+      } else {
+        next.add(date);
+      }
+      return next;
+    });
+  };
+
+  const handleAccept = async () => {
+    if (selectedDates.size === 0) {
+      alert('反映する日付を選択してください');
+      return;
+    }
+    if (!confirm(`選択した${selectedDates.size}日分の必要人数を提案の値で保存しますか？\n（日付ごとの設定として保存され、テンプレートより優先されます）`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      for (const proposal of proposals.filter(p => selectedDates.has(p.date))) {
+        // 稼働率・宴会の加算設定は現在の値を引き継ぐ
+        const current = currentRequirements.find(
+          r =>
+            r.date === proposal.date &&
+            r.timeSlotId === proposal.timeSlotId &&
+            r.position === proposal.position &&
+            !r.buildingId
+        );
+        await dailyRequirementStorage.upsert({
+          date: proposal.date,
+          timeSlotId: proposal.timeSlotId,
+          position: proposal.position,
+          requiredCount: proposal.proposedCount,
+          roomOccupancyBonus: current?.roomOccupancyBonus || 0,
+          banquetBonus: current?.banquetBonus || 0,
+        });
+      }
+      alert('保存しました');
+      await loadData();
+    } catch (error) {
+      console.error('Error saving demand proposals:', error);
+      alert('保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">予約からの必要人数</h2>
+        <input
+          type="month"
+          value={selectedMonth}
+          onChange={(e) => setSelectedMonth(e.target.value)}
+          className="input max-w-xs"
+        />
+      </div>
+
+      <div className="card">
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">読み込み中...</div>
+        ) : positions.length === 0 || timeSlots.length === 0 ? (
+          <div className="bg-yellow-50 border border-yellow-200 rounded p-4">
+            <p className="text-yellow-800">
+              時間帯または役職が設定されていません。先に時間帯設定と役職管理を完了してください。
+            </p>
+          </div>
+        ) : (
+          <>
+            <div className="flex justify-between items-center mb-4">
+              <p className="text-sm text-gray-600">
+                提案（現在の値と異なる時間帯は<span className="text-primary-700 font-semibold">色付き</span>で表示）
+              </p>
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setSelectedDates(new Set(dates))}
+                  className="btn btn-secondary"
+                >
+                  すべて選択
+                </button>
+                <button
+                  onClick={() => setSelectedDates(new Set())}
+                  className="btn btn-secondary"
+                >
+                  選択解除
+                </button>
+                <button onClick={handleAccept} disabled={saving} className="btn btn-primary">
+                  {saving ? '保存中...' : `選択した日を反映（${selectedDates.size}日）`}
+                </button>
+              </div>
+            </div>
+            <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 w-8"></th>
+                    <th className="px-3 py-2 text-left text-sm font-semibold text-gray-700">日付</th>
+                    <th className="px-3 py-2 text-right text-sm font-semibold text-gray-700">宿泊人数</th>
+                    {positions.map(pos => (
+                      <th key={pos.id} className="px-3 py-2 text-left text-sm font-semibold text-gray-700">
+                        {pos.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {dates.map(date => {
+                    const dateProposals = proposals.filter(p => p.date === date);
+                    return (
+                      <tr key={date} className="hover:bg-gray-50">
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={selectedDates.has(date)}
+                            onChange={() => toggleDate(date)}
+                          />
+                        </td>
+                        <td className="px-3 py-2 text-sm whitespace-nowrap">{formatDateJP(date)}</td>
+                        <td className="px-3 py-2 text-sm text-right">{dateProposals[0]?.guestCount || 0}名</td>
+                        {positions.map(pos => (
+                          <td key={pos.id} className="px-3 py-2 text-xs whitespace-nowrap">
+                            {timeSlots.map(slot => {
+                              const proposal = dateProposals.find(
+                                p => p.position === pos.name && p.timeSlotId === slot.id
+                              );
+                              if (!proposal) return null;
+                              return (
+                                <span
+                                  key={slot.id}
+                                  className={`mr-2 ${isChanged(proposal) ? 'text-primary-700 font-semibold' : 'text-gray-600'}`}
+                                  title={`現在: ${proposal.currentCount ?? '未設定'}人`}
+                                >
+                                  {slot.name}
+                                  {proposal.proposedCount}
+                                  {isChanged(proposal) && `（${proposal.currentCount ?? 0}）`}
+                                </span>
+                              );
+                            })}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h3 className="font-semibold text-blue-900 mb-2">💡 予約からの必要人数について</h3>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• 各日の宿泊人数（チェックイン日〜チェックアウト前日の予約の人数）を合計します</li>
+          <li>• 役職ごとに「基準必要人数 + 宿泊人数 × 予約客数による変動率（端数切り捨て）」で1日の必要人数を求めます（役職設定で変更できます）</li>
+          <li>• 1日の必要人数は時間帯の長さ（中抜けを除く）に比例して配分します</li>
+          <li>• 色付きの値は現在の必要人数と異なり、括弧内が現在の値です</li>
+          <li>• 反映すると日付ごとの全館の必要人数として保存されます（稼働率・宴会の加算設定は現在の値を引き継ぎます）</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
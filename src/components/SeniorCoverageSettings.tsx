@@ -0,0 +1,228 @@
+import { useState, useEffect } from 'react';
+import type { TimeSlot, PositionMaster, SeniorCoverageRule } from '../types';
+import { timeSlotStorage, seniorCoverageRuleStorage } from '../utils/autoShiftStorage';
+import { describeSeniorCoverageRule } from '../utils/seniorCoverage';
+
+interface SeniorCoverageSettingsProps {
+  positions: PositionMaster[];
+}
+
+export default function SeniorCoverageSettings({ positions }: SeniorCoverageSettingsProps) {
+  const [rules, setRules] = useState<SeniorCoverageRule[]>([]);
+  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    timeSlotId: '',
+    position: '',
+    minCount: '1',
+    minTrustScore: '90', // 空の場合は信頼度で判定しない
+    minTenureMonths: '12', // 空の場合は勤続期間で判定しない
+  });
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [timeSlotsData, rulesData] = await Promise.all([
+        timeSlotStorage.getAll(),
+        seniorCoverageRuleStorage.getAll(),
+      ]);
+
+      setTimeSlots(timeSlotsData.filter(ts => ts.isActive));
+      setRules(rulesData);
+    } catch (error) {
+      console.error('Error loading senior coverage rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!formData.timeSlotId || !formData.position) {
+      alert('時間帯・役職を入力してください');
+      return;
+    }
+    if (formData.minTrustScore === '' && formData.minTenureMonths === '') {
+      alert('信頼度・勤続月数の少なくとも一方を入力してください');
+      return;
+    }
+
+    const duplicate = rules.some(
+      r => r.timeSlotId === formData.timeSlotId && r.position === formData.position
+    );
+    if (duplicate && !confirm('この時間帯・役職には既に設定があります。上書きしますか？')) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await seniorCoverageRuleStorage.upsert({
+        timeSlotId: formData.timeSlotId,
+        position: formData.position,
+        minCount: Math.max(1, Number(formData.minCount) || 1),
+        minTrustScore: formData.minTrustScore === '' ? undefined : Number(formData.minTrustScore),
+        minTenureMonths: formData.minTenureMonths === '' ? undefined : Number(formData.minTenureMonths),
+      });
+      setFormData(prev => ({ ...prev, timeSlotId: '', position: '' }));
+      await loadData();
+    } catch (error) {
+      console.error('Error saving senior coverage rule:', error);
+      alert('保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('このベテラン配置の設定を削除しますか？')) return;
+
+    try {
+      await seniorCoverageRuleStorage.delete(id);
+      await loadData();
+    } catch (error) {
+      console.error('Error deleting senior coverage rule:', error);
+      alert('削除に失敗しました');
+    }
+  };
+
+  const getTimeSlotName = (timeSlotId: string) => timeSlots.find(ts => ts.id === timeSlotId)?.name || '-';
+  const slotOrder = (timeSlotId: string) => timeSlots.find(ts => ts.id === timeSlotId)?.displayOrder ?? 0;
+  const sortedRules = [...rules].sort(
+    (a, b) => slotOrder(a.timeSlotId) - slotOrder(b.timeSlotId) || a.position.localeCompare(b.position)
+  );
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-bold">ベテラン配置</h2>
+
+      <div className="card">
+        <h3 className="font-semibold text-lg mb-4">ベテランの最低人数を設定</h3>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">時間帯</label>
+            <select
+              value={formData.timeSlotId}
+              onChange={(e) => setFormData({ ...formData, timeSlotId: e.target.value })}
+              className="input"
+            >
+              <option value="">選択してください</option>
+              {timeSlots.map(ts => (
+                <option key={ts.id} value={ts.id}>
+                  {ts.name} ({ts.startTime}〜{ts.endTime})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">役職</label>
+            <select
+              value={formData.position}
+              onChange={(e) => setFormData({ ...formData, position: e.target.value })}
+              className="input"
+            >
+              <option value="">選択してください</option>
+              {positions.map(pos => (
+                <option key={pos.id} value={pos.name}>
+                  {pos.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">最低人数</label>
+            <input
+              type="number"
+              min="1"
+              value={formData.minCount}
+              onChange={(e) => setFormData({ ...formData, minCount: e.target.value })}
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">信頼度（以上）</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={formData.minTrustScore}
+              onChange={(e) => setFormData({ ...formData, minTrustScore: e.target.value })}
+              placeholder="空欄: 判定しない"
+              className="input"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">勤続月数（以上）</label>
+            <input
+              type="number"
+              min="0"
+              value={formData.minTenureMonths}
+              onChange={(e) => setFormData({ ...formData, minTenureMonths: e.target.value })}
+              placeholder="空欄: 判定しない"
+              className="input"
+            />
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button onClick={handleSave} disabled={saving} className="btn btn-primary">
+            {saving ? '保存中...' : '保存'}
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        <h3 className="font-semibold text-lg mb-4">登録済みのベテラン配置</h3>
+        {loading ? (
+          <div className="text-center py-8 text-gray-500">読み込み中...</div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <p>ベテラン配置の設定はありません</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">時間帯</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">役職</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">条件</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">操作</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {sortedRules.map(rule => (
+                  <tr key={rule.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm">{getTimeSlotName(rule.timeSlotId)}</td>
+                    <td className="px-4 py-3 text-sm">{rule.position}</td>
+                    <td className="px-4 py-3 text-sm">{describeSeniorCoverageRule(rule)}</td>
+                    <td className="px-4 py-3 text-sm text-right">
+                      <button
+                        onClick={() => handleDelete(rule.id)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        削除
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h3 className="font-semibold text-blue-900 mb-2">💡 ベテラン配置について</h3>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• 信頼度または勤続月数のどちらかの基準を満たすスタッフを「ベテラン」として数えます</li>
+          <li>• 勤続月数は入社日（スタッフ管理）から数えます。入社日が未設定のスタッフは勤続月数では判定されません</li>
+          <li>• 自動シフト生成では、設定した人数に届くまでベテランから先に割り当てます</li>
+          <li>• 満たせなかった時間帯は、生成結果に「ベテラン」の警告として表示されます</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { Staff, Shift } from '../types';
 import { formatDate, getDaysInMonth, getPositionColor, formatDateJP } from '../utils/helpers';
+import { getHolidayName } from '../utils/japaneseHolidays';
 import ShiftModal from './ShiftModal';
 import InteractiveShiftTimeline from './InteractiveShiftTimeline';
 import MonthlyStaffView from './MonthlyStaffView';
@@ -189,6 +190,7 @@ export default function ShiftCalendar({ currentUser, staff, shifts, onUpdate }:
             const dayShifts = getShiftsForDate(day);
             const date = formatDate(new Date(currentYear, currentMonth - 1, day));
             const isToday = date === formatDate(today);
+            const holidayName = getHolidayName(date);
 
             return (
               <div
@@ -196,7 +198,10 @@ export default function ShiftCalendar({ currentUser, staff, shifts, onUpdate }:
                 onClick={() => handleDateClick(day)}
                 className={`border rounded p-2 min-h-24 cursor-pointer hover:bg-gray-50 transition-colors ${isToday ? 'bg-primary-50 border-primary-400' : 'bg-white'}`}
               >
-                <div className="font-semibold text-sm mb-1">{day}</div>
+                <div className={`font-semibold text-sm mb-1 ${holidayName ? 'text-red-600' : ''}`}>
+                  {day}
+                  {holidayName && <span className="ml-1 text-xs font-normal">{holidayName}</span>}
+                </div>
                 <div className="space-y-1">
                   {dayShifts.slice(0, 3).map((shift) => {
                     const staffMember = staff.find((s) => s.id === shift.staffId);
@@ -210,6 +215,9 @@ export default function ShiftCalendar({ currentUser, staff, shifts, onUpdate }:
                         className={`text-xs p-1 rounded ${getPositionColor(shift.position)} ${currentUser.role === 'admin' ? 'cursor-pointer hover:opacity-80' : ''}`}
                       >
                         {staffMember?.name}
+                        {shift.breakStartTime && shift.breakEndTime && (
+                          <span className="ml-1 opacity-75">(中抜け)</span>
+                        )}
                       </div>
                     );
                   })}
@@ -1,7 +1,17 @@
 import { useState, useEffect } from 'react';
-import type { Staff, Shift, Position } from '../types';
-import { shiftStorage, positionStorage } from '../utils/supabaseStorage';
-import { generateId } from '../utils/helpers';
+import type { Staff, Shift, Position, BreakRule, ShiftAbsence } from '../types';
+import { shiftStorage, positionStorage, absenceStorage } from '../utils/supabaseStorage';
+import { breakRuleStorage } from '../utils/autoShiftStorage';
+import {
+  generateId,
+  calculateWorkHours,
+  calculateShiftHours,
+  getRequiredBreakMinutes,
+  getShiftSegments,
+} from '../utils/helpers';
+import { resolveBreakRules } from '../utils/restBreaks';
+import { validateRestInterval, validateShiftPairRules } from '../utils/shiftValidation';
+import AbsenceReplacementModal from './AbsenceReplacementModal';
 
 interface ShiftModalProps {
   show: boolean;
@@ -14,11 +24,18 @@ interface ShiftModalProps {
 
 export default function ShiftModal({ show, onClose, onUpdate, staff, selectedDate, editingShift }: ShiftModalProps) {
   const [positions, setPositions] = useState<string[]>([]);
+  const [breakRules, setBreakRules] = useState<BreakRule[]>([]);
+  const [absence, setAbsence] = useState<ShiftAbsence | null>(null);
   const [formData, setFormData] = useState({
     staffId: '',
     position: '' as Position,
     startTime: '09:00',
     endTime: '18:00',
+    hasBreak: false,
+    breakStartTime: '12:00',
+    breakEndTime: '15:00',
+    restBreakMinutes: '', // 空の場合は休憩ルールで算出
+    restBreakStartTime: '', // 空の場合は勤務時間の中ほど
     isStandard: false,
   });
 
@@ -32,6 +49,7 @@ export default function ShiftModal({ show, onClose, onUpdate, staff, selectedDat
       }
     };
     loadPositions();
+    breakRuleStorage.getAll().then(setBreakRules);
   }, []);
 
   useEffect(() => {
@@ -41,6 +59,11 @@ export default function ShiftModal({ show, onClose, onUpdate, staff, selectedDat
         position: editingShift.position,
         startTime: editingShift.startTime,
         endTime: editingShift.endTime,
+        hasBreak: !!(editingShift.breakStartTime && editingShift.breakEndTime),
+        breakStartTime: editingShift.breakStartTime || '12:00',
+        breakEndTime: editingShift.breakEndTime || '15:00',
+        restBreakMinutes: editingShift.restBreakMinutes !== undefined ? String(editingShift.restBreakMinutes) : '',
+        restBreakStartTime: editingShift.restBreakStartTime || '',
         isStandard: editingShift.isStandard || false,
       });
     } else {
@@ -49,20 +72,110 @@ export default function ShiftModal({ show, onClose, onUpdate, staff, selectedDat
         position: positions.length > 0 ? positions[0] : '',
         startTime: '09:00',
         endTime: '18:00',
+        hasBreak: false,
+        breakStartTime: '12:00',
+        breakEndTime: '15:00',
+        restBreakMinutes: '',
+        restBreakStartTime: '',
         isStandard: false,
       });
     }
   }, [editingShift, show, positions]);
 
+  // 入力中の勤務時間に休憩ルールで必要な休憩時間（分）
+  const getFormBreakTimes = () => ({
+    startTime: formData.startTime,
+    endTime: formData.endTime,
+    breakStartTime: formData.hasBreak ? formData.breakStartTime : undefined,
+    breakEndTime: formData.hasBreak ? formData.breakEndTime : undefined,
+  });
+  const requiredBreakMinutes = getRequiredBreakMinutes(getFormBreakTimes(), resolveBreakRules(breakRules));
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    // 中抜け時間は勤務時間内に収める（日をまたぐシフトも考慮し、開始時刻からの経過時間で比較）
+    const hoursFromStart = (time: string) => calculateWorkHours(formData.startTime, time);
+    if (
+      formData.hasBreak &&
+      !(
+        hoursFromStart(formData.breakStartTime) > 0 &&
+        hoursFromStart(formData.breakStartTime) < hoursFromStart(formData.breakEndTime) &&
+        hoursFromStart(formData.breakEndTime) < hoursFromStart(formData.endTime)
+      )
+    ) {
+      alert('中抜け時間は開始時刻と終了時刻の間に設定してください');
+      return;
+    }
+    const breakStartTime = formData.hasBreak ? formData.breakStartTime : undefined;
+    const breakEndTime = formData.hasBreak ? formData.breakEndTime : undefined;
+
+    // 休憩時間は未入力なら休憩ルールで算出し、ルールより短い場合は確認する
+    const restBreakMinutes =
+      formData.restBreakMinutes === '' ? requiredBreakMinutes : Math.max(0, Number(formData.restBreakMinutes) || 0);
+    if (
+      restBreakMinutes < requiredBreakMinutes &&
+      !confirm(`休憩時間が休憩ルールの${requiredBreakMinutes}分より短くなっています。\n\nこのまま保存しますか？`)
+    ) {
+      return;
+    }
+
+    // 休憩の開始時刻を指定する場合は、休憩全体をいずれかの勤務区間内に収める
+    const restBreakStartTime =
+      restBreakMinutes > 0 && formData.restBreakStartTime !== '' ? formData.restBreakStartTime : undefined;
+    if (
+      restBreakStartTime &&
+      !getShiftSegments(getFormBreakTimes()).some(
+        (segment) =>
+          hoursFromStart(restBreakStartTime) >= hoursFromStart(segment.startTime) &&
+          hoursFromStart(restBreakStartTime) + restBreakMinutes / 60 <= hoursFromStart(segment.endTime)
+      )
+    ) {
+      alert('休憩は勤務時間内（中抜け時間を除く）に設定してください');
+      return;
+    }
+
+    // 勤務間インターバルチェック
+    const restError = await validateRestInterval({
+      id: editingShift?.id,
+      staffId: formData.staffId,
+      date: editingShift ? editingShift.date : selectedDate,
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+    });
+    if (restError) {
+      alert(restError);
+      return;
+    }
+
+    // 指導担当・同時配置NGのチェック（確認の上で保存できる）
+    const pairError = await validateShiftPairRules({
+      ...(editingShift || { id: '', isConfirmed: false }),
+      staffId: formData.staffId,
+      date: editingShift ? editingShift.date : selectedDate,
+      position: formData.position,
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+      breakStartTime,
+      breakEndTime,
+      restBreakStartTime,
+      restBreakMinutes,
+    });
+    if (pairError && !confirm(`${pairError}\n\nこのまま保存しますか？`)) {
+      return;
+    }
+
     if (editingShift) {
       await shiftStorage.update(editingShift.id, {
         staffId: formData.staffId,
         position: formData.position,
         startTime: formData.startTime,
         endTime: formData.endTime,
+        // 中抜けを解除する場合は空文字で更新（保存時にnullへ変換）
+        breakStartTime: breakStartTime ?? '',
+        breakEndTime: breakEndTime ?? '',
+        restBreakStartTime,
+        restBreakMinutes,
         isStandard: formData.isStandard,
         lastModified: new Date(),
       });
@@ -74,6 +187,10 @@ export default function ShiftModal({ show, onClose, onUpdate, staff, selectedDat
         position: formData.position,
         startTime: formData.startTime,
         endTime: formData.endTime,
+        breakStartTime,
+        breakEndTime,
+        restBreakStartTime,
+        restBreakMinutes,
         isStandard: formData.isStandard,
         isConfirmed: false,
       };
@@ -86,14 +203,78 @@ export default function ShiftModal({ show, onClose, onUpdate, staff, selectedDat
 
   const handleDelete = async () => {
     if (editingShift && confirm('このシフトを削除してもよろしいですか？')) {
-      await shiftStorage.delete(editingShift.id);
+      const pairError = await validateShiftPairRules(editingShift, true);
+      if (pairError && !confirm(`${pairError}\n\nこのまま削除しますか？`)) {
+        return;
+      }
+      try {
+        await shiftStorage.delete(editingShift.id);
+      } catch (error) {
+        console.error('Error deleting shift:', error);
+        alert('シフトの削除に失敗しました');
+        return;
+      }
       await onUpdate();
       onClose();
     }
   };
 
+  // 欠勤として記録してシフトを削除し、代わりのスタッフを探す
+  const handleAbsence = async () => {
+    if (!editingShift) return;
+    const reason = prompt('欠勤として記録し、代わりのスタッフを探します。\n欠勤の理由を入力してください', '体調不良');
+    if (reason === null) return;
+
+    try {
+      const record: Omit<ShiftAbsence, 'id' | 'createdAt'> = {
+        staffId: editingShift.staffId,
+        date: editingShift.date,
+        position: editingShift.position,
+        startTime: editingShift.startTime,
+        endTime: editingShift.endTime,
+        breakStartTime: editingShift.breakStartTime,
+        breakEndTime: editingShift.breakEndTime,
+        restBreakStartTime: editingShift.restBreakStartTime,
+        // 休憩時間が未設定のシフトは、代わりのシフトにも引き継げるよう休憩ルールの休憩時間を記録
+        restBreakMinutes:
+          editingShift.restBreakMinutes ?? getRequiredBreakMinutes(editingShift, resolveBreakRules(breakRules)),
+        reason: reason.trim() || undefined,
+      };
+      // 先にシフトを削除し、欠勤を記録できなかった場合は同じIDでシフトを戻す（シフトと欠勤が両方残らないように）
+      // 削除に失敗した場合は欠勤を記録しない
+      await shiftStorage.delete(editingShift.id);
+      let id: string;
+      try {
+        id = await absenceStorage.add(record);
+      } catch (error) {
+        await shiftStorage.restore(editingShift);
+        throw error;
+      }
+      await onUpdate();
+      setAbsence({ ...record, id, createdAt: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error recording absence:', error);
+      alert('欠勤の記録に失敗しました');
+      await onUpdate();
+    }
+  };
+
   if (!show) return null;
 
+  if (absence) {
+    return (
+      <AbsenceReplacementModal
+        absence={absence}
+        staff={staff}
+        onUpdate={onUpdate}
+        onClose={() => {
+          setAbsence(null);
+          onClose();
+        }}
+      />
+    );
+  }
+
   const selectedStaff = staff.find((s) => s.id === formData.staffId);
 
   return (
@@ -180,6 +361,87 @@ export default function ShiftModal({ show, onClose, onUpdate, staff, selectedDat
             </div>
           </div>
 
+          <div>
+            <div className="flex items-center">
+              <input
+                type="checkbox"
+                id="hasBreak"
+                checked={formData.hasBreak}
+                onChange={(e) => setFormData({ ...formData, hasBreak: e.target.checked })}
+                className="mr-2 h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+              />
+              <label htmlFor="hasBreak" className="text-sm text-gray-700">
+                中抜け勤務（途中に無給の中抜け時間を入れる）
+              </label>
+            </div>
+            {formData.hasBreak && (
+              <div className="grid grid-cols-2 gap-3 mt-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    中抜け開始
+                  </label>
+                  <input
+                    type="time"
+                    required
+                    value={formData.breakStartTime}
+                    onChange={(e) => setFormData({ ...formData, breakStartTime: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    中抜け終了
+                  </label>
+                  <input
+                    type="time"
+                    required
+                    value={formData.breakEndTime}
+                    onChange={(e) => setFormData({ ...formData, breakEndTime: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  休憩（分）
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="5"
+                  value={formData.restBreakMinutes}
+                  onChange={(e) => setFormData({ ...formData, restBreakMinutes: e.target.value })}
+                  placeholder={`ルール: ${requiredBreakMinutes}分`}
+                  className="input w-full"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  休憩開始
+                </label>
+                <input
+                  type="time"
+                  value={formData.restBreakStartTime}
+                  onChange={(e) => setFormData({ ...formData, restBreakStartTime: e.target.value })}
+                  className="input w-full"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              空欄の場合は休憩ルールの休憩時間を勤務時間の中ほどに入れます（実働
+              {calculateShiftHours({
+                ...getFormBreakTimes(),
+                restBreakMinutes: formData.restBreakMinutes === '' ? requiredBreakMinutes : Number(formData.restBreakMinutes) || 0,
+              }).toFixed(2)}
+              時間）
+            </p>
+          </div>
+
           <div className="flex items-center">
             <input
               type="checkbox"
@@ -203,6 +465,15 @@ export default function ShiftModal({ show, onClose, onUpdate, staff, selectedDat
                 削除
               </button>
             )}
+            {editingShift && (
+              <button
+                type="button"
+                onClick={handleAbsence}
+                className="btn bg-orange-500 text-white hover:bg-orange-600"
+              >
+                欠勤
+              </button>
+            )}
             <button
               type="button"
               onClick={onClose}
@@ -1,5 +1,5 @@
 import type { Staff, Shift } from '../types';
-import { getPositionColor } from '../utils/helpers';
+import { getPositionColor, getShiftSegments } from '../utils/helpers';
 
 interface ShiftTimelineProps {
   shifts: Shift[];
@@ -38,9 +38,9 @@ export default function ShiftTimeline({ shifts, staff, title }: ShiftTimelinePro
     return acc;
   }, {} as Record<string, Shift[]>);
 
-  // シフトバーの位置とサイズを計算
-  const getShiftBarStyle = (shift: Shift) => {
-    const start = timeToNumber(shift.startTime);
+  // シフトバーの位置とサイズを計算（中抜け勤務は区間ごとに計算）
+  const getShiftBarStyle = (shift: Pick<Shift, 'startTime' | 'endTime'>) => {
+    let start = timeToNumber(shift.startTime);
     let end = timeToNumber(shift.endTime);
 
     // 日をまたぐシフトの場合（終了時刻 < 開始時刻）
@@ -49,6 +49,15 @@ export default function ShiftTimeline({ shifts, staff, title }: ShiftTimelinePro
       end += 24;
     }
 
+    // 0:00〜3:00に始まる区間（夜勤の中抜け後など）は翌日側に表示
+    if (start < minHour) {
+      start += 24;
+      end += 24;
+    }
+
+    // 時間軸の終端（翌3:00）を超える部分は切り詰める
+    end = Math.min(end, maxHour);
+
     const left = ((start - minHour) / totalHours) * 100;
     const width = ((end - start) / totalHours) * 100;
 
@@ -100,7 +109,7 @@ export default function ShiftTimeline({ shifts, staff, title }: ShiftTimelinePro
             <div key={position}>
               {positionShifts.map((shift) => {
                 const staffMember = staff.find((s) => s.id === shift.staffId);
-                const style = getShiftBarStyle(shift);
+                const segments = getShiftSegments(shift);
 
                 return (
                   <div key={shift.id} className="flex items-center mb-1">
@@ -129,19 +138,22 @@ export default function ShiftTimeline({ shifts, staff, title }: ShiftTimelinePro
                         ))}
                       </div>
 
-                      {/* シフトバー */}
-                      <div
-                        className={`absolute top-1 bottom-1 ${getPositionColor(position)} rounded px-2 flex items-center justify-between text-xs font-medium shadow-sm hover:shadow-md transition-shadow cursor-pointer`}
-                        style={style}
-                        title={`${staffMember?.name}: ${formatTime(shift.startTime)} - ${formatTime(shift.endTime)}`}
-                      >
-                        <span className="truncate">
-                          {formatTime(shift.startTime)}
-                        </span>
-                        <span className="truncate">
-                          {formatTime(shift.endTime)}
-                        </span>
-                      </div>
+                      {/* シフトバー（中抜け勤務は前半・後半の2本） */}
+                      {segments.map((segment, index) => (
+                        <div
+                          key={index}
+                          className={`absolute top-1 bottom-1 ${getPositionColor(position)} rounded px-2 flex items-center justify-between text-xs font-medium shadow-sm hover:shadow-md transition-shadow cursor-pointer`}
+                          style={getShiftBarStyle(segment)}
+                          title={`${staffMember?.name}: ${formatTime(segment.startTime)} - ${formatTime(segment.endTime)}`}
+                        >
+                          <span className="truncate">
+                            {formatTime(segment.startTime)}
+                          </span>
+                          <span className="truncate">
+                            {formatTime(segment.endTime)}
+                          </span>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 );
@@ -2,9 +2,12 @@ import { useState, useEffect } from 'react';
 import type { Staff, StaffUnavailableDate } from '../types';
 import StaffAvailabilitySettings from './StaffAvailabilitySettings';
 import StaffWorkLimitSettings from './StaffWorkLimitSettings';
+import StaffPrioritySettings from './StaffPrioritySettings';
+import StaffPairRuleSettings from './StaffPairRuleSettings';
 import StandardShiftNew from './StandardShiftNew';
 import { staffUnavailableDateStorage } from '../utils/autoShiftStorage';
-import { formatDateJP } from '../utils/helpers';
+import { formatDateJP, getToday } from '../utils/helpers';
+import { formatTenure, getTenureMonths } from '../utils/seniorCoverage';
 
 interface StaffDetailViewProps {
   selectedStaff: Staff;
@@ -13,7 +16,7 @@ interface StaffDetailViewProps {
   onUpdate: () => void;
 }
 
-type DetailTab = 'basic' | 'availability' | 'standardshift' | 'worklimit' | 'requests';
+type DetailTab = 'basic' | 'availability' | 'standardshift' | 'worklimit' | 'priority' | 'pairs' | 'requests';
 
 export default function StaffDetailView({
   selectedStaff,
@@ -114,6 +117,26 @@ export default function StaffDetailView({
             >
               労働時間制約
             </button>
+            <button
+              onClick={() => setActiveTab('priority')}
+              className={`px-6 py-3 font-medium transition-colors whitespace-nowrap ${
+                activeTab === 'priority'
+                  ? 'text-primary-600 border-b-2 border-primary-600 bg-white'
+                  : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              優先度
+            </button>
+            <button
+              onClick={() => setActiveTab('pairs')}
+              className={`px-6 py-3 font-medium transition-colors whitespace-nowrap ${
+                activeTab === 'pairs'
+                  ? 'text-primary-600 border-b-2 border-primary-600 bg-white'
+                  : 'text-gray-600 hover:text-gray-800'
+              }`}
+            >
+              ペアルール
+            </button>
             <button
               onClick={() => setActiveTab('requests')}
               className={`px-6 py-3 font-medium transition-colors whitespace-nowrap ${
@@ -154,6 +177,14 @@ export default function StaffDetailView({
                   <label className="block text-sm font-medium text-gray-700 mb-1">信頼度スコア</label>
                   <div className="input bg-gray-50">{selectedStaff.trustScore}</div>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">入社日</label>
+                  <div className="input bg-gray-50">
+                    {selectedStaff.hireDate
+                      ? `${formatDateJP(selectedStaff.hireDate)}（勤続${formatTenure(getTenureMonths(selectedStaff, getToday()) ?? 0)}）`
+                      : '-'}
+                  </div>
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">ステータス</label>
                   <div className="input bg-gray-50">
@@ -194,6 +225,22 @@ export default function StaffDetailView({
             />
           )}
 
+          {activeTab === 'priority' && (
+            <StaffPrioritySettings
+              currentUser={selectedStaff}
+              staff={allStaff}
+              isAdminView={true}
+            />
+          )}
+
+          {activeTab === 'pairs' && (
+            <StaffPairRuleSettings
+              currentUser={selectedStaff}
+              staff={allStaff}
+              isAdminView={true}
+            />
+          )}
+
           {activeTab === 'requests' && (
             <div className="space-y-4">
               <h3 className="font-semibold text-lg">希望休申請一覧</h3>
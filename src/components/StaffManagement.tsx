@@ -1,8 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
-import type { Staff, Position } from '../types';
+import type { Staff, Position, StaffSkill, Building } from '../types';
 import { staffStorage, positionStorage } from '../utils/supabaseStorage';
+import { staffSkillStorage, buildingStorage } from '../utils/autoShiftStorage';
 import { generateId, getTrustScoreColor } from '../utils/helpers';
 import { parseStaffCSV, convertToStaff, generateStaffSampleCSV } from '../utils/csvParser';
+import { DEFAULT_HOLIDAY_PREMIUM_RATE, DEFAULT_NIGHT_PREMIUM_RATE } from '../utils/laborCost';
 import StaffDetailView from './StaffDetailView';
 
 interface StaffManagementProps {
@@ -10,8 +12,21 @@ interface StaffManagementProps {
   onUpdate: () => void;
 }
 
+// 兼務スキルの習熟度ラベル
+const PROFICIENCY_LABELS: Record<number, string> = {
+  1: '補助',
+  2: '単独対応可',
+  3: '指導可',
+};
+
+// 割増率の入力（%）を率に変換（空の場合は未設定）
+const toPremiumRate = (percent: string) => (percent === '' ? undefined : Number(percent) / 100);
+const toPremiumPercent = (rate?: number) => (rate === undefined ? '' : String(Math.round(rate * 100)));
+
 export default function StaffManagement({ staff, onUpdate }: StaffManagementProps) {
   const [positions, setPositions] = useState<string[]>([]);
+  const [skills, setSkills] = useState<StaffSkill[]>([]);
+  const [buildings, setBuildings] = useState<Building[]>([]);
 
   useEffect(() => {
     const loadPositions = async () => {
@@ -19,7 +34,14 @@ export default function StaffManagement({ staff, onUpdate }: StaffManagementProp
       setPositions(activePositions.map(p => p.name));
     };
     loadPositions();
+    loadSkills();
+    buildingStorage.getAll().then(setBuildings);
   }, []);
+
+  const loadSkills = async () => {
+    const allSkills = await staffSkillStorage.getAll();
+    setSkills(allSkills);
+  };
   const [showAddModal, setShowAddModal] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [editingStaff, setEditingStaff] = useState<Staff | null>(null);
@@ -33,7 +55,14 @@ export default function StaffManagement({ staff, onUpdate }: StaffManagementProp
     role: 'user' as 'admin' | 'user',
     email: '',
     password: 'password',
+    homeBuildingId: '', // 空の場合は館を問わない
+    hireDate: '', // 空の場合は未設定
+    hourlyWage: '', // 空の場合は未設定
+    nightPremiumPercent: '', // 空の場合は既定値
+    holidayPremiumPercent: '', // 空の場合は既定値
   });
+  // 兼務スキル（役職 -> 習熟度）
+  const [skillForm, setSkillForm] = useState<Record<string, number>>({});
 
   useEffect(() => {
     if (positions.length > 0 && !formData.position) {
@@ -48,7 +77,13 @@ export default function StaffManagement({ staff, onUpdate }: StaffManagementProp
       role: 'user',
       email: '',
       password: 'password',
+      homeBuildingId: '',
+      hireDate: '',
+      hourlyWage: '',
+      nightPremiumPercent: '',
+      holidayPremiumPercent: '',
     });
+    setSkillForm({});
     setEditingStaff(null);
     setShowAddModal(false);
   };
@@ -56,13 +91,31 @@ export default function StaffManagement({ staff, onUpdate }: StaffManagementProp
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const wage = {
+      hourlyWage: formData.hourlyWage === '' ? undefined : Number(formData.hourlyWage),
+      nightPremiumRate: toPremiumRate(formData.nightPremiumPercent),
+      holidayPremiumRate: toPremiumRate(formData.holidayPremiumPercent),
+    };
+
     if (editingStaff) {
       await staffStorage.update(editingStaff.id, {
         name: formData.name,
         position: formData.position,
         role: formData.role,
         email: formData.email,
+        homeBuildingId: formData.homeBuildingId || undefined,
+        hireDate: formData.hireDate || undefined,
+        ...wage,
       });
+
+      // 主担当の役職は兼務スキルから除外して保存
+      await staffSkillStorage.replaceByStaffId(
+        editingStaff.id,
+        Object.entries(skillForm)
+          .filter(([position, proficiency]) => position !== formData.position && proficiency > 0)
+          .map(([position, proficiency]) => ({ position, proficiency }))
+      );
+      await loadSkills();
     } else {
       const newStaff: Staff = {
         id: generateId(),
@@ -75,6 +128,9 @@ export default function StaffManagement({ staff, onUpdate }: StaffManagementProp
         loginId: formData.email,
         passwordHash: formData.password,
         is2faEnabled: false,
+        homeBuildingId: formData.homeBuildingId || undefined,
+        hireDate: formData.hireDate || undefined,
+        ...wage,
       };
       await staffStorage.add(newStaff);
     }
@@ -91,7 +147,17 @@ export default function StaffManagement({ staff, onUpdate }: StaffManagementProp
       role: staffMember.role,
       email: staffMember.email,
       password: 'password',
+      homeBuildingId: staffMember.homeBuildingId || '',
+      hireDate: staffMember.hireDate || '',
+      hourlyWage: staffMember.hourlyWage?.toString() ?? '',
+      nightPremiumPercent: toPremiumPercent(staffMember.nightPremiumRate),
+      holidayPremiumPercent: toPremiumPercent(staffMember.holidayPremiumRate),
     });
+    setSkillForm(Object.fromEntries(
+      skills
+        .filter(sk => sk.staffId === staffMember.id)
+        .map(sk => [sk.position, sk.proficiency])
+    ));
     setShowAddModal(true);
   };
 
@@ -194,6 +260,22 @@ export default function StaffManagement({ staff, onUpdate }: StaffManagementProp
                     <span className="badge bg-blue-100 text-blue-800 border-blue-300">
                       {staffMember.position}
                     </span>
+                    {skills
+                      .filter(sk => sk.staffId === staffMember.id)
+                      .map(sk => (
+                        <span
+                          key={sk.position}
+                          className="badge bg-gray-100 text-gray-700 border-gray-300 ml-1"
+                          title={PROFICIENCY_LABELS[sk.proficiency]}
+                        >
+                          {sk.position}
+                        </span>
+                      ))}
+                    {staffMember.homeBuildingId && (
+                      <span className="badge bg-green-100 text-green-800 border-green-300 ml-1">
+                        {buildings.find(b => b.id === staffMember.homeBuildingId)?.name || '所属館'}
+                      </span>
+                    )}
                   </td>
                   <td className="py-3 px-4">
                     <span className={`badge ${staffMember.role === 'admin' ? 'bg-purple-100 text-purple-800 border-purple-300' : 'bg-gray-100 text-gray-800 border-gray-300'}`}>
@@ -240,7 +322,7 @@ export default function StaffManagement({ staff, onUpdate }: StaffManagementProp
 
       {showAddModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="card max-w-md w-full">
+          <div className="card max-w-md w-full max-h-[90vh] overflow-y-auto">
             <h3 className="text-xl font-bold mb-4 text-gray-800">
               {editingStaff ? 'スタッフ編集' : 'スタッフ追加'}
             </h3>
@@ -276,6 +358,122 @@ export default function StaffManagement({ staff, onUpdate }: StaffManagementProp
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  所属館
+                </label>
+                <select
+                  value={formData.homeBuildingId}
+                  onChange={(e) => setFormData({ ...formData, homeBuildingId: e.target.value })}
+                  className="input w-full"
+                >
+                  <option value="">指定なし（全館）</option>
+                  {buildings.map((building) => (
+                    <option key={building.id} value={building.id}>
+                      {building.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  ※ 館別の必要人数には所属館のスタッフのみ割り当てられます
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  入社日
+                </label>
+                <input
+                  type="date"
+                  value={formData.hireDate}
+                  onChange={(e) => setFormData({ ...formData, hireDate: e.target.value })}
+                  className="input w-full"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  ※ 勤続期間は優先度設定の経験年数と、ベテラン配置の判定に使います
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  時給・割増率
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <span className="block text-xs text-gray-500 mb-1">時給（円）</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.hourlyWage}
+                      onChange={(e) => setFormData({ ...formData, hourlyWage: e.target.value })}
+                      className="input w-full"
+                      placeholder="未設定"
+                    />
+                  </div>
+                  <div>
+                    <span className="block text-xs text-gray-500 mb-1">深夜割増（%）</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.nightPremiumPercent}
+                      onChange={(e) => setFormData({ ...formData, nightPremiumPercent: e.target.value })}
+                      className="input w-full"
+                      placeholder={String(DEFAULT_NIGHT_PREMIUM_RATE * 100)}
+                    />
+                  </div>
+                  <div>
+                    <span className="block text-xs text-gray-500 mb-1">休日割増（%）</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={formData.holidayPremiumPercent}
+                      onChange={(e) => setFormData({ ...formData, holidayPremiumPercent: e.target.value })}
+                      className="input w-full"
+                      placeholder={String(DEFAULT_HOLIDAY_PREMIUM_RATE * 100)}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  ※ 深夜は22時〜翌5時の勤務時間、休日は日曜・祝日に割増します。自動シフト生成の人件費の見込みに使います
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  兼務スキル
+                </label>
+                {editingStaff ? (
+                  <div className="space-y-2">
+                    {positions
+                      .filter(pos => pos !== formData.position)
+                      .map(pos => (
+                        <div key={pos} className="flex items-center justify-between gap-3">
+                          <span className="text-sm text-gray-700">{pos}</span>
+                          <select
+                            value={skillForm[pos] || 0}
+                            onChange={(e) => setSkillForm({ ...skillForm, [pos]: parseInt(e.target.value) })}
+                            className="input w-40"
+                          >
+                            <option value={0}>なし</option>
+                            {[1, 2, 3].map(level => (
+                              <option key={level} value={level}>
+                                {PROFICIENCY_LABELS[level]}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    <p className="text-xs text-gray-500">
+                      ※ 主担当の役職で人数が足りない場合に、自動シフト生成で兼務先として割り当てられます
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    ※ 兼務スキルはスタッフ追加後に編集画面から設定できます
+                  </p>
+                )}
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   権限
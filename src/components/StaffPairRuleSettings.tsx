@@ -0,0 +1,195 @@
+import { useState, useEffect } from 'react';
+import type { Staff, StaffPairRule } from '../types';
+import { staffPairRuleStorage } from '../utils/autoShiftStorage';
+
+interface StaffPairRuleSettingsProps {
+  currentUser: Staff;
+  staff: Staff[];
+  isAdminView?: boolean;
+}
+
+export default function StaffPairRuleSettings({
+  currentUser,
+  staff,
+  isAdminView = false
+}: StaffPairRuleSettingsProps) {
+  const [selectedStaffId, setSelectedStaffId] = useState<string>(currentUser.id);
+  const [rules, setRules] = useState<StaffPairRule[]>([]);
+  const [mentorIds, setMentorIds] = useState<Set<string>>(new Set());
+  const [avoidIds, setAvoidIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadRules();
+  }, [selectedStaffId]);
+
+  const loadRules = async () => {
+    setLoading(true);
+    const data = await staffPairRuleStorage.getByStaffId(selectedStaffId);
+
+    setRules(data);
+    setMentorIds(new Set(
+      data.filter(r => r.ruleType === 'mentor' && r.staffId === selectedStaffId).map(r => r.pairStaffId)
+    ));
+    // 同時配置NGは向きを問わない
+    setAvoidIds(new Set(
+      data
+        .filter(r => r.ruleType === 'avoid')
+        .map(r => (r.staffId === selectedStaffId ? r.pairStaffId : r.staffId))
+    ));
+    setLoading(false);
+  };
+
+  const toggle = (setter: typeof setMentorIds, staffId: string) => {
+    setter(prev => {
+      const next = new Set(prev);
+      if (next.has(staffId)) {
+        next.delete(staffId);
+      } else {
+        next.add(staffId);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const both = [...mentorIds].filter(id => avoidIds.has(id));
+    if (both.length > 0) {
+      alert('同じスタッフを指導担当と同時配置NGの両方に設定することはできません');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await staffPairRuleStorage.replaceByStaffId(selectedStaffId, [...mentorIds], [...avoidIds]);
+      alert('ペアルールを保存しました');
+      await loadRules();
+    } catch (error) {
+      console.error('Error saving staff pair rules:', error);
+      alert('保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedStaff = staff.find(s => s.id === selectedStaffId);
+  const otherStaff = staff.filter(s => s.isActive && s.id !== selectedStaffId);
+  const canEdit = isAdminView || currentUser.role === 'admin';
+
+  // このスタッフが指導担当になっている研修中のスタッフ
+  const trainees = rules
+    .filter(r => r.ruleType === 'mentor' && r.pairStaffId === selectedStaffId)
+    .map(r => staff.find(s => s.id === r.staffId)?.name || '不明');
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-gray-500">読み込み中...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">ペアルール</h2>
+        {isAdminView && (
+          <select
+            value={selectedStaffId}
+            onChange={(e) => setSelectedStaffId(e.target.value)}
+            className="input max-w-xs"
+          >
+            {staff.filter(s => s.isActive).map(s => (
+              <option key={s.id} value={s.id}>
+                {s.name} ({s.position})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="card">
+        <div className="mb-4">
+          <h3 className="font-semibold text-lg mb-2">
+            {selectedStaff?.name}さんの指導担当
+          </h3>
+          <p className="text-sm text-gray-600">
+            指導担当を設定すると研修中として扱い、指導担当のいずれかが同じ役職で勤務している時間帯にのみ配置します。
+          </p>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {otherStaff.map(s => (
+            <label key={s.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={mentorIds.has(s.id)}
+                onChange={() => toggle(setMentorIds, s.id)}
+                disabled={!canEdit}
+              />
+              {s.name}
+              <span className="text-gray-500">({s.position})</span>
+            </label>
+          ))}
+        </div>
+        {trainees.length > 0 && (
+          <p className="text-sm text-gray-600 mt-4">
+            {selectedStaff?.name}さんが指導担当の研修中スタッフ: {trainees.join('、')}
+          </p>
+        )}
+      </div>
+
+      <div className="card">
+        <div className="mb-4">
+          <h3 className="font-semibold text-lg mb-2">同時配置NG</h3>
+          <p className="text-sm text-gray-600">
+            選んだスタッフとは勤務時間が重ならないように配置します（役職を問いません）。
+          </p>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {otherStaff.map(s => (
+            <label key={s.id} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={avoidIds.has(s.id)}
+                onChange={() => toggle(setAvoidIds, s.id)}
+                disabled={!canEdit}
+              />
+              {s.name}
+              <span className="text-gray-500">({s.position})</span>
+            </label>
+          ))}
+        </div>
+
+        {canEdit && (
+          <div className="mt-6 flex justify-end gap-3">
+            <button
+              onClick={loadRules}
+              className="btn btn-secondary"
+              disabled={saving}
+            >
+              リセット
+            </button>
+            <button
+              onClick={handleSave}
+              className="btn btn-primary"
+              disabled={saving}
+            >
+              {saving ? '保存中...' : '保存'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h3 className="font-semibold text-blue-900 mb-2">💡 ペアルールについて</h3>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• 自動シフト生成では、指導担当のいない時間帯に研修中のスタッフを割り当てません</li>
+          <li>• 指導担当の勤務時間が研修中のスタッフの勤務時間全体を含む場合に「付いている」とみなします（中抜け勤務は中抜け時間を除いて判定します）</li>
+          <li>• 同時配置NGは相手側のスタッフにも同じ設定が表示されます</li>
+          <li>• 手動でシフトを登録・変更・削除してルールに反する場合は、保存前に確認メッセージが表示されます</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react';
+import type { Staff, StaffPriority, PositionMaster } from '../types';
+import { staffPriorityStorage } from '../utils/autoShiftStorage';
+import { positionStorage } from '../utils/supabaseStorage';
+import { calculatePriorityBlend, DEFAULT_STAFF_PRIORITY } from '../utils/autoShiftAlgorithm';
+import { getToday } from '../utils/helpers';
+
+interface StaffPrioritySettingsProps {
+  currentUser: Staff;
+  staff: Staff[];
+  isAdminView?: boolean;
+}
+
+type PriorityField = 'priorityScore' | 'trustScoreWeight' | 'seniorityWeight' | 'customWeight';
+
+export default function StaffPrioritySettings({
+  currentUser,
+  staff,
+  isAdminView = false
+}: StaffPrioritySettingsProps) {
+  const [selectedStaffId, setSelectedStaffId] = useState<string>(currentUser.id);
+  const [positions, setPositions] = useState<PositionMaster[]>([]);
+  const [priorities, setPriorities] = useState<StaffPriority[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPriorities();
+  }, [selectedStaffId]);
+
+  const loadPriorities = async () => {
+    setLoading(true);
+    const [positionsData, data] = await Promise.all([
+      positionStorage.getActive(),
+      staffPriorityStorage.getByStaffId(selectedStaffId),
+    ]);
+
+    // 役職ごとのデータを初期化（未登録の役職はデフォルト値）
+    const fullPositions = positionsData.map(pos => {
+      const existing = data.find(p => p.position === pos.name);
+      if (existing) {
+        return existing;
+      }
+      return {
+        id: '',
+        staffId: selectedStaffId,
+        position: pos.name,
+        ...DEFAULT_STAFF_PRIORITY,
+      };
+    });
+
+    setPositions(positionsData);
+    setPriorities(fullPositions);
+    setLoading(false);
+  };
+
+  const handleValueChange = (position: string, field: PriorityField, value: number) => {
+    setPriorities(prev =>
+      prev.map(p =>
+        p.position === position
+          ? { ...p, [field]: Math.max(0, isNaN(value) ? 0 : value) }
+          : p
+      )
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      for (const priority of priorities) {
+        await staffPriorityStorage.upsert({
+          staffId: priority.staffId,
+          position: priority.position,
+          priorityScore: Math.min(100, priority.priorityScore),
+          trustScoreWeight: priority.trustScoreWeight,
+          seniorityWeight: priority.seniorityWeight,
+          customWeight: priority.customWeight,
+        });
+      }
+
+      alert('優先度設定を保存しました');
+      await loadPriorities();
+    } catch (error) {
+      console.error('Error saving staff priority:', error);
+      alert('保存に失敗しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectedStaff = staff.find(s => s.id === selectedStaffId);
+  const canEdit = isAdminView || currentUser.role === 'admin';
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <div className="text-gray-500">読み込み中...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-bold">アサイン優先度設定</h2>
+        {isAdminView && (
+          <select
+            value={selectedStaffId}
+            onChange={(e) => setSelectedStaffId(e.target.value)}
+            className="input max-w-xs"
+          >
+            {staff.filter(s => s.isActive).map(s => (
+              <option key={s.id} value={s.id}>
+                {s.name} ({s.position})
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div className="card">
+        <div className="mb-4">
+          <h3 className="font-semibold text-lg mb-2">
+            {selectedStaff?.name}さんの役職別優先度
+          </h3>
+          <p className="text-sm text-gray-600">
+            自動シフト生成で候補者を並べる際の優先度を役職ごとに設定します。
+          </p>
+        </div>
+
+        {positions.length === 0 ? (
+          <div className="bg-yellow-50 border border-yellow-200 rounded p-4">
+            <p className="text-yellow-800">役職が設定されていません。先に役職設定を完了してください。</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">役職</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">手動スコア</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">信頼度の重み</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">経験年数の重み</th>
+                  <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">手動調整の重み</th>
+                  <th className="px-4 py-3 text-right text-sm font-semibold text-gray-700">総合スコア</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {priorities.map(priority => (
+                  <tr
+                    key={priority.position}
+                    className={priority.position === selectedStaff?.position ? 'bg-primary-50' : 'hover:bg-gray-50'}
+                  >
+                    <td className="px-4 py-3 text-sm font-medium">{priority.position}</td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={priority.priorityScore}
+                        onChange={(e) => handleValueChange(priority.position, 'priorityScore', parseInt(e.target.value))}
+                        disabled={!canEdit}
+                        className="input w-20"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.1"
+                        value={priority.trustScoreWeight}
+                        onChange={(e) => handleValueChange(priority.position, 'trustScoreWeight', parseFloat(e.target.value))}
+                        disabled={!canEdit}
+                        className="input w-20"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.1"
+                        value={priority.seniorityWeight}
+                        onChange={(e) => handleValueChange(priority.position, 'seniorityWeight', parseFloat(e.target.value))}
+                        disabled={!canEdit}
+                        className="input w-20"
+                      />
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="number"
+                        min="0"
+                        max="1"
+                        step="0.1"
+                        value={priority.customWeight}
+                        onChange={(e) => handleValueChange(priority.position, 'customWeight', parseFloat(e.target.value))}
+                        disabled={!canEdit}
+                        className="input w-20"
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right font-semibold text-primary-700">
+                      {selectedStaff ? calculatePriorityBlend(selectedStaff, priority, getToday()).toFixed(1) : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {canEdit && positions.length > 0 && (
+          <div className="mt-6 flex justify-end gap-3">
+            <button
+              onClick={loadPriorities}
+              className="btn btn-secondary"
+              disabled={saving}
+            >
+              リセット
+            </button>
+            <button
+              onClick={handleSave}
+              className="btn btn-primary"
+              disabled={saving}
+            >
+              {saving ? '保存中...' : '保存'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+        <h3 className="font-semibold text-blue-900 mb-2">💡 優先度設定について</h3>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• 総合スコア = 信頼度・経験年数・手動スコアを各重みで加重平均した値です</li>
+          <li>• 経験年数は入社日（スタッフ管理）からの勤続期間で、10年以上で100になります。入社日が未設定の場合は50として計算されます</li>
+          <li>• 総合スコアが高いスタッフほど、自動シフト生成で先に割り当てられます</li>
+          <li>• 連続勤務日数や月の労働時間による調整も合わせて考慮されます</li>
+          <li>• 未設定の役職は既定値（手動スコア50、重み 0.4 / 0.3 / 0.3）で計算されます</li>
+        </ul>
+      </div>
+    </div>
+  );
+}
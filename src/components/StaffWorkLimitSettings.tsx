@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import type { Staff, StaffWorkLimit } from '../types';
 import { staffWorkLimitStorage } from '../utils/autoShiftStorage';
+import { DEFAULT_MIN_REST_HOURS } from '../utils/helpers';
 
 interface StaffWorkLimitSettingsProps {
   currentUser: Staff;
@@ -20,6 +21,10 @@ export default function StaffWorkLimitSettings({
     maxHoursPerWeek: 40,
     maxHoursPerMonth: 160,
     maxConsecutiveDays: 5,
+    minRestHours: DEFAULT_MIN_REST_HOURS,
+    minHoursPerWeek: 0,
+    minHoursPerMonth: 0,
+    minDaysPerMonth: 0,
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -42,6 +47,10 @@ export default function StaffWorkLimitSettings({
         maxHoursPerWeek: 40,
         maxHoursPerMonth: 160,
         maxConsecutiveDays: 5,
+        minRestHours: DEFAULT_MIN_REST_HOURS,
+        minHoursPerWeek: 0,
+        minHoursPerMonth: 0,
+        minDaysPerMonth: 0,
       });
     }
 
@@ -56,6 +65,10 @@ export default function StaffWorkLimitSettings({
         maxHoursPerWeek: workLimit.maxHoursPerWeek,
         maxHoursPerMonth: workLimit.maxHoursPerMonth,
         maxConsecutiveDays: workLimit.maxConsecutiveDays,
+        minRestHours: workLimit.minRestHours,
+        minHoursPerWeek: workLimit.minHoursPerWeek,
+        minHoursPerMonth: workLimit.minHoursPerMonth,
+        minDaysPerMonth: workLimit.minDaysPerMonth,
       });
 
       alert('労働時間制約を保存しました');
@@ -118,7 +131,7 @@ export default function StaffWorkLimitSettings({
             {selectedStaff?.name}さんの労働時間制約
           </h3>
           <p className="text-sm text-gray-600">
-            週・月の労働時間上限と連続勤務日数の制限を設定します。
+            週・月の労働時間上限、連続勤務日数、勤務間インターバルの制限と、最低労働時間の目標を設定します。
           </p>
         </div>
 
@@ -193,6 +206,81 @@ export default function StaffWorkLimitSettings({
               ※ 労働基準法では週1日以上の休日が必要です
             </p>
           </div>
+
+          {/* 勤務間インターバル */}
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <label className="block mb-2">
+              <span className="font-medium text-gray-700">勤務間インターバル</span>
+              <span className="text-sm text-gray-500 ml-2">（推奨: 11時間）</span>
+            </label>
+            <div className="flex items-center gap-3">
+              <input
+                type="number"
+                min="0"
+                max="24"
+                step="0.5"
+                value={workLimit.minRestHours}
+                onChange={(e) => setWorkLimit({ ...workLimit, minRestHours: parseFloat(e.target.value) })}
+                disabled={!canEdit}
+                className="input w-32"
+              />
+              <span className="text-gray-600">時間以上</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              ※ 前日の終業から翌日の始業までの休息時間です（22時終業なら翌日は9時以降の始業）
+            </p>
+          </div>
+
+          {/* 最低労働時間 */}
+          <div className="bg-gray-50 p-4 rounded-lg">
+            <label className="block mb-2">
+              <span className="font-medium text-gray-700">最低労働時間・勤務日数</span>
+              <span className="text-sm text-gray-500 ml-2">（パート・契約社員の保証時間など、0は指定なし）</span>
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="flex items-center gap-3">
+                <input
+                  type="number"
+                  min="0"
+                  max="168"
+                  step="0.5"
+                  value={workLimit.minHoursPerWeek}
+                  onChange={(e) => setWorkLimit({ ...workLimit, minHoursPerWeek: parseFloat(e.target.value) || 0 })}
+                  disabled={!canEdit}
+                  className="input w-24"
+                />
+                <span className="text-gray-600">時間 / 週</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <input
+                  type="number"
+                  min="0"
+                  max="744"
+                  step="0.5"
+                  value={workLimit.minHoursPerMonth}
+                  onChange={(e) => setWorkLimit({ ...workLimit, minHoursPerMonth: parseFloat(e.target.value) || 0 })}
+                  disabled={!canEdit}
+                  className="input w-24"
+                />
+                <span className="text-gray-600">時間 / 月</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <input
+                  type="number"
+                  min="0"
+                  max="31"
+                  value={workLimit.minDaysPerMonth}
+                  onChange={(e) => setWorkLimit({ ...workLimit, minDaysPerMonth: parseInt(e.target.value) || 0 })}
+                  disabled={!canEdit}
+                  className="input w-24"
+                />
+                <span className="text-gray-600">日 / 月</span>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              ※ 目標値です。自動シフト生成では必要人数を満たした後に、不足分のシフトを追加します（満たせない場合は生成結果に表示されます）
+            </p>
+          </div>
         </div>
 
         {/* 参考情報 */}
@@ -244,6 +332,8 @@ export default function StaffWorkLimitSettings({
           <li>• 労働基準法を遵守した設定を推奨します</li>
           <li>• 週40時間、月160時間が一般的な上限です</li>
           <li>• 連続勤務は健康管理の観点から5-6日以内が推奨されます</li>
+          <li>• 勤務間インターバルは手動でのシフト登録・変更時にもチェックされます</li>
+          <li>• 最低労働時間は上限と違い、満たせなくてもシフトは生成されます</li>
         </ul>
       </div>
     </div>
@@ -68,9 +68,14 @@ export default function StandardShift({ currentUser, staff, shifts, onUpdate }:
     });
   };
 
-  const handleDelete = (shiftId: string) => {
+  const handleDelete = async (shiftId: string) => {
     if (confirm('この標準シフトを削除してもよろしいですか？')) {
-      shiftStorage.delete(shiftId);
+      try {
+        await shiftStorage.delete(shiftId);
+      } catch (error) {
+        console.error('Error deleting shift:', error);
+        alert('シフトの削除に失敗しました');
+      }
       onUpdate();
     }
   };
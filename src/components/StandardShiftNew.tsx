@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import type { Staff, StaffStandardSchedule, Shift } from '../types';
 import { staffScheduleStorage, shiftStorage } from '../utils/supabaseStorage';
-import { generateId, formatDate } from '../utils/helpers';
+import { breakRuleStorage } from '../utils/autoShiftStorage';
+import { generateId, formatDate, getRequiredBreakMinutes } from '../utils/helpers';
+import { resolveBreakRules } from '../utils/restBreaks';
 
 interface StandardShiftProps {
   currentUser: Staff;
@@ -130,6 +132,7 @@ export default function StandardShiftNew({ currentUser, staff, onUpdate, isAdmin
       const daysInMonth = new Date(year, month + 1, 0).getDate();
 
       let addedCount = 0;
+      const breakRules = resolveBreakRules(await breakRuleStorage.getAll());
       const activeSchedules = schedules.filter(s => s.isActive);
       const totalSchedules = activeSchedules.length;
 
@@ -198,6 +201,10 @@ export default function StandardShiftNew({ currentUser, staff, onUpdate, isAdmin
             position: staffMember.position,
             startTime: schedule.preferredStartTime,
             endTime: endTime,
+            restBreakMinutes: getRequiredBreakMinutes(
+              { startTime: schedule.preferredStartTime, endTime },
+              breakRules
+            ),
             isStandard: false,
             isConfirmed: false,
           };
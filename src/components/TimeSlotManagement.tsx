@@ -39,6 +39,7 @@ export default function TimeSlotManagement() {
               <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">時間帯名</th>
               <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">開始時刻</th>
               <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">終了時刻</th>
+              <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">中抜け</th>
               <th className="px-4 py-3 text-left text-sm font-semibold text-gray-700">時間</th>
             </tr>
           </thead>
@@ -46,7 +47,8 @@ export default function TimeSlotManagement() {
             {timeSlots.map((slot) => {
               const start = slot.startTime;
               const end = slot.endTime;
-              const duration = calculateDuration(start, end);
+              const hasBreak = !!(slot.breakStartTime && slot.breakEndTime);
+              const duration = calculateDuration(start, end, slot.breakStartTime, slot.breakEndTime);
 
               return (
                 <tr key={slot.id} className="hover:bg-gray-50">
@@ -58,6 +60,9 @@ export default function TimeSlotManagement() {
                   </td>
                   <td className="px-4 py-3 text-sm font-mono">{start}</td>
                   <td className="px-4 py-3 text-sm font-mono">{end}</td>
+                  <td className="px-4 py-3 text-sm font-mono text-gray-600">
+                    {hasBreak ? `${slot.breakStartTime}〜${slot.breakEndTime}` : '-'}
+                  </td>
                   <td className="px-4 py-3 text-sm text-gray-600">{duration}</td>
                 </tr>
               );
@@ -78,6 +83,7 @@ export default function TimeSlotManagement() {
         <ul className="text-sm text-blue-800 space-y-1">
           <li>• 現在の時間帯設定が表示されています</li>
           <li>• これらの時間帯を基準にシフトの必要人数を設定します</li>
+          <li>• 中抜け勤務の時間帯は1日の勤務として扱い、時間には中抜けを除いた実労働時間を表示します</li>
           <li>• 時間帯の変更はSupabaseのSQL Editorで行ってください</li>
         </ul>
       </div>
@@ -103,15 +109,12 @@ export default function TimeSlotManagement() {
   );
 }
 
-function calculateDuration(start: string, end: string): string {
-  const [startHour, startMin] = start.split(':').map(Number);
-  const [endHour, endMin] = end.split(':').map(Number);
-
-  let totalMinutes = (endHour * 60 + endMin) - (startHour * 60 + startMin);
+function calculateDuration(start: string, end: string, breakStart?: string, breakEnd?: string): string {
+  let totalMinutes = calculateMinutes(start, end);
 
-  // 日をまたぐ場合
-  if (totalMinutes < 0) {
-    totalMinutes += 24 * 60;
+  // 中抜け時間を除く
+  if (breakStart && breakEnd) {
+    totalMinutes -= calculateMinutes(breakStart, breakEnd);
   }
 
   const hours = Math.floor(totalMinutes / 60);
@@ -123,6 +126,20 @@ function calculateDuration(start: string, end: string): string {
   return `${hours}時間${minutes}分`;
 }
 
+function calculateMinutes(start: string, end: string): number {
+  const [startHour, startMin] = start.split(':').map(Number);
+  const [endHour, endMin] = end.split(':').map(Number);
+
+  let totalMinutes = (endHour * 60 + endMin) - (startHour * 60 + startMin);
+
+  // 日をまたぐ場合
+  if (totalMinutes < 0) {
+    totalMinutes += 24 * 60;
+  }
+
+  return totalMinutes;
+}
+
 function InfoCard({ title, description, icon }: { title: string; description: string; icon: string }) {
   return (
     <div className="bg-white border border-gray-200 rounded-lg p-4">
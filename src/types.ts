@@ -9,6 +9,8 @@ export interface PositionMaster {
   isActive: boolean;
   baseRequiredCount: number; // 標準的な1日の必要人数
   guestCountRatio: number; // 予約客数による変動率（例: 0.1 = 客10人につき+1人）
+  banquetGuestsPerStaff: number; // 宴会の追加人数（例: 15 = 宴会客15人につき+1人、0 = 追加なし）
+  monthlyLaborBudget: number; // 月の人件費予算（円、0 = 未設定）
 }
 
 // ユーザーロール
@@ -28,6 +30,11 @@ export interface Staff {
   is2faEnabled: boolean; // 二段階認証が有効かどうか
   otpSecret?: string; // ワンタイムパスワード
   otpExpiresAt?: string; // OTPの有効期限
+  homeBuildingId?: string; // 所属館（未設定の場合は館を問わない）
+  hourlyWage?: number; // 時給（円、未設定の場合は人件費を0円として扱う）
+  nightPremiumRate?: number; // 深夜割増率（例: 0.25 = 25%増、未設定の場合は0.25）
+  holidayPremiumRate?: number; // 休日（日曜・祝日）割増率（例: 0.35 = 35%増、未設定の場合は0）
+  hireDate?: string; // 入社日（YYYY-MM-DD、勤続期間の計算に使う）
 }
 
 // シフト時間帯
@@ -47,6 +54,10 @@ export interface Shift {
   isStandard?: boolean; // 標準シフトかどうか
   isConfirmed?: boolean; // 確定しているか
   isCompleted?: boolean; // 完了しているか
+  breakStartTime?: string; // 中抜け開始（中抜け勤務の場合のみ）
+  breakEndTime?: string; // 中抜け終了（中抜け勤務の場合のみ）
+  restBreakStartTime?: string; // 休憩開始（未設定の場合は勤務区間の中ほど）
+  restBreakMinutes?: number; // 休憩時間（分、未設定の場合は既定の休憩ルールで算出）
   lastModified?: Date; // 最終変更日時
 }
 
@@ -91,6 +102,24 @@ export interface ShiftChangeHistory {
   penaltyScore: number; // ペナルティスコア（直前変更ほど高い）
 }
 
+// 欠勤（当日の急な欠勤。欠勤したシフトの内容と代わりのスタッフを記録する）
+export interface ShiftAbsence {
+  id: string;
+  staffId: string;                 // 欠勤したスタッフ
+  date: string;                    // 'YYYY-MM-DD'
+  position: Position;
+  startTime: string;
+  endTime: string;
+  breakStartTime?: string;         // 中抜け開始（中抜け勤務の場合のみ）
+  breakEndTime?: string;
+  restBreakStartTime?: string;
+  restBreakMinutes?: number;
+  reason?: string;                 // '体調不良' など
+  replacementStaffId?: string;     // 代わりに勤務するスタッフ（未定の場合は未設定）
+  notifiedAt?: string;             // 代わりのスタッフへ通知した日時
+  createdAt: string;
+}
+
 // 当日シフトサマリー
 export interface TodayShiftSummary {
   date: string;
@@ -131,10 +160,21 @@ export interface TimeSlot {
   name: string;                // '早朝', '午前', etc.
   startTime: string;           // '05:00'
   endTime: string;             // '09:00'
+  breakStartTime?: string;     // 中抜け開始（中抜け勤務パターンの場合のみ）
+  breakEndTime?: string;       // 中抜け終了
+  restBreakStartTime?: string; // 休憩開始（生成時に休憩ルールから設定）
+  restBreakMinutes?: number;   // 休憩時間（分、生成時に休憩ルールから設定）
   displayOrder: number;
   isActive: boolean;
 }
 
+// 休憩ルール（労働時間が minWorkHours を超える場合は breakMinutes 以上の休憩を入れる）
+export interface BreakRule {
+  id: string;
+  minWorkHours: number;            // 6, 8 など
+  breakMinutes: number;            // 45, 60 など
+}
+
 // 役職別必要人数設定（日別・時間帯別）
 export interface DailyStaffRequirement {
   id: string;
@@ -142,12 +182,43 @@ export interface DailyStaffRequirement {
   position: Position;
   timeSlotId: string;
   requiredCount: number;           // 基本必要人数
+  buildingId?: string;             // 対象の館（未設定の場合は全館）
 
   // 稼働率による変動設定
   roomOccupancyBonus?: number;     // 客室稼働率10%ごとに+X人
   banquetBonus?: number;           // 宴会ありなら+X人
 }
 
+// 日の種別（平日・日曜祝日・休前日祝前日）
+export type DayType = 'weekday' | 'holiday' | 'holiday_eve';
+
+// 必要人数テンプレート（平日・休前日・繁忙期・閑散期など）
+export interface RequirementTemplate {
+  id: string;
+  name: string;
+  dayType?: DayType;               // カレンダーで割り当てていない日に、この日種別なら使う
+  displayOrder: number;
+}
+
+// テンプレートの時間帯×役職ごとの必要人数
+export interface RequirementTemplateItem {
+  id: string;
+  templateId: string;
+  timeSlotId: string;
+  position: Position;
+  requiredCount: number;
+  buildingId?: string;             // 対象の館（未設定の場合は全館）
+  roomOccupancyBonus?: number;
+  banquetBonus?: number;
+}
+
+// 日付へのテンプレートの割り当て
+export interface RequirementTemplateAssignment {
+  id: string;
+  date: string;                    // 'YYYY-MM-DD'
+  templateId: string;
+}
+
 // スタッフの勤務可能時間（曜日別）
 export interface StaffAvailability {
   id: string;
@@ -166,6 +237,10 @@ export interface StaffWorkLimit {
   maxHoursPerWeek: number;         // 週40時間など
   maxHoursPerMonth: number;        // 月160時間など
   maxConsecutiveDays: number;      // 連続5日まで
+  minRestHours: number;            // 勤務間インターバル（前日の終業から翌日の始業まで、11時間など）
+  minHoursPerWeek: number;         // 週の最低労働時間（パート・契約社員の保証時間、0は指定なし）
+  minHoursPerMonth: number;        // 月の最低労働時間（0は指定なし）
+  minDaysPerMonth: number;         // 月の最低勤務日数（0は指定なし）
 }
 
 // 希望休・不可日設定
@@ -179,6 +254,14 @@ export interface StaffUnavailableDate {
   status: 'pending' | 'approved' | 'rejected';
 }
 
+// 出勤希望日（月間の勤務希望で「出勤したい」とした日）
+export interface StaffWorkRequest {
+  id: string;
+  staffId: string;
+  date: string;                    // 'YYYY-MM-DD'
+  note?: string;
+}
+
 // スタッフアサイン優先度設定
 export interface StaffPriority {
   id: string;
@@ -192,6 +275,37 @@ export interface StaffPriority {
   customWeight: number;            // 手動調整の重み
 }
 
+// スタッフの兼務スキル（主担当の役職は Staff.position）
+export interface StaffSkill {
+  id: string;
+  staffId: string;
+  position: Position;
+  proficiency: number;             // 1-3 (1: 補助, 2: 単独対応可, 3: 指導可)
+}
+
+// スタッフ間のペアルール
+// mentor: 研修中のスタッフ（staffId）は指導担当（pairStaffId）が同じ役職で勤務している時間帯のみ配置する
+// avoid: 2人を同じ時間帯に配置しない（向きは問わない）
+export type StaffPairRuleType = 'mentor' | 'avoid';
+
+export interface StaffPairRule {
+  id: string;
+  staffId: string;
+  pairStaffId: string;
+  ruleType: StaffPairRuleType;
+}
+
+// ベテランの最低配置人数（時間帯×役職ごと）
+// 信頼度・勤続期間のいずれかの基準を満たすスタッフを「ベテラン」とし、この人数以上を配置する
+export interface SeniorCoverageRule {
+  id: string;
+  timeSlotId: string;
+  position: Position;
+  minCount: number;                // ベテランの最低人数
+  minTrustScore?: number;          // 信頼度がこの値以上（未設定の場合は信頼度で判定しない）
+  minTenureMonths?: number;        // 勤続月数がこの値以上（未設定の場合は勤続期間で判定しない）
+}
+
 // 必須スタッフ設定
 export interface RequiredStaffAssignment {
   id: string;
@@ -232,4 +346,6 @@ export interface DailyOccupancy {
   occupiedRooms: number;           // この館の稼働客室数
   hasBanquet: boolean;
   banquetGuestCount?: number;
+  banquetStartTime?: string;       // 'HH:mm' 宴会の開始時刻
+  banquetEndTime?: string;         // 'HH:mm' 宴会の終了時刻
 }
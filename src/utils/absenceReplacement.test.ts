@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import type { Shift, ShiftAbsence, Staff, StaffSkill, StaffWorkLimit } from '../types';
+import { rankReplacementCandidates, type ReplacementContext } from './absenceReplacement';
+import { buildPairRuleSet } from './staffPairRules';
+
+const member = (id: string, position: string, overrides: Partial<Staff> = {}): Staff => ({
+  id,
+  name: id,
+  position,
+  trustScore: 50,
+  role: 'user',
+  isActive: true,
+  loginId: '',
+  passwordHash: '',
+  email: '',
+  is2faEnabled: false,
+  ...overrides,
+});
+
+const shift = (staffId: string, date: string, overrides: Partial<Shift> = {}): Shift => ({
+  id: `${staffId}-${date}`,
+  staffId,
+  date,
+  position: 'フロント',
+  startTime: '09:00',
+  endTime: '17:00',
+  restBreakMinutes: 0,
+  ...overrides,
+});
+
+// 2026-12-02（水）フロント 9:00〜17:00（実働8時間）の欠勤
+const absence: ShiftAbsence = {
+  id: 'absence',
+  staffId: 'absent',
+  date: '2026-12-02',
+  position: 'フロント',
+  startTime: '09:00',
+  endTime: '17:00',
+  restBreakMinutes: 0,
+  createdAt: '',
+};
+
+const staff = [
+  member('absent', 'フロント'),
+  member('light', 'フロント'),
+  member('busy', 'フロント'),
+  member('helper', '清掃'),
+  member('off', 'フロント'),
+  member('cleaner', '清掃'),
+  member('retired', 'フロント', { isActive: false }),
+];
+
+const skills = new Map<string, StaffSkill>([
+  ['helper-フロント', { id: 'skill', staffId: 'helper', position: 'フロント', proficiency: 2 }],
+]);
+
+const workLimit: StaffWorkLimit = {
+  id: 'limit-busy',
+  staffId: 'busy',
+  maxHoursPerWeek: 20,
+  maxHoursPerMonth: 160,
+  maxConsecutiveDays: 5,
+  minRestHours: 11,
+  minHoursPerWeek: 0,
+  minHoursPerMonth: 0,
+  minDaysPerMonth: 0,
+};
+
+const context = (overrides: Partial<ReplacementContext> = {}): ReplacementContext => ({
+  staff,
+  timeSlots: [],
+  shifts: [shift('busy', '2026-11-30'), shift('busy', '2026-12-01')],
+  skills,
+  availabilities: staff.flatMap((s) =>
+    [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+      id: `${s.id}-${dayOfWeek}`,
+      staffId: s.id,
+      dayOfWeek,
+      isAvailable: true,
+      lastModified: '',
+    }))
+  ),
+  workLimits: new Map([['busy', workLimit]]),
+  unavailableDates: [
+    {
+      id: 'unavailable',
+      staffId: 'off',
+      date: '2026-12-02',
+      unavailableType: 'all_day',
+      status: 'approved',
+    },
+  ],
+  pairRules: buildPairRuleSet([]),
+  ...overrides,
+});
+
+describe('rankReplacementCandidates', () => {
+  it('欠勤したスタッフ・在籍していないスタッフ・スキルのないスタッフを除く', () => {
+    const ids = rankReplacementCandidates(absence, context()).map((c) => c.staffId);
+    expect(ids).not.toContain('absent');
+    expect(ids).not.toContain('retired');
+    expect(ids).not.toContain('cleaner');
+    expect(ids).toHaveLength(4);
+  });
+
+  it('制約違反の少ない順 → 主担当 → 月の労働時間の少ない順に並べる', () => {
+    const candidates = rankReplacementCandidates(absence, context());
+    expect(candidates.map((c) => [c.staffId, c.isPrimary, c.violations.length, c.impact.monthlyHours])).toEqual([
+      ['light', true, 0, 8],
+      ['helper', false, 0, 8],
+      ['off', true, 1, 8],
+      ['busy', true, 1, 16],
+    ]);
+  });
+
+  it('違反する制約を全て返す', () => {
+    const candidates = rankReplacementCandidates(absence, context());
+    const reasons = (staffId: string) =>
+      candidates.find((c) => c.staffId === staffId)!.violations.map((v) => v.reason);
+    expect(reasons('off')).toEqual(['unavailable']);
+    expect(reasons('busy')).toEqual(['weekly_limit']);
+    expect(reasons('light')).toEqual([]);
+  });
+
+  it('勤務後の週・月の労働時間と連続勤務日数を上限と合わせて返す', () => {
+    const busy = rankReplacementCandidates(absence, context()).find((c) => c.staffId === 'busy')!;
+    expect(busy.impact).toEqual({
+      shiftHours: 8,
+      weeklyHours: 24, // 11/30・12/1・12/2（週の開始は 11/29）
+      maxHoursPerWeek: 20,
+      monthlyHours: 16, // 12月分のみ
+      maxHoursPerMonth: 160,
+      consecutiveDays: 3,
+      maxConsecutiveDays: 5,
+    });
+
+    const light = rankReplacementCandidates(absence, context()).find((c) => c.staffId === 'light')!;
+    expect(light.impact).toMatchObject({ weeklyHours: 8, monthlyHours: 8, consecutiveDays: 1 });
+    expect(light.impact.maxHoursPerWeek).toBeUndefined();
+  });
+
+  it('指導担当が不在の研修中のスタッフはペアルールの違反になる', () => {
+    const pairRules = buildPairRuleSet([{ id: 'rule', staffId: 'light', pairStaffId: 'busy', ruleType: 'mentor' }]);
+    const light = rankReplacementCandidates(absence, context({ pairRules })).find((c) => c.staffId === 'light')!;
+    expect(light.violations.map((v) => v.reason)).toEqual(['pair_rule']);
+
+    const mentored = rankReplacementCandidates(
+      absence,
+      context({ pairRules, shifts: [shift('busy', '2026-12-02', { startTime: '08:00', endTime: '18:00' })] })
+    ).find((c) => c.staffId === 'light')!;
+    expect(mentored.violations).toEqual([]);
+  });
+});
@@ -0,0 +1,212 @@
+import type {
+  Shift,
+  ShiftAbsence,
+  Staff,
+  StaffAvailability,
+  StaffSkill,
+  StaffUnavailableDate,
+  StaffWorkLimit,
+  TimeSlot,
+} from '../types';
+import { addDays, endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { calculateShiftHours, shiftCoversTimeSlot } from './helpers';
+import {
+  canAssign,
+  createAccumulatorFromShifts,
+  getAdjacentShifts,
+  getSkillMatch,
+  getWeekStart,
+  isUnavailable,
+  type ConstraintViolation,
+} from './shiftConstraints';
+import { isPairAllowed, type PairRuleSet } from './staffPairRules';
+
+// 欠勤したシフトの代わりのスタッフ探し
+// 登録済みのシフトを全て確定扱いにして、欠勤したシフトを各スタッフに追加した場合の制約違反を
+// 自動シフト生成と同じ判定（スキル・希望休・勤務可能時間・労働時間制約・勤務間インターバル・ペアルール）で調べる
+
+// ========================================
+// 型定義
+// ========================================
+
+// 代わりに勤務した場合の労働時間・連続勤務日数（上限は労働時間制約、未設定の場合は undefined）
+export interface ReplacementImpact {
+  shiftHours: number; // このシフトの実働時間
+  weeklyHours: number; // 勤務後の週の労働時間
+  maxHoursPerWeek?: number;
+  monthlyHours: number; // 勤務後の月の労働時間
+  maxHoursPerMonth?: number;
+  consecutiveDays: number; // 勤務後の連続勤務日数（前後の勤務日を含む）
+  maxConsecutiveDays?: number;
+}
+
+// 代わりのスタッフの候補
+export interface ReplacementCandidate {
+  staffId: string;
+  staffName: string;
+  isPrimary: boolean; // 主担当の役職か（false は兼務スキル）
+  violations: ConstraintViolation[]; // 違反する制約（代わりに入れる場合は空）
+  impact: ReplacementImpact;
+}
+
+// 候補の判定に使うデータ
+export interface ReplacementContext {
+  staff: Staff[];
+  timeSlots: TimeSlot[];
+  shifts: Shift[]; // 登録済みのシフト（欠勤したシフトは除く）
+  skills: Map<string, StaffSkill>;
+  availabilities: StaffAvailability[];
+  workLimits: Map<string, StaffWorkLimit>;
+  unavailableDates: StaffUnavailableDate[];
+  pairRules: PairRuleSet;
+}
+
+// ========================================
+// 欠勤したシフト
+// ========================================
+
+// 欠勤したシフトの内容を、代わりのスタッフのシフトとして作成
+export function createReplacementShift(absence: ShiftAbsence, staffId: string): Shift {
+  return {
+    id: '',
+    staffId,
+    date: absence.date,
+    position: absence.position,
+    startTime: absence.startTime,
+    endTime: absence.endTime,
+    breakStartTime: absence.breakStartTime,
+    breakEndTime: absence.breakEndTime,
+    restBreakStartTime: absence.restBreakStartTime,
+    restBreakMinutes: absence.restBreakMinutes,
+    isStandard: false,
+    isConfirmed: false,
+  };
+}
+
+// 制約の判定用に、欠勤したシフトの勤務時間を時間帯として扱う
+function toTimeSlot(absence: ShiftAbsence): TimeSlot {
+  return {
+    id: '',
+    name: '欠勤したシフト',
+    startTime: absence.startTime,
+    endTime: absence.endTime,
+    breakStartTime: absence.breakStartTime,
+    breakEndTime: absence.breakEndTime,
+    restBreakStartTime: absence.restBreakStartTime,
+    restBreakMinutes: absence.restBreakMinutes,
+    displayOrder: 0,
+    isActive: true,
+  };
+}
+
+// ========================================
+// 候補の判定
+// ========================================
+
+// 指定日を含む連続勤務日数（前後の勤務日を数える）
+function countConsecutiveDays(workDates: Set<string>, date: string): number {
+  let count = 1;
+  for (const step of [-1, 1]) {
+    let next = addDays(parseISO(date), step);
+    while (workDates.has(format(next, 'yyyy-MM-dd'))) {
+      count++;
+      next = addDays(next, step);
+    }
+  }
+  return count;
+}
+
+// 代わりのスタッフの候補（制約違反の少ない順 → 主担当 → 月の労働時間の少ない順）
+export function rankReplacementCandidates(
+  absence: ShiftAbsence,
+  context: ReplacementContext
+): ReplacementCandidate[] {
+  const timeSlot = toTimeSlot(absence);
+  const shiftHours = calculateShiftHours(absence);
+
+  // 月の労働時間は欠勤日の月、週の労働時間・連続勤務日数・勤務間インターバルは前後の月のシフトも含める
+  const monthStart = format(startOfMonth(parseISO(absence.date)), 'yyyy-MM-dd');
+  const monthEnd = format(endOfMonth(parseISO(absence.date)), 'yyyy-MM-dd');
+  const monthShifts = context.shifts.filter((s) => s.date >= monthStart && s.date <= monthEnd);
+  const adjacentShifts = getAdjacentShifts(context.shifts, monthStart, monthEnd);
+
+  // 時間帯指定の希望休は、このシフトが含む時間帯で判定する
+  const coveredTimeSlots = context.timeSlots.filter((ts) =>
+    shiftCoversTimeSlot(createReplacementShift(absence, absence.staffId), ts)
+  );
+
+  return context.staff
+    .filter(
+      (s) => s.isActive && s.id !== absence.staffId && getSkillMatch(s, absence.position, context.skills) > 0
+    )
+    .map((member) => {
+      const accumulator = createAccumulatorFromShifts(member.id, monthShifts, absence.date, adjacentShifts);
+      const check = canAssign(
+        member,
+        absence.date,
+        timeSlot,
+        absence.position,
+        context.skills,
+        context.availabilities,
+        context.workLimits,
+        context.unavailableDates,
+        accumulator,
+        true
+      );
+
+      const violations = [...check.violations];
+      if (
+        !violations.some((v) => v.reason === 'unavailable') &&
+        coveredTimeSlots.some((ts) => isUnavailable(member.id, absence.date, ts.id, context.unavailableDates))
+      ) {
+        violations.push({ reason: 'unavailable', message: '承認済みの希望休です' });
+      }
+
+      // 指導担当・同時配置NGはこの日の登録済みシフトと合わせて判定
+      if (
+        !isPairAllowed(
+          createReplacementShift(absence, member.id),
+          context.shifts.filter((s) => s.date === absence.date),
+          context.pairRules
+        )
+      ) {
+        violations.push({
+          reason: 'pair_rule',
+          message: '指導担当が不在、または同時配置NGのスタッフと重なります',
+        });
+      }
+
+      const workLimit = context.workLimits.get(member.id);
+      const weekKey = `${member.id}-${getWeekStart(parseISO(absence.date))}`;
+      const impact: ReplacementImpact = {
+        shiftHours,
+        weeklyHours: (accumulator.weeklyHours.get(weekKey) || 0) + shiftHours,
+        maxHoursPerWeek: workLimit?.maxHoursPerWeek,
+        monthlyHours: (accumulator.monthlyHours.get(member.id) || 0) + shiftHours,
+        maxHoursPerMonth: workLimit?.maxHoursPerMonth,
+        consecutiveDays: countConsecutiveDays(
+          accumulator.dailyAssignments.get(member.id) || new Set(),
+          absence.date
+        ),
+        maxConsecutiveDays: workLimit?.maxConsecutiveDays,
+      };
+
+      return {
+        staffId: member.id,
+        staffName: member.name,
+        isPrimary: member.position === absence.position,
+        violations,
+        impact,
+      };
+    })
+    .sort((a, b) => {
+      if (a.violations.length !== b.violations.length) {
+        return a.violations.length - b.violations.length;
+      }
+      if (a.isPrimary !== b.isPrimary) return a.isPrimary ? -1 : 1;
+      if (a.impact.monthlyHours !== b.impact.monthlyHours) {
+        return a.impact.monthlyHours - b.impact.monthlyHours;
+      }
+      return a.staffName.localeCompare(b.staffName);
+    });
+}
@@ -6,9 +6,80 @@ import type {
   StaffAvailability,
   StaffWorkLimit,
   StaffUnavailableDate,
+  StaffPriority,
+  StaffSkill,
+  RequiredStaffAssignment,
   DailyOccupancy,
+  PositionMaster,
+  StaffStandardSchedule,
+  StaffWorkRequest,
+  StaffPairRule,
+  SeniorCoverageRule,
+  BreakRule,
 } from '../types';
-import { addDays, parseISO, format, getDay, differenceInDays } from 'date-fns';
+import { addDays, parseISO, format } from 'date-fns';
+import {
+  calculateShiftHours,
+  findRestIntervalViolation,
+  overlapsTimeRange,
+  shiftCoversTimeSlot,
+  DEFAULT_MIN_REST_HOURS,
+} from './helpers';
+import {
+  getTimeSlotDuration,
+  getWeekStart,
+  getSkillMatch,
+  isUnavailable,
+  isWithinAvailableHours,
+  isWithinWeeklyLimit,
+  isWithinMonthlyLimit,
+  isWithinConsecutiveDaysLimit,
+  isWithinRestInterval,
+  isAlreadyAssignedToday,
+  canAssign,
+  createAccumulator,
+  createAccumulatorFromShifts,
+  markWorkDay,
+  updateAccumulator,
+  reservePinnedSlot,
+  reserveAdjacentShifts,
+  type AdjacentShifts,
+  type ConstraintViolation,
+  type StaffWorkAccumulator,
+} from './shiftConstraints';
+import {
+  addDayCategories,
+  buildFairnessReport,
+  countDayCategories,
+  getCategoryLoad,
+  getDayCategories,
+  type FairnessReport,
+} from './shiftFairness';
+import { getRequirementKey } from './requirementTemplates';
+import { buildLaborCostReport, calculateShiftCost, type LaborCostReport } from './laborCost';
+import {
+  buildPreferenceReport,
+  buildStaffPreferences,
+  countWeeklyWorkDays,
+  scorePreference,
+  type PreferenceSatisfaction,
+} from './staffPreferences';
+import {
+  buildPairRuleSet,
+  findPairRuleViolations,
+  isPairAllowed,
+  type PairRuleSet,
+} from './staffPairRules';
+import {
+  buildSeniorCoverageMap,
+  calculateSeniorityScore,
+  countSeniorStaff,
+  describeSeniorCoverageRule,
+  findSeniorCoverageShortfalls,
+  getSeniorCoverageKey,
+  isSeniorStaff,
+} from './seniorCoverage';
+import { applyBreakRules, findBreakCoverageGaps, resolveBreakRules, scheduleRestBreaks } from './restBreaks';
 
 // ========================================
 // 型定義
@@ -20,9 +91,73 @@ export interface ShortageReport {
   timeSlotId: string;
   timeSlotName: string;
   position: string;
+  buildingId?: string; // 館別の必要人数の場合の館
   requiredCount: number;
   assignedCount: number;
   shortageCount: number;
+  candidates: ShortageCandidate[]; // 対応できるスタッフと割り当てできなかった理由（違反の少ない順）
+  closestCandidate?: ShortageCandidate; // 最も割り当てに近いスタッフ（違反が最も少ない）
+}
+
+// 制約違反の警告
+export interface ConstraintWarning {
+  type:
+    | 'pinned_violation' // 必須スタッフ設定が制約に違反
+    | 'rest_interval' // 勤務間インターバル不足
+    | 'next_month' // 翌月の登録済みシフトが月末の勤務と合わせて制約に違反
+    | 'pair_rule' // 必須スタッフ設定・既存シフトが指導担当・同時配置NGのルールに違反
+    | 'senior_coverage' // 時間帯×役職のベテランの最低人数を満たせない
+    | 'break_coverage'; // 同じ役職の全員が同時に休憩している
+  date: string;
+  timeSlotId: string;
+  timeSlotName: string;
+  position: string;
+  staffId: string;
+  message: string;
+}
+
+// 不足枠に対する候補スタッフ（割り当てできなかった理由付き）
+export interface ShortageCandidate {
+  staffId: string;
+  staffName: string;
+  isPrimary: boolean; // 主担当の役職か（false は兼務スキル）
+  violations: ConstraintViolation[];
+}
+
+// 最低労働時間・勤務日数に満たないスタッフ
+export interface UnderAllocationReport {
+  staffId: string;
+  staffName: string;
+  type: 'weekly_hours' | 'monthly_hours' | 'monthly_days';
+  weekStart?: string; // 週の最低労働時間の場合の週の開始日（日曜日）
+  target: number; // 最低値
+  actual: number; // 生成後の実績
+}
+
+// シフト生成の入力データ一式
+export interface ShiftGenerationInput {
+  year: number;
+  month: number; // 1-12
+  staff: Staff[];
+  timeSlots: TimeSlot[];
+  requirements: DailyStaffRequirement[];
+  availabilities: StaffAvailability[];
+  workLimits: StaffWorkLimit[];
+  unavailableDates: StaffUnavailableDate[];
+  occupancies: DailyOccupancy[];
+  priorities: StaffPriority[];
+  requiredAssignments: RequiredStaffAssignment[];
+  skills: StaffSkill[];
+  existingShifts: Shift[]; // 維持する既存シフト（空き埋めモード、それ以外は空）
+  pastShifts: Shift[]; // 土日祝・夜勤の公平性の集計に含める対象月より前のシフト
+  holidays: string[]; // 祝日（yyyy-MM-dd）
+  positions: PositionMaster[]; // 宴会の追加人数の設定に使う役職マスタ
+  adjacentShifts: AdjacentShifts; // 対象月の前後の登録済みシフト（月をまたぐ制約の判定に含める）
+  standardSchedules: StaffStandardSchedule[]; // 標準勤務パターン（希望曜日・開始時刻などをソフト制約として使う）
+  workRequests: StaffWorkRequest[]; // 出勤希望日
+  pairRules: StaffPairRule[]; // 研修中スタッフの指導担当・同時配置NG
+  seniorCoverageRules: SeniorCoverageRule[]; // 時間帯×役職ごとのベテランの最低人数
+  breakRules: BreakRule[]; // 休憩ルール（空の場合は既定値）
 }
 
 // 生成結果
@@ -30,431 +165,1144 @@ export interface GenerationResult {
   success: boolean;
   shifts: Shift[];
   shortages: ShortageReport[];
+  warnings: ConstraintWarning[];
+  underAllocations: UnderAllocationReport[];
+  fairness: FairnessReport[]; // 土日祝・夜勤の担当回数（過去のシフトを含む集計期間）
+  laborCost: LaborCostReport; // 対象月の人件費の見込みと予算
+  preferences: PreferenceSatisfaction[]; // スタッフごとの勤務希望の満足度
   message: string;
 }
 
-// スタッフの累積労働情報
-interface StaffWorkAccumulator {
-  weeklyHours: Map<string, number>; // staffId -> 週の累積時間
-  monthlyHours: Map<string, number>; // staffId -> 月の累積時間
-  consecutiveDays: Map<string, number>; // staffId -> 連続勤務日数
-  lastWorkDate: Map<string, string | null>; // staffId -> 最後の勤務日
-  dailyAssignments: Map<string, Set<string>>; // staffId -> Set<date> その日に割り当て済み
+// 生成の進捗
+export interface GenerationProgress {
+  phase: 'assign' | 'optimize'; // 日付順の割り当て / 最適化
+  completed: number; // 処理済みの日数（最適化は反復回数）
+  total: number;
+  shortageCount: number; // 現時点の不足人数
 }
 
+export type GenerationProgressCallback = (progress: GenerationProgress) => void;
+
 // ========================================
 // ヘルパー関数
 // ========================================
 
-// 時間帯の長さを計算（時間単位）
-function getTimeSlotDuration(timeSlot: TimeSlot): number {
-  const [startHour, startMin] = timeSlot.startTime.split(':').map(Number);
-  const [endHour, endMin] = timeSlot.endTime.split(':').map(Number);
-  const startMinutes = startHour * 60 + startMin;
-  const endMinutes = endHour * 60 + endMin;
-  return (endMinutes - startMinutes) / 60;
-}
-
-// 週の開始日を取得（日曜日）
-function getWeekStart(date: Date): string {
-  const dayOfWeek = getDay(date);
-  const weekStart = addDays(date, -dayOfWeek);
-  return format(weekStart, 'yyyy-MM-dd');
+// 時間帯からシフトを作成（中抜け勤務の場合は中抜け時間も引き継ぐ）
+export function createShiftFromTimeSlot(
+  staffId: string,
+  date: string,
+  position: string,
+  timeSlot: TimeSlot
+): Shift {
+  return {
+    id: `${staffId}-${date}-${timeSlot.id}`,
+    staffId,
+    date,
+    position,
+    startTime: timeSlot.startTime,
+    endTime: timeSlot.endTime,
+    breakStartTime: timeSlot.breakStartTime,
+    breakEndTime: timeSlot.breakEndTime,
+    restBreakStartTime: timeSlot.restBreakStartTime,
+    restBreakMinutes: timeSlot.restBreakMinutes,
+    isStandard: false,
+    isConfirmed: false,
+    isCompleted: false,
+  };
 }
 
 // ========================================
-// 制約チェック関数
+// 優先度計算関数
 // ========================================
 
-// 希望休チェック
-function isUnavailable(
-  staffId: string,
-  date: string,
-  timeSlotId: string,
-  unavailableDates: StaffUnavailableDate[]
-): boolean {
-  const unavailable = unavailableDates.filter(
-    (u) => u.staffId === staffId && u.date === date && u.status === 'approved'
-  );
+export interface StaffPriorityScore {
+  staff: Staff;
+  score: number;
+  skillMatch: number; // スキル適合度
+  priorityBlend: number; // 優先度設定の加重スコア
+  consecutiveDays: number; // 連続勤務日数
+  monthlyHours: number; // 月の累積労働時間
+  categoryLoad: number; // この枠と同じ種類（土日祝・夜勤）の担当回数
+  shiftCost: number; // この枠の人件費（時給未設定は0円）
+  preferenceScore: number; // 勤務希望への合い具合（0-100）
+}
 
-  for (const u of unavailable) {
-    if (u.unavailableType === 'all_day') {
-      return true;
-    }
-    if (u.unavailableType === 'time_slot' && u.timeSlotIds?.includes(timeSlotId)) {
-      return true;
-    }
+// 貪欲法で候補スタッフを並べる基準
+export type CandidateRanking = 'priority' | 'trust' | 'fairness' | 'cost';
+
+// 基準ごとの比較関数（先頭のスタッフから割り当てる）
+const CANDIDATE_COMPARATORS: Record<
+  CandidateRanking,
+  (a: StaffPriorityScore, b: StaffPriorityScore) => number
+> = {
+  // 同じ条件のスタッフは勤務希望に合う順 → 人件費の安い順
+  // 優先度設定: スキル適合度 → 優先度設定・連続勤務回避・土日祝夜勤の偏り回避・勤務希望 → 月の累積労働時間（総合スコア順）
+  priority: (a, b) => b.score - a.score || a.shiftCost - b.shiftCost,
+  // 信頼度順: スキル適合度 → 信頼度 → 月の累積労働時間が少ない順
+  trust: (a, b) =>
+    b.skillMatch - a.skillMatch ||
+    b.staff.trustScore - a.staff.trustScore ||
+    a.categoryLoad - b.categoryLoad ||
+    a.monthlyHours - b.monthlyHours ||
+    b.preferenceScore - a.preferenceScore ||
+    a.shiftCost - b.shiftCost ||
+    a.staff.id.localeCompare(b.staff.id),
+  // 公平性重視: スキル適合度 → 土日祝・夜勤の担当回数が少ない順 → 月の累積労働時間が少ない順 → 連続勤務日数が少ない順 → 優先度設定
+  fairness: (a, b) =>
+    b.skillMatch - a.skillMatch ||
+    a.categoryLoad - b.categoryLoad ||
+    a.monthlyHours - b.monthlyHours ||
+    a.consecutiveDays - b.consecutiveDays ||
+    b.priorityBlend - a.priorityBlend ||
+    b.preferenceScore - a.preferenceScore ||
+    a.shiftCost - b.shiftCost,
+  // 人件費重視: スキル適合度 → 人件費が安い順 → 土日祝・夜勤の担当回数が少ない順 → 月の累積労働時間が少ない順 → 優先度設定
+  cost: (a, b) =>
+    b.skillMatch - a.skillMatch ||
+    a.shiftCost - b.shiftCost ||
+    a.categoryLoad - b.categoryLoad ||
+    a.monthlyHours - b.monthlyHours ||
+    b.preferenceScore - a.preferenceScore ||
+    b.priorityBlend - a.priorityBlend,
+};
+
+// 優先度設定が未登録の場合の既定値（staff_priorityテーブルのDEFAULTと同じ）
+export const DEFAULT_STAFF_PRIORITY: Omit<StaffPriority, 'id' | 'staffId' | 'position'> = {
+  priorityScore: 50,
+  trustScoreWeight: 0.4,
+  seniorityWeight: 0.3,
+  customWeight: 0.3,
+};
+
+// 優先度設定の加重平均を計算（0-100）
+// date: 経験年数（入社日からの勤続期間）の基準日
+export function calculatePriorityBlend(
+  staff: Staff,
+  priority: Omit<StaffPriority, 'id' | 'staffId' | 'position'> | undefined,
+  date: string
+): number {
+  const setting = priority || DEFAULT_STAFF_PRIORITY;
+  const totalWeight = setting.trustScoreWeight + setting.seniorityWeight + setting.customWeight;
+
+  // 重みが全て0の場合は手動スコアをそのまま使う
+  if (totalWeight <= 0) {
+    return setting.priorityScore;
   }
-  return false;
+
+  return (
+    staff.trustScore * setting.trustScoreWeight +
+    calculateSeniorityScore(staff, date) * setting.seniorityWeight +
+    setting.priorityScore * setting.customWeight
+  ) / totalWeight;
 }
 
-// 勤務可能時間チェック
-function isWithinAvailableHours(
-  staffId: string,
+function calculatePriority(
+  staff: Staff,
+  position: string,
   date: string,
-  timeSlot: TimeSlot,
-  availabilities: StaffAvailability[]
-): boolean {
-  const dayOfWeek = getDay(parseISO(date));
-  const availability = availabilities.find(
-    (a) => a.staffId === staffId && a.dayOfWeek === dayOfWeek
-  );
+  skills: Map<string, StaffSkill>,
+  priorities: Map<string, StaffPriority>,
+  accumulator: StaffWorkAccumulator,
+  categoryLoad: number,
+  shiftCost: number,
+  preferenceScore: number
+): StaffPriorityScore {
+  // 1. スキル適合度（主担当100、兼務は習熟度に応じて40-80）
+  const skillMatch = getSkillMatch(staff, position, skills);
 
-  if (!availability || !availability.isAvailable) {
-    return false;
-  }
+  // 2. 優先度設定（信頼度・経験年数・手動調整の加重平均、高いほど優先）
+  const priorityBlend = calculatePriorityBlend(staff, priorities.get(`${staff.id}-${position}`), date);
 
-  if (!availability.availableStartTime || !availability.availableEndTime) {
-    return true; // 時間指定なし = 終日可能
-  }
+  // 3. 連続勤務日数（少ないほど優先）
+  const consecutiveDays = accumulator.consecutiveDays.get(staff.id) || 0;
+  const consecutiveScore = Math.max(0, 100 - consecutiveDays * 20);
 
-  // 時間帯が勤務可能時間内かチェック
-  const availStart = availability.availableStartTime;
-  const availEnd = availability.availableEndTime;
-  const slotStart = timeSlot.startTime;
-  const slotEnd = timeSlot.endTime;
+  // 4. 月の累積労働時間（少ないほど優先）
+  const monthlyHours = accumulator.monthlyHours.get(staff.id) || 0;
+  const monthlyScore = Math.max(0, 100 - monthlyHours / 2);
 
-  return slotStart >= availStart && slotEnd <= availEnd;
-}
+  // 5. 土日祝・夜勤の担当回数（集計期間内、少ないほど優先）
+  const categoryScore = Math.max(0, 100 - categoryLoad * 10);
 
-// 週の労働時間上限チェック
-function isWithinWeeklyLimit(
-  staffId: string,
-  date: string,
-  duration: number,
-  workLimit: StaffWorkLimit | undefined,
-  accumulator: StaffWorkAccumulator
-): boolean {
-  if (!workLimit) return true;
-
-  const weekStart = getWeekStart(parseISO(date));
-  const currentWeeklyHours = accumulator.weeklyHours.get(`${staffId}-${weekStart}`) || 0;
-  return currentWeeklyHours + duration <= workLimit.maxHoursPerWeek;
-}
+  // 6. 勤務希望（希望曜日・開始時刻・出勤希望日などに合うほど優先）は呼び出し側で算出
 
-// 月の労働時間上限チェック
-function isWithinMonthlyLimit(
-  staffId: string,
-  duration: number,
-  workLimit: StaffWorkLimit | undefined,
-  accumulator: StaffWorkAccumulator
-): boolean {
-  if (!workLimit) return true;
+  // 優先度計算: スキル適合度 → 優先度設定・連続勤務回避・土日祝夜勤の偏り回避・勤務希望 → 月の累積労働時間
+  // スキル適合度を最優先（重み1000）、優先度設定と連続勤務回避と土日祝夜勤と勤務希望（重み100）、累積時間（重み1）
+  const score =
+    skillMatch * 1000 +
+    priorityBlend * 100 +
+    consecutiveScore * 100 +
+    categoryScore * 100 +
+    preferenceScore * 100 +
+    monthlyScore;
 
-  const currentMonthlyHours = accumulator.monthlyHours.get(staffId) || 0;
-  return currentMonthlyHours + duration <= workLimit.maxHoursPerMonth;
+  return {
+    staff,
+    score,
+    skillMatch,
+    priorityBlend,
+    consecutiveDays,
+    monthlyHours,
+    categoryLoad,
+    shiftCost,
+    preferenceScore,
+  };
 }
 
-// 連続勤務日数上限チェック
-function isWithinConsecutiveDaysLimit(
-  staffId: string,
-  date: string,
-  workLimit: StaffWorkLimit | undefined,
+// ========================================
+// 必須スタッフ設定の確保
+// ========================================
+
+// 必須スタッフ設定の労働時間を先に確保し、設定自体の制約違反を検出
+function reserveRequiredAssignments(
+  assignments: RequiredStaffAssignment[],
+  staff: Staff[],
+  timeSlots: TimeSlot[],
+  skills: Map<string, StaffSkill>,
+  availabilities: StaffAvailability[],
+  workLimits: Map<string, StaffWorkLimit>,
+  unavailableDates: StaffUnavailableDate[],
+  adjacentShifts: AdjacentShifts,
   accumulator: StaffWorkAccumulator
-): boolean {
-  if (!workLimit) return true;
+): { reserved: RequiredStaffAssignment[]; warnings: ConstraintWarning[] } {
+  const reserved: RequiredStaffAssignment[] = [];
+  const warnings: ConstraintWarning[] = [];
+
+  // 必須スタッフ設定（と前後の月のシフト）だけで制約をチェックするための累積情報
+  const pinnedOnly = createAccumulator();
+  reserveAdjacentShifts(adjacentShifts, pinnedOnly);
+
+  const sorted = [...assignments].sort((a, b) => {
+    if (a.date !== b.date) return a.date.localeCompare(b.date);
+    const aSlot = timeSlots.find((ts) => ts.id === a.timeSlotId);
+    const bSlot = timeSlots.find((ts) => ts.id === b.timeSlotId);
+    return (aSlot?.displayOrder || 0) - (bSlot?.displayOrder || 0);
+  });
+
+  for (const assignment of sorted) {
+    const member = staff.find((s) => s.id === assignment.staffId);
+    const timeSlot = timeSlots.find((ts) => ts.id === assignment.timeSlotId);
+    const warn = (message: string) => {
+      warnings.push({
+        type: 'pinned_violation',
+        date: assignment.date,
+        timeSlotId: assignment.timeSlotId,
+        timeSlotName: timeSlot?.name || '',
+        position: assignment.position,
+        staffId: assignment.staffId,
+        message,
+      });
+    };
+
+    if (!member || !timeSlot) {
+      warn('スタッフまたは時間帯が無効なため配置できません');
+      continue;
+    }
 
-  const lastDate = accumulator.lastWorkDate.get(staffId);
-  if (!lastDate) return true; // 初回の割り当て
+    const duration = getTimeSlotDuration(timeSlot);
+    const workLimit = workLimits.get(member.id);
 
-  const currentConsecutiveDays = accumulator.consecutiveDays.get(staffId) || 0;
-  const daysDiff = differenceInDays(parseISO(date), parseISO(lastDate));
+    // 設定自体の制約違反をチェック（違反していても必須のため配置する）
+    if (getSkillMatch(member, assignment.position, skills) === 0) {
+      warn('この役職のスキルが登録されていません');
+    }
+    if (isUnavailable(member.id, assignment.date, timeSlot.id, unavailableDates)) {
+      warn('承認済みの希望休と重なっています');
+    }
+    if (!isWithinAvailableHours(member.id, assignment.date, timeSlot, availabilities)) {
+      warn('勤務可能時間外です');
+    }
+    if (isAlreadyAssignedToday(member.id, assignment.date, pinnedOnly)) {
+      warn('同じ日に複数の必須スタッフ設定があります');
+    }
+    if (!isWithinWeeklyLimit(member.id, assignment.date, duration, workLimit, pinnedOnly)) {
+      warn(`週の労働時間上限（${workLimit?.maxHoursPerWeek}h）を超えます`);
+    }
+    if (!isWithinMonthlyLimit(member.id, duration, workLimit, pinnedOnly)) {
+      warn(`月の労働時間上限（${workLimit?.maxHoursPerMonth}h）を超えます`);
+    }
+    if (!isWithinConsecutiveDaysLimit(member.id, assignment.date, workLimit, pinnedOnly)) {
+      warn(`連続勤務日数上限（${workLimit?.maxConsecutiveDays}日）を超えます`);
+    }
+    if (!isWithinRestInterval(member.id, assignment.date, timeSlot, workLimit, pinnedOnly)) {
+      warnings.push({
+        type: 'rest_interval',
+        date: assignment.date,
+        timeSlotId: assignment.timeSlotId,
+        timeSlotName: timeSlot.name,
+        position: assignment.position,
+        staffId: assignment.staffId,
+        message: `前後の勤務との間隔が勤務間インターバル（${workLimit?.minRestHours ?? DEFAULT_MIN_REST_HOURS}時間）未満です`,
+      });
+    }
+    updateAccumulator(member.id, assignment.date, timeSlot, pinnedOnly);
 
-  // 1日空いている場合は連続勤務がリセット
-  if (daysDiff > 1) {
-    return true;
+    // 労働時間を確保し、その日は他の時間帯に割り当てないようにする
+    reservePinnedSlot(member.id, assignment.date, timeSlot, accumulator);
+
+    reserved.push(assignment);
   }
 
-  // 連続している場合はカウントをチェック
-  return currentConsecutiveDays < workLimit.maxConsecutiveDays;
+  return { reserved, warnings };
 }
 
-// 同日複数時間帯チェック
-function isAlreadyAssignedToday(
-  staffId: string,
+// ========================================
+// 必要人数の計算
+// ========================================
+
+// 日付の稼働状況（館を指定した場合はその館のみ、指定しない場合は全館）
+function getDateOccupancies(date: string, occupancies: DailyOccupancy[], buildingId?: string): DailyOccupancy[] {
+  return occupancies.filter((o) => o.date === date && (!buildingId || o.buildingId === buildingId));
+}
+
+// 客室稼働率（複数の館は客室数で加重平均、稼働状況がない場合は undefined）
+export function aggregateOccupancyRate(occupancies: DailyOccupancy[]): number | undefined {
+  if (occupancies.length === 0) return undefined;
+  const totalRooms = occupancies.reduce((sum, o) => sum + o.totalRooms, 0);
+  if (totalRooms <= 0) {
+    return occupancies.reduce((sum, o) => sum + o.roomOccupancyRate, 0) / occupancies.length;
+  }
+  return occupancies.reduce((sum, o) => sum + o.roomOccupancyRate * o.totalRooms, 0) / totalRooms;
+}
+
+// 時間帯に重なる宴会（時刻が未入力の宴会は全時間帯に重なるものとして扱う）
+function getOverlappingBanquets(
   date: string,
-  accumulator: StaffWorkAccumulator
-): boolean {
-  const assignments = accumulator.dailyAssignments.get(staffId);
-  return assignments ? assignments.has(date) : false;
+  occupancies: DailyOccupancy[],
+  timeSlot?: TimeSlot,
+  buildingId?: string
+): DailyOccupancy[] {
+  return getDateOccupancies(date, occupancies, buildingId).filter(
+    (o) =>
+      o.hasBanquet &&
+      (!timeSlot ||
+        !o.banquetStartTime ||
+        !o.banquetEndTime ||
+        overlapsTimeRange(timeSlot, o.banquetStartTime, o.banquetEndTime))
+  );
 }
 
-// 全ての制約をチェック
-function canAssign(
-  staff: Staff,
+// 宴会客数による役職の追加人数（宴会客N人につき+1人、端数切り上げ）
+function calculateBanquetStaffing(position: PositionMaster | undefined, banquets: DailyOccupancy[]): number {
+  if (!position || position.banquetGuestsPerStaff <= 0) return 0;
+  const guestCount = banquets.reduce((sum, o) => sum + (o.banquetGuestCount || 0), 0);
+  return Math.ceil(guestCount / position.banquetGuestsPerStaff);
+}
+
+// 稼働率・宴会による変動を含めた必要人数を計算
+// 館を指定した枠はその館の稼働状況、全館の枠は全館の稼働状況を使う
+// 時間帯を渡した場合、宴会の加算は宴会の時間に重なる時間帯のみに適用する
+export function calculateRequiredCount(
+  req: DailyStaffRequirement,
   date: string,
-  timeSlot: TimeSlot,
-  position: string,
-  availabilities: StaffAvailability[],
-  workLimits: Map<string, StaffWorkLimit>,
-  unavailableDates: StaffUnavailableDate[],
-  accumulator: StaffWorkAccumulator
-): boolean {
-  // 役職が一致するか
-  if (staff.position !== position) {
-    return false;
+  occupancies: DailyOccupancy[],
+  timeSlot?: TimeSlot,
+  positions: PositionMaster[] = []
+): number {
+  let requiredCount = req.requiredCount;
+
+  if (req.roomOccupancyBonus) {
+    const occupancyRate = aggregateOccupancyRate(getDateOccupancies(date, occupancies, req.buildingId));
+    if (occupancyRate !== undefined) {
+      const occupancyBonus = Math.floor(occupancyRate / 10) * (req.roomOccupancyBonus || 0);
+      requiredCount += occupancyBonus;
+    }
   }
 
-  // 希望休チェック
-  if (isUnavailable(staff.id, date, timeSlot.id, unavailableDates)) {
-    return false;
+  const banquets = getOverlappingBanquets(date, occupancies, timeSlot, req.buildingId);
+  if (banquets.length > 0) {
+    if (req.banquetBonus) {
+      requiredCount += req.banquetBonus;
+    }
+    requiredCount += calculateBanquetStaffing(
+      positions.find((p) => p.name === req.position),
+      banquets
+    );
   }
 
-  // 勤務可能時間チェック
-  if (!isWithinAvailableHours(staff.id, date, timeSlot, availabilities)) {
-    return false;
-  }
+  return requiredCount;
+}
 
-  // 同日複数時間帯チェック
-  if (isAlreadyAssignedToday(staff.id, date, accumulator)) {
-    return false;
+// 宴会の追加人数がある時間帯・役職で必要人数の設定がない枠を、全館・0人の設定として補う
+// （補った枠の必要人数は calculateRequiredCount で宴会の追加人数になる）
+export function addBanquetRequirements(
+  requirements: DailyStaffRequirement[],
+  occupancies: DailyOccupancy[],
+  positions: PositionMaster[],
+  timeSlots: TimeSlot[]
+): DailyStaffRequirement[] {
+  // 館別の設定を含め、同じ時間帯・役職の設定がある枠には補わない
+  const existing = new Set(requirements.map((r) => getRequirementKey(r.date, r.timeSlotId, r.position)));
+  const added: DailyStaffRequirement[] = [];
+  const banquetDates = [...new Set(occupancies.filter((o) => o.hasBanquet).map((o) => o.date))];
+
+  for (const date of banquetDates) {
+    for (const timeSlot of timeSlots.filter((ts) => ts.isActive)) {
+      const banquets = getOverlappingBanquets(date, occupancies, timeSlot);
+      for (const position of positions.filter((p) => p.isActive)) {
+        const key = getRequirementKey(date, timeSlot.id, position.name);
+        if (existing.has(key) || calculateBanquetStaffing(position, banquets) === 0) continue;
+        added.push({
+          id: `banquet-${key}`,
+          date,
+          position: position.name,
+          timeSlotId: timeSlot.id,
+          requiredCount: 0,
+        });
+      }
+    }
   }
 
-  const duration = getTimeSlotDuration(timeSlot);
-  const workLimit = workLimits.get(staff.id);
+  return [...requirements, ...added];
+}
+
+// 館別の必要人数
+// 所属館の必要人数（1人以上）がある枠では、所属館のスタッフはその館の枠に数える
+// 館別の枠には所属館のスタッフのみ割り当て、全館の枠には所属館の枠に数えないスタッフを割り当てる
+
+// スタッフの勤務を数える館（全館の枠に数える場合は undefined）
+export function getStaffRequirementBuilding(
+  staff: Pick<Staff, 'homeBuildingId'> | undefined,
+  scopedBuildingIds: Set<string> | undefined // 必要人数がある館別の枠の館
+): string | undefined {
+  const homeBuildingId = staff?.homeBuildingId;
+  return homeBuildingId && scopedBuildingIds?.has(homeBuildingId) ? homeBuildingId : undefined;
+}
+
+// ========================================
+// 最低労働時間
+// ========================================
 
-  // 週の労働時間上限チェック
-  if (!isWithinWeeklyLimit(staff.id, date, duration, workLimit, accumulator)) {
-    return false;
+// 月内に全日が含まれる週の開始日（日曜日）一覧
+// 月をまたぐ週は対象月外の勤務が分からないため、週の最低労働時間の判定から除く
+function getFullWeekStarts(startDateStr: string, endDateStr: string): string[] {
+  const weekStarts: string[] = [];
+  for (let d = parseISO(startDateStr); format(d, 'yyyy-MM-dd') <= endDateStr; d = addDays(d, 1)) {
+    const dateStr = format(d, 'yyyy-MM-dd');
+    if (getWeekStart(d) === dateStr && format(addDays(d, 6), 'yyyy-MM-dd') <= endDateStr) {
+      weekStarts.push(dateStr);
+    }
   }
+  return weekStarts;
+}
 
-  // 月の労働時間上限チェック
-  if (!isWithinMonthlyLimit(staff.id, duration, workLimit, accumulator)) {
-    return false;
+// スタッフの労働時間・勤務日数の実績
+function summarizeStaffWork(staffId: string, shifts: Shift[]) {
+  const staffShifts = shifts.filter((s) => s.staffId === staffId);
+  const weeklyHours = new Map<string, number>();
+  for (const shift of staffShifts) {
+    const weekStart = getWeekStart(parseISO(shift.date));
+    weeklyHours.set(weekStart, (weeklyHours.get(weekStart) || 0) + calculateShiftHours(shift));
   }
+  return {
+    monthlyHours: staffShifts.reduce((sum, s) => sum + calculateShiftHours(s), 0),
+    workDays: new Set(staffShifts.map((s) => s.date)).size,
+    weeklyHours,
+  };
+}
 
-  // 連続勤務日数上限チェック
-  if (!isWithinConsecutiveDaysLimit(staff.id, date, workLimit, accumulator)) {
-    return false;
+// 最低労働時間・勤務日数に満たないスタッフを一覧にする
+export function findUnderAllocations(
+  staff: Staff[],
+  workLimits: Map<string, StaffWorkLimit>,
+  shifts: Shift[], // 対象月のシフト（維持する既存シフトを含む）
+  startDateStr: string,
+  endDateStr: string
+): UnderAllocationReport[] {
+  const reports: UnderAllocationReport[] = [];
+  const fullWeekStarts = getFullWeekStarts(startDateStr, endDateStr);
+
+  for (const member of staff.filter((s) => s.isActive)) {
+    const limit = workLimits.get(member.id);
+    if (!limit) continue;
+
+    const work = summarizeStaffWork(member.id, shifts);
+    const report = (type: UnderAllocationReport['type'], target: number, actual: number, weekStart?: string) =>
+      reports.push({ staffId: member.id, staffName: member.name, type, weekStart, target, actual });
+
+    if (limit.minHoursPerMonth > 0 && work.monthlyHours < limit.minHoursPerMonth) {
+      report('monthly_hours', limit.minHoursPerMonth, work.monthlyHours);
+    }
+    if (limit.minDaysPerMonth > 0 && work.workDays < limit.minDaysPerMonth) {
+      report('monthly_days', limit.minDaysPerMonth, work.workDays);
+    }
+    if (limit.minHoursPerWeek > 0) {
+      for (const weekStart of fullWeekStarts) {
+        const hours = work.weeklyHours.get(weekStart) || 0;
+        if (hours < limit.minHoursPerWeek) {
+          report('weekly_hours', limit.minHoursPerWeek, hours, weekStart);
+        }
+      }
+    }
   }
 
-  return true;
+  return reports;
+}
+
+// 必要人数を満たした後、最低労働時間に満たないスタッフへシフトを追加する
+// 対応できる役職の必要人数設定がある枠に、制約を満たす範囲で日付・時間帯順に追加（必要人数を超える配置になる）
+function fillMinimumHours(
+  staff: Staff[],
+  timeSlots: TimeSlot[],
+  requirements: DailyStaffRequirement[],
+  shifts: Shift[], // 生成済みのシフト（追加分はここに加える）
+  existingShifts: Shift[],
+  skills: Map<string, StaffSkill>,
+  availabilities: StaffAvailability[],
+  workLimits: Map<string, StaffWorkLimit>,
+  unavailableDates: StaffUnavailableDate[],
+  adjacentShifts: AdjacentShifts,
+  pairRules: PairRuleSet,
+  startDateStr: string,
+  endDateStr: string
+): void {
+  const fullWeekStarts = new Set(getFullWeekStarts(startDateStr, endDateStr));
+
+  for (const member of staff.filter((s) => s.isActive)) {
+    const limit = workLimits.get(member.id);
+    if (!limit || (limit.minHoursPerMonth <= 0 && limit.minDaysPerMonth <= 0 && limit.minHoursPerWeek <= 0)) {
+      continue;
+    }
+
+    for (let d = parseISO(startDateStr); format(d, 'yyyy-MM-dd') <= endDateStr; d = addDays(d, 1)) {
+      const dateStr = format(d, 'yyyy-MM-dd');
+      const allShifts = [...existingShifts, ...shifts];
+      const work = summarizeStaffWork(member.id, allShifts);
+      const weekStart = getWeekStart(d);
+
+      const needsMore =
+        work.monthlyHours < limit.minHoursPerMonth ||
+        work.workDays < limit.minDaysPerMonth ||
+        (fullWeekStarts.has(weekStart) && (work.weeklyHours.get(weekStart) || 0) < limit.minHoursPerWeek);
+      if (!needsMore) continue;
+
+      const accumulator = createAccumulatorFromShifts(member.id, allShifts, dateStr, adjacentShifts);
+
+      // 主担当の役職の枠を優先して探す
+      const candidates = timeSlots.flatMap((timeSlot) =>
+        requirements
+          .filter(
+            (r) =>
+              r.date === dateStr &&
+              r.timeSlotId === timeSlot.id &&
+              (!r.buildingId || r.buildingId === member.homeBuildingId) &&
+              getSkillMatch(member, r.position, skills) > 0
+          )
+          .map((r) => ({ timeSlot, position: r.position }))
+      );
+      candidates.sort((a, b) => Number(b.position === member.position) - Number(a.position === member.position));
+
+      const dayShifts = allShifts.filter((s) => s.date === dateStr);
+      const slot = candidates.find(
+        (c) =>
+          isPairAllowed(createShiftFromTimeSlot(member.id, dateStr, c.position, c.timeSlot), dayShifts, pairRules) &&
+          canAssign(
+            member,
+            dateStr,
+            c.timeSlot,
+            c.position,
+            skills,
+            availabilities,
+            workLimits,
+            unavailableDates,
+            accumulator
+          ).allowed
+      );
+      if (slot) {
+        shifts.push(createShiftFromTimeSlot(member.id, dateStr, slot.position, slot.timeSlot));
+      }
+    }
+  }
 }
 
 // ========================================
-// 優先度計算関数
+// 不足理由の分析
 // ========================================
 
-interface StaffPriorityScore {
-  staff: Staff;
-  score: number;
-  skillMatch: number; // スキル適合度
-  consecutiveDays: number; // 連続勤務日数
-  monthlyHours: number; // 月の累積労働時間
+// 不足理由の分析に使うデータ
+export interface ShortageExplanationContext {
+  staff: Staff[];
+  timeSlots: TimeSlot[];
+  shifts: Shift[]; // 生成結果と維持する既存シフト
+  skills: Map<string, StaffSkill>;
+  availabilities: StaffAvailability[];
+  workLimits: Map<string, StaffWorkLimit>;
+  unavailableDates: StaffUnavailableDate[];
+  adjacentShifts: AdjacentShifts; // 対象月の前後のシフト
+  pairRules: PairRuleSet; // 指導担当・同時配置NG
 }
 
-function calculatePriority(
-  staff: Staff,
-  position: string,
-  accumulator: StaffWorkAccumulator
-): StaffPriorityScore {
-  // 1. スキル適合度（役職が一致している前提なので100）
-  const skillMatch = staff.position === position ? 100 : 0;
+// 不足枠ごとに、対応できるスタッフがなぜ割り当てられなかったかを調べる
+// 生成後のシフトを全て確定扱いにして、その枠へ追加した場合の制約違反を全て列挙する
+export function explainShortages(
+  shortages: Omit<ShortageReport, 'candidates' | 'closestCandidate'>[],
+  context: ShortageExplanationContext
+): ShortageReport[] {
+  const activeStaff = context.staff.filter((s) => s.isActive);
+
+  return shortages.map((shortage) => {
+    const timeSlot = context.timeSlots.find((ts) => ts.id === shortage.timeSlotId);
+    if (!timeSlot) {
+      return { ...shortage, candidates: [] };
+    }
 
-  // 2. 連続勤務日数（少ないほど優先）
-  const consecutiveDays = accumulator.consecutiveDays.get(staff.id) || 0;
-  const consecutiveScore = Math.max(0, 100 - consecutiveDays * 20);
+    // 館別の枠は所属館のスタッフのみ対象
+    const candidates: ShortageCandidate[] = activeStaff
+      .filter(
+        (s) =>
+          getSkillMatch(s, shortage.position, context.skills) > 0 &&
+          (!shortage.buildingId || s.homeBuildingId === shortage.buildingId)
+      )
+      .map((member) => {
+        // このスタッフの確定済みシフトを累積情報に反映
+        const accumulator = createAccumulatorFromShifts(
+          member.id,
+          context.shifts,
+          shortage.date,
+          context.adjacentShifts
+        );
 
-  // 3. 月の累積労働時間（少ないほど優先）
-  const monthlyHours = accumulator.monthlyHours.get(staff.id) || 0;
-  const monthlyScore = Math.max(0, 100 - monthlyHours / 2);
+        const check = canAssign(
+          member,
+          shortage.date,
+          timeSlot,
+          shortage.position,
+          context.skills,
+          context.availabilities,
+          context.workLimits,
+          context.unavailableDates,
+          accumulator,
+          true
+        );
 
-  // 優先度計算: スキル適合度 → 連続勤務回避 → 月の累積労働時間
-  // スキル適合度を最優先（重み1000）、連続勤務回避（重み100）、累積時間（重み1）
-  const score = skillMatch * 1000 + consecutiveScore * 100 + monthlyScore;
+        // 指導担当・同時配置NGはこの日の確定済みシフトと合わせて判定
+        const violations = [...check.violations];
+        if (
+          !isPairAllowed(
+            createShiftFromTimeSlot(member.id, shortage.date, shortage.position, timeSlot),
+            context.shifts.filter((s) => s.date === shortage.date),
+            context.pairRules
+          )
+        ) {
+          violations.push({
+            reason: 'pair_rule',
+            message: '指導担当が不在、または同時配置NGのスタッフと重なります',
+          });
+        }
 
-  return {
-    staff,
-    score,
-    skillMatch,
-    consecutiveDays,
-    monthlyHours,
-  };
+        return {
+          staffId: member.id,
+          staffName: member.name,
+          isPrimary: member.position === shortage.position,
+          violations,
+        };
+      })
+      .sort((a, b) => {
+        if (a.violations.length !== b.violations.length) {
+          return a.violations.length - b.violations.length;
+        }
+        if (a.isPrimary !== b.isPrimary) return a.isPrimary ? -1 : 1;
+        return a.staffName.localeCompare(b.staffName);
+      });
+
+    return { ...shortage, candidates, closestCandidate: candidates[0] };
+  });
 }
 
 // ========================================
-// 累積情報の更新
+// 翌月のシフトの検証
 // ========================================
 
-function updateAccumulator(
-  staffId: string,
-  date: string,
-  duration: number,
-  accumulator: StaffWorkAccumulator
-): void {
-  // 週の労働時間を更新
-  const weekStart = getWeekStart(parseISO(date));
-  const weekKey = `${staffId}-${weekStart}`;
-  const currentWeeklyHours = accumulator.weeklyHours.get(weekKey) || 0;
-  accumulator.weeklyHours.set(weekKey, currentWeeklyHours + duration);
-
-  // 月の労働時間を更新
-  const currentMonthlyHours = accumulator.monthlyHours.get(staffId) || 0;
-  accumulator.monthlyHours.set(staffId, currentMonthlyHours + duration);
-
-  // 連続勤務日数を更新
-  const lastDate = accumulator.lastWorkDate.get(staffId);
-  if (lastDate) {
-    const daysDiff = differenceInDays(parseISO(date), parseISO(lastDate));
-    if (daysDiff === 1) {
-      // 連続している
-      const currentConsecutive = accumulator.consecutiveDays.get(staffId) || 0;
-      accumulator.consecutiveDays.set(staffId, currentConsecutive + 1);
-    } else {
-      // 連続がリセット
-      accumulator.consecutiveDays.set(staffId, 1);
+// 翌月初めの登録済みシフトが、対象月末の勤務と合わせて制約に違反していないか検証
+// 連続勤務日数・週の労働時間は月をまたぐ場合、勤務間インターバルは対象月のシフトとの間のみ対象にする
+export function validateFollowingShifts(
+  shifts: Shift[], // 対象月のシフト（生成結果と維持する既存シフト）
+  adjacentShifts: AdjacentShifts,
+  workLimits: Map<string, StaffWorkLimit>,
+  endDateStr: string
+): ConstraintWarning[] {
+  const warnings: ConstraintWarning[] = [];
+  const reported = new Set<string>();
+  const warn = (shift: Shift, key: string, message: string) => {
+    // 同じスタッフの同じ違反は最初の日だけ報告
+    if (reported.has(`${shift.staffId}-${key}`)) return;
+    reported.add(`${shift.staffId}-${key}`);
+    warnings.push({
+      type: 'next_month',
+      date: shift.date,
+      timeSlotId: '',
+      timeSlotName: `${shift.startTime.slice(0, 5)}〜${shift.endTime.slice(0, 5)}`,
+      position: shift.position,
+      staffId: shift.staffId,
+      message,
+    });
+  };
+
+  const following = [...adjacentShifts.following].sort((a, b) => a.date.localeCompare(b.date));
+  for (const shift of following) {
+    const workLimit = workLimits.get(shift.staffId);
+    const otherShifts = [...shifts, ...following].filter((s) => s.staffId === shift.staffId && s !== shift);
+    const accumulator = createAccumulatorFromShifts(shift.staffId, otherShifts, shift.date, {
+      preceding: adjacentShifts.preceding,
+      following: [],
+    });
+
+    if (
+      getWeekStart(parseISO(shift.date)) <= endDateStr &&
+      !isWithinWeeklyLimit(shift.staffId, shift.date, calculateShiftHours(shift), workLimit, accumulator)
+    ) {
+      warn(shift, 'weekly', `月をまたぐ週の労働時間上限（${workLimit?.maxHoursPerWeek}h）を超えます`);
+    }
+
+    // 月末から途切れずに勤務が続いている場合のみ連続勤務日数を確認
+    const workDates = new Set(otherShifts.map((s) => s.date));
+    let continuesFromMonth = true;
+    for (let d = parseISO(endDateStr); format(d, 'yyyy-MM-dd') < shift.date; d = addDays(d, 1)) {
+      if (!workDates.has(format(d, 'yyyy-MM-dd'))) continuesFromMonth = false;
+    }
+    if (continuesFromMonth && !isWithinConsecutiveDaysLimit(shift.staffId, shift.date, workLimit, accumulator)) {
+      warn(shift, 'consecutive', `月末からの連続勤務日数上限（${workLimit?.maxConsecutiveDays}日）を超えます`);
     }
-  } else {
-    // 初回
-    accumulator.consecutiveDays.set(staffId, 1);
-  }
-  accumulator.lastWorkDate.set(staffId, date);
 
-  // その日に割り当て済みとしてマーク
-  if (!accumulator.dailyAssignments.has(staffId)) {
-    accumulator.dailyAssignments.set(staffId, new Set());
+    const minRestHours = workLimit?.minRestHours ?? DEFAULT_MIN_REST_HOURS;
+    if (findRestIntervalViolation(shift, shifts, minRestHours)) {
+      warn(shift, `rest-${shift.date}`, `月末の勤務との間隔が勤務間インターバル（${minRestHours}時間）未満です`);
+    }
   }
-  accumulator.dailyAssignments.get(staffId)!.add(date);
+
+  return warnings;
 }
 
 // ========================================
-// メイン生成関数
+// ペアルールの検証
 // ========================================
 
-export async function generateMonthlyShift(
-  year: number,
-  month: number, // 1-12
+// 必須スタッフ設定・既存シフトを含めた結果が、指導担当・同時配置NGのルールに違反していないか検証
+export function validatePairRules(shifts: Shift[], staff: Staff[], pairRules: PairRuleSet): ConstraintWarning[] {
+  return findPairRuleViolations(shifts, staff, pairRules).map((violation) => ({
+    type: 'pair_rule',
+    date: violation.shift.date,
+    timeSlotId: '',
+    timeSlotName: `${violation.shift.startTime.slice(0, 5)}〜${violation.shift.endTime.slice(0, 5)}`,
+    position: violation.shift.position,
+    staffId: violation.shift.staffId,
+    message: violation.message,
+  }));
+}
+
+// 時間帯×役職のベテランの最低人数を満たしていない枠を警告に変換
+export function validateSeniorCoverage(
+  shifts: Shift[],
   staff: Staff[],
   timeSlots: TimeSlot[],
-  requirements: DailyStaffRequirement[],
-  availabilities: StaffAvailability[],
-  workLimits: StaffWorkLimit[],
-  unavailableDates: StaffUnavailableDate[],
-  occupancies: DailyOccupancy[]
+  rules: SeniorCoverageRule[]
+): ConstraintWarning[] {
+  return findSeniorCoverageShortfalls(shifts, staff, timeSlots, rules).map((shortfall) => ({
+    type: 'senior_coverage',
+    date: shortfall.date,
+    timeSlotId: shortfall.timeSlot.id,
+    timeSlotName: shortfall.timeSlot.name,
+    position: shortfall.position,
+    staffId: '',
+    message: `ベテラン（${describeSeniorCoverageRule(shortfall.rule)}）が${shortfall.seniorCount}人しか配置されていません`,
+  }));
+}
+
+// 同じ役職の全員が同時に休憩している時間帯を警告に変換
+export function validateBreakCoverage(shifts: Shift[]): ConstraintWarning[] {
+  return findBreakCoverageGaps(shifts).map((gap) => ({
+    type: 'break_coverage',
+    date: gap.date,
+    timeSlotId: '',
+    timeSlotName: `${gap.startTime}〜${gap.endTime}`,
+    position: gap.position,
+    staffId: '',
+    message: `勤務中の${gap.staffCount}人全員が同時に休憩しています`,
+  }));
+}
+
+// ========================================
+// メイン生成関数
+// ========================================
+
+export async function generateMonthlyShift(
+  input: ShiftGenerationInput,
+  ranking: CandidateRanking = 'priority',
+  onProgress?: GenerationProgressCallback
 ): Promise<GenerationResult> {
+  const {
+    year,
+    month,
+    staff,
+    timeSlots,
+    requirements,
+    availabilities,
+    workLimits,
+    unavailableDates,
+    occupancies,
+    priorities,
+    requiredAssignments,
+    skills,
+    existingShifts,
+    pastShifts,
+    holidays,
+    positions,
+    adjacentShifts,
+    standardSchedules,
+    workRequests,
+    pairRules,
+    seniorCoverageRules,
+    breakRules,
+  } = input;
   const shifts: Shift[] = [];
-  const shortages: ShortageReport[] = [];
+  const shortages: Omit<ShortageReport, 'candidates' | 'closestCandidate'>[] = [];
 
   // 累積情報の初期化
-  const accumulator: StaffWorkAccumulator = {
-    weeklyHours: new Map(),
-    monthlyHours: new Map(),
-    consecutiveDays: new Map(),
-    lastWorkDate: new Map(),
-    dailyAssignments: new Map(),
-  };
+  const accumulator = createAccumulator();
 
   // workLimitsをMapに変換
   const workLimitsMap = new Map<string, StaffWorkLimit>();
   workLimits.forEach((wl) => workLimitsMap.set(wl.staffId, wl));
 
+  // prioritiesをMapに変換（キー: staffId-position）
+  const prioritiesMap = new Map<string, StaffPriority>();
+  priorities.forEach((p) => prioritiesMap.set(`${p.staffId}-${p.position}`, p));
+
+  // skillsをMapに変換（キー: staffId-position）
+  const skillsMap = new Map<string, StaffSkill>();
+  skills.forEach((sk) => skillsMap.set(`${sk.staffId}-${sk.position}`, sk));
+
   // アクティブなスタッフのみ
   const activeStaff = staff.filter((s) => s.isActive);
 
-  // アクティブな時間帯のみ（表示順でソート）
+  // アクティブな時間帯のみ（表示順でソート、労働時間は休憩ルールの休憩を除いて計算する）
+  const resolvedBreakRules = resolveBreakRules(breakRules);
   const activeTimeSlots = timeSlots
     .filter((ts) => ts.isActive)
-    .sort((a, b) => a.displayOrder - b.displayOrder);
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .map((ts) => applyBreakRules(ts, resolvedBreakRules));
+
+  // 宴会の追加人数がある枠を必要人数に加える
+  const allRequirements = addBanquetRequirements(requirements, occupancies, positions, activeTimeSlots);
 
   // 月の開始日と終了日を取得
   const startDate = new Date(year, month - 1, 1);
   const endDate = new Date(year, month, 0);
+  const startDateStr = format(startDate, 'yyyy-MM-dd');
+  const endDateStr = format(endDate, 'yyyy-MM-dd');
+
+  // 前後の月のシフトを確保（前月末からの連続勤務日数・月をまたぐ週の労働時間・勤務間インターバル）
+  reserveAdjacentShifts(adjacentShifts, accumulator);
+
+  // 既存シフト（空き埋めモード）を固定として先に確保
+  const monthExistingShifts = existingShifts.filter(
+    (s) => s.date >= startDateStr && s.date <= endDateStr
+  );
+  for (const shift of monthExistingShifts) {
+    reservePinnedSlot(shift.staffId, shift.date, shift, accumulator);
+  }
+
+  // 土日祝・夜勤の担当回数（過去のシフト・既存シフトから集計し、割り当てのたびに加算）
+  const holidaySet = new Set(holidays);
+  const monthPastShifts = pastShifts.filter((s) => s.date < startDateStr);
+  const categoryCounts = countDayCategories([...monthPastShifts, ...monthExistingShifts], holidaySet);
+
+  // 勤務希望（対象月の出勤希望日のみ）
+  const preferences = buildStaffPreferences(
+    standardSchedules,
+    workRequests.filter((r) => r.date >= startDateStr && r.date <= endDateStr)
+  );
+
+  // 指導担当・同時配置NG
+  const pairRuleSet = buildPairRuleSet(pairRules);
+
+  // 時間帯×役職ごとのベテランの最低人数
+  const seniorCoverageMap = buildSeniorCoverageMap(seniorCoverageRules);
+
+  // 必須スタッフ設定を先に確保（既存シフトがある日のスタッフは既存シフトを優先し、配置しなかったことを警告）
+  const monthAssignments = requiredAssignments.filter((r) => r.date >= startDateStr && r.date <= endDateStr);
+  const hasExistingShift = (r: RequiredStaffAssignment) =>
+    monthExistingShifts.some((s) => s.staffId === r.staffId && s.date === r.date);
+  const { reserved: pinnedAssignments, warnings } = reserveRequiredAssignments(
+    monthAssignments.filter((r) => !hasExistingShift(r)),
+    staff,
+    activeTimeSlots,
+    skillsMap,
+    availabilities,
+    workLimitsMap,
+    unavailableDates,
+    adjacentShifts,
+    accumulator
+  );
+  for (const assignment of monthAssignments.filter(hasExistingShift)) {
+    warnings.push({
+      type: 'pinned_violation',
+      date: assignment.date,
+      timeSlotId: assignment.timeSlotId,
+      timeSlotName: activeTimeSlots.find((ts) => ts.id === assignment.timeSlotId)?.name || '',
+      position: assignment.position,
+      staffId: assignment.staffId,
+      message: '同じ日に既存シフトがあるため配置しませんでした',
+    });
+  }
 
   // 日付順・時間帯順でループ
   for (let d = new Date(startDate); d <= endDate; d = addDays(d, 1)) {
     const dateStr = format(d, 'yyyy-MM-dd');
 
+    // この日の既存シフトを勤務日として記録
+    const dateExistingShifts = monthExistingShifts.filter((s) => s.date === dateStr);
+    new Set(dateExistingShifts.map((s) => s.staffId)).forEach((staffId) =>
+      markWorkDay(staffId, dateStr, accumulator)
+    );
+
+    // この日の必須スタッフを配置
+    const datePinned = pinnedAssignments.filter((p) => p.date === dateStr);
+    for (const pinned of datePinned) {
+      const timeSlot = activeTimeSlots.find((ts) => ts.id === pinned.timeSlotId)!;
+      shifts.push(createShiftFromTimeSlot(pinned.staffId, dateStr, pinned.position, timeSlot));
+      markWorkDay(pinned.staffId, dateStr, accumulator);
+      addDayCategories(categoryCounts, pinned.staffId, getDayCategories(dateStr, timeSlot, holidaySet));
+    }
+
     for (const timeSlot of activeTimeSlots) {
+      const slotCategories = getDayCategories(dateStr, timeSlot, holidaySet);
+
       // この日・時間帯の必要人数を取得
-      const dayRequirements = requirements.filter(
+      const dayRequirements = allRequirements.filter(
         (r) => r.date === dateStr && r.timeSlotId === timeSlot.id
       );
 
-      for (const req of dayRequirements) {
-        let requiredCount = req.requiredCount;
+      // 稼働率・宴会による変動を計算
+      const slotRequirements = dayRequirements.map((req) => ({
+        position: req.position,
+        buildingId: req.buildingId,
+        requiredCount: calculateRequiredCount(req, dateStr, occupancies, timeSlot, positions),
+        assignedCount: 0,
+      }));
+
+      // 役職ごとの必要人数がある館別の枠の館
+      const scopedBuildings = new Map<string, Set<string>>();
+      for (const slotReq of slotRequirements) {
+        if (!slotReq.buildingId || slotReq.requiredCount <= 0) continue;
+        if (!scopedBuildings.has(slotReq.position)) scopedBuildings.set(slotReq.position, new Set());
+        scopedBuildings.get(slotReq.position)!.add(slotReq.buildingId);
+      }
+      const isInRequirementBuilding = (
+        staffId: string,
+        slotReq: { position: string; buildingId?: string }
+      ) =>
+        getStaffRequirementBuilding(
+          staff.find((s) => s.id === staffId),
+          scopedBuildings.get(slotReq.position)
+        ) === slotReq.buildingId;
+
+      for (const slotReq of slotRequirements) {
+        // 必須スタッフとして配置済みの人数を割り当て済みとして数える
+        const pinnedCount = datePinned.filter(
+          (p) =>
+            p.timeSlotId === timeSlot.id &&
+            p.position === slotReq.position &&
+            isInRequirementBuilding(p.staffId, slotReq)
+        ).length;
+
+        // この時間帯をカバーする既存シフトも割り当て済みとして数える
+        const existingCount = dateExistingShifts.filter(
+          (s) =>
+            s.position === slotReq.position &&
+            shiftCoversTimeSlot(s, timeSlot) &&
+            isInRequirementBuilding(s.staffId, slotReq)
+        ).length;
+
+        slotReq.assignedCount = pinnedCount + existingCount;
+      }
 
-        // 稼働率による変動を計算
-        if (req.roomOccupancyBonus || req.banquetBonus) {
-          const occupancy = occupancies.find((o) => o.date === dateStr);
-          if (occupancy) {
-            if (req.roomOccupancyBonus) {
-              const occupancyBonus = Math.floor(occupancy.roomOccupancyRate / 10) * (req.roomOccupancyBonus || 0);
-              requiredCount += occupancyBonus;
+      // 主担当のスタッフで先に埋め、不足分を兼務スキルを持つスタッフで補う
+      for (const useSecondary of [false, true]) {
+        for (const slotReq of slotRequirements) {
+          const remainingCount = slotReq.requiredCount - slotReq.assignedCount;
+          if (remainingCount <= 0) continue;
+
+          // 割り当て可能なスタッフを抽出
+          const candidates = activeStaff.filter((s) =>
+            (s.position !== slotReq.position) === useSecondary &&
+            isInRequirementBuilding(s.id, slotReq) &&
+            canAssign(
+              s,
+              dateStr,
+              timeSlot,
+              slotReq.position,
+              skillsMap,
+              availabilities,
+              workLimitsMap,
+              unavailableDates,
+              accumulator
+            ).allowed
+          );
+
+          // 選択した基準でソート
+          const prioritized = candidates
+            .map((s) =>
+              calculatePriority(
+                s,
+                slotReq.position,
+                dateStr,
+                skillsMap,
+                prioritiesMap,
+                accumulator,
+                getCategoryLoad(categoryCounts.get(s.id), slotCategories),
+                calculateShiftCost(s, dateStr, timeSlot, holidaySet),
+                scorePreference(
+                  preferences.get(s.id),
+                  dateStr,
+                  timeSlot,
+                  countWeeklyWorkDays(accumulator.dailyAssignments.get(s.id) || [], dateStr)
+                )
+              )
+            )
+            .sort(CANDIDATE_COMPARATORS[ranking]);
+
+          // 必要人数分を割り当て
+          // ベテランの最低人数に満たない間はベテランから選ぶ
+          // 研修中のスタッフは指導担当の配置後に選び、同時配置NGの相手と重なるスタッフは除く
+          const seniorRule = seniorCoverageMap.get(getSeniorCoverageKey(timeSlot.id, slotReq.position));
+          let newlyAssignedCount = 0;
+          while (newlyAssignedCount < remainingCount) {
+            const dayShifts = [...dateExistingShifts, ...shifts.filter((s) => s.date === dateStr)];
+            const isAllowed = (p: StaffPriorityScore) =>
+              isPairAllowed(
+                createShiftFromTimeSlot(p.staff.id, dateStr, slotReq.position, timeSlot),
+                dayShifts,
+                pairRuleSet
+              );
+            const needsSenior =
+              seniorRule !== undefined &&
+              countSeniorStaff(dayShifts, staff, seniorRule, timeSlot, dateStr) < seniorRule.minCount;
+            const seniorIndex = needsSenior
+              ? prioritized.findIndex((p) => isSeniorStaff(p.staff, seniorRule, dateStr) && isAllowed(p))
+              : -1;
+            let index = seniorIndex >= 0 ? seniorIndex : prioritized.findIndex(isAllowed);
+
+            // 最上位が指導担当を待つ研修中のスタッフで2人以上の枠が残っている場合は、指導担当を先に選ぶ
+            const top = prioritized[0];
+            const topMentors = top && pairRuleSet.mentors.get(top.staff.id);
+            if (seniorIndex < 0 && index > 0 && topMentors && remainingCount - newlyAssignedCount >= 2) {
+              const mentorIndex = prioritized.findIndex((p) => topMentors.has(p.staff.id) && isAllowed(p));
+              if (mentorIndex > 0) index = mentorIndex;
             }
-            if (req.banquetBonus && occupancy.hasBanquet) {
-              requiredCount += req.banquetBonus;
-            }
-          }
-        }
-
-        // 割り当て可能なスタッフを抽出
-        const candidates = activeStaff.filter((s) =>
-          canAssign(
-            s,
-            dateStr,
-            timeSlot,
-            req.position,
-            availabilities,
-            workLimitsMap,
-            unavailableDates,
-            accumulator
-          )
-        );
-
-        // 優先度でソート
-        const prioritized = candidates
-          .map((s) => calculatePriority(s, req.position, accumulator))
-          .sort((a, b) => b.score - a.score);
+            if (index < 0) break;
+            const selected = prioritized.splice(index, 1)[0].staff;
 
-        // 必要人数分を割り当て
-        const assignedCount = Math.min(requiredCount, prioritized.length);
+            // シフトを作成
+            shifts.push(createShiftFromTimeSlot(selected.id, dateStr, slotReq.position, timeSlot));
 
-        for (let i = 0; i < assignedCount; i++) {
-          const selected = prioritized[i].staff;
-          const duration = getTimeSlotDuration(timeSlot);
-
-          // シフトを作成
-          shifts.push({
-            id: `${selected.id}-${dateStr}-${timeSlot.id}`,
-            staffId: selected.id,
-            date: dateStr,
-            position: req.position,
-            startTime: timeSlot.startTime,
-            endTime: timeSlot.endTime,
-            isStandard: false,
-            isConfirmed: false,
-            isCompleted: false,
-          });
+            // 累積情報を更新
+            updateAccumulator(selected.id, dateStr, timeSlot, accumulator);
+            addDayCategories(categoryCounts, selected.id, slotCategories);
+            newlyAssignedCount++;
+          }
 
-          // 累積情報を更新
-          updateAccumulator(selected.id, dateStr, duration, accumulator);
+          slotReq.assignedCount += newlyAssignedCount;
         }
+      }
 
-        // 不足がある場合はレポートに追加
-        if (assignedCount < requiredCount) {
+      // 不足がある場合はレポートに追加
+      for (const slotReq of slotRequirements) {
+        if (slotReq.assignedCount < slotReq.requiredCount) {
           shortages.push({
             date: dateStr,
             timeSlotId: timeSlot.id,
             timeSlotName: timeSlot.name,
-            position: req.position,
-            requiredCount,
-            assignedCount,
-            shortageCount: requiredCount - assignedCount,
+            position: slotReq.position,
+            buildingId: slotReq.buildingId,
+            requiredCount: slotReq.requiredCount,
+            assignedCount: slotReq.assignedCount,
+            shortageCount: slotReq.requiredCount - slotReq.assignedCount,
           });
         }
       }
     }
+
+    onProgress?.({
+      phase: 'assign',
+      completed: d.getDate(),
+      total: endDate.getDate(),
+      shortageCount: shortages.reduce((sum, s) => sum + s.shortageCount, 0),
+    });
   }
 
+  // 必要人数を満たした後、最低労働時間に満たないスタッフへシフトを追加
+  fillMinimumHours(
+    staff,
+    activeTimeSlots,
+    allRequirements,
+    shifts,
+    monthExistingShifts,
+    skillsMap,
+    availabilities,
+    workLimitsMap,
+    unavailableDates,
+    adjacentShifts,
+    pairRuleSet,
+    startDateStr,
+    endDateStr
+  );
+  shifts.sort((a, b) => a.date.localeCompare(b.date));
+
+  // 同じ役職の休憩がなるべく重ならないよう休憩の開始時刻を配置
+  shifts.splice(0, shifts.length, ...scheduleRestBreaks(shifts, monthExistingShifts));
+
+  // 不足枠ごとに割り当てできなかった理由を調べる
+  const explainedShortages = explainShortages(shortages, {
+    staff,
+    timeSlots: activeTimeSlots,
+    shifts: [...monthExistingShifts, ...shifts],
+    skills: skillsMap,
+    availabilities,
+    workLimits: workLimitsMap,
+    unavailableDates,
+    adjacentShifts,
+    pairRules: pairRuleSet,
+  });
+
+  // 翌月初めの登録済みシフトと合わせて制約に違反していないか確認
+  warnings.push(
+    ...validateFollowingShifts([...monthExistingShifts, ...shifts], adjacentShifts, workLimitsMap, endDateStr)
+  );
+
+  // 必須スタッフ設定・既存シフトによる指導担当・同時配置NGの違反を確認
+  warnings.push(...validatePairRules([...monthExistingShifts, ...shifts], staff, pairRuleSet));
+
+  // ベテランの最低人数を満たせなかった枠を確認
+  warnings.push(
+    ...validateSeniorCoverage([...monthExistingShifts, ...shifts], staff, activeTimeSlots, seniorCoverageRules)
+  );
+
+  // 同じ役職の全員が同時に休憩している時間帯を確認
+  warnings.push(...validateBreakCoverage([...monthExistingShifts, ...shifts]));
+
   const success = shortages.length === 0;
+  const keptMessage =
+    monthExistingShifts.length > 0 ? `（既存シフト${monthExistingShifts.length}件を維持）` : '';
   const message = success
-    ? `${year}年${month}月のシフトを正常に生成しました。`
-    : `${year}年${month}月のシフトを生成しましたが、${shortages.length}件の不足があります。`;
+    ? `${year}年${month}月のシフトを正常に生成しました。${keptMessage}`
+    : `${year}年${month}月のシフトを生成しましたが、${shortages.length}件の不足があります。${keptMessage}`;
 
   return {
     success,
     shifts,
-    shortages,
+    shortages: explainedShortages,
+    warnings,
+    underAllocations: findUnderAllocations(
+      staff,
+      workLimitsMap,
+      [...monthExistingShifts, ...shifts],
+      startDateStr,
+      endDateStr
+    ),
+    fairness: buildFairnessReport(staff, [...monthPastShifts, ...monthExistingShifts, ...shifts], holidaySet),
+    laborCost: buildLaborCostReport(staff, [...monthExistingShifts, ...shifts], positions, holidaySet),
+    preferences: buildPreferenceReport(staff, [...monthExistingShifts, ...shifts], preferences),
     message,
   };
 }
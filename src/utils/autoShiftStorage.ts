@@ -1,12 +1,20 @@
 import { supabase } from '../lib/supabase';
 import type {
   TimeSlot,
+  BreakRule,
   DailyStaffRequirement,
+  RequirementTemplate,
+  RequirementTemplateItem,
+  RequirementTemplateAssignment,
   StaffAvailability,
   StaffWorkLimit,
   StaffUnavailableDate,
-  // StaffPriority,
-  // RequiredStaffAssignment,
+  StaffWorkRequest,
+  StaffPriority,
+  StaffSkill,
+  StaffPairRule,
+  SeniorCoverageRule,
+  RequiredStaffAssignment,
   DailyOccupancy,
   Building,
   Room,
@@ -33,6 +41,8 @@ export const timeSlotStorage = {
       name: item.name,
       startTime: item.start_time,
       endTime: item.end_time,
+      breakStartTime: item.break_start_time,
+      breakEndTime: item.break_end_time,
       displayOrder: item.display_order,
       isActive: item.is_active,
     }));
@@ -43,6 +53,8 @@ export const timeSlotStorage = {
       name: timeSlot.name,
       start_time: timeSlot.startTime,
       end_time: timeSlot.endTime,
+      break_start_time: timeSlot.breakStartTime,
+      break_end_time: timeSlot.breakEndTime,
       display_order: timeSlot.displayOrder,
       is_active: timeSlot.isActive,
     });
@@ -58,6 +70,8 @@ export const timeSlotStorage = {
     if (updates.name !== undefined) updateData.name = updates.name;
     if (updates.startTime !== undefined) updateData.start_time = updates.startTime;
     if (updates.endTime !== undefined) updateData.end_time = updates.endTime;
+    if (updates.breakStartTime !== undefined) updateData.break_start_time = updates.breakStartTime || null;
+    if (updates.breakEndTime !== undefined) updateData.break_end_time = updates.breakEndTime || null;
     if (updates.displayOrder !== undefined) updateData.display_order = updates.displayOrder;
     if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
 
@@ -85,6 +99,56 @@ export const timeSlotStorage = {
   },
 };
 
+// ========================================
+// 休憩ルール
+// ========================================
+export const breakRuleStorage = {
+  getAll: async (): Promise<BreakRule[]> => {
+    const { data, error } = await supabase
+      .from('break_rules')
+      .select('*')
+      .order('min_work_hours');
+
+    if (error) {
+      console.error('Error fetching break rules:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      minWorkHours: Number(item.min_work_hours),
+      breakMinutes: item.break_minutes,
+    }));
+  },
+
+  // 休憩ルールをまとめて置き換え
+  replaceAll: async (rules: Omit<BreakRule, 'id'>[]): Promise<void> => {
+    const { error: deleteError } = await supabase
+      .from('break_rules')
+      .delete()
+      .neq('id', '00000000-0000-0000-0000-000000000000');
+
+    if (deleteError) {
+      console.error('Error deleting break rules:', deleteError);
+      throw deleteError;
+    }
+
+    if (rules.length === 0) return;
+
+    const { error } = await supabase.from('break_rules').insert(
+      rules.map(rule => ({
+        min_work_hours: rule.minWorkHours,
+        break_minutes: rule.breakMinutes,
+      }))
+    );
+
+    if (error) {
+      console.error('Error inserting break rules:', error);
+      throw error;
+    }
+  },
+};
+
 // ========================================
 // 役職別必要人数設定
 // ========================================
@@ -108,6 +172,7 @@ export const dailyRequirementStorage = {
       position: item.position,
       timeSlotId: item.time_slot_id,
       requiredCount: item.required_count,
+      buildingId: item.building_id || undefined,
       roomOccupancyBonus: item.room_occupancy_bonus,
       banquetBonus: item.banquet_bonus,
     }));
@@ -130,6 +195,7 @@ export const dailyRequirementStorage = {
       position: item.position,
       timeSlotId: item.time_slot_id,
       requiredCount: item.required_count,
+      buildingId: item.building_id || undefined,
       roomOccupancyBonus: item.room_occupancy_bonus,
       banquetBonus: item.banquet_bonus,
     }));
@@ -141,10 +207,11 @@ export const dailyRequirementStorage = {
       position: requirement.position,
       time_slot_id: requirement.timeSlotId,
       required_count: requirement.requiredCount,
+      building_id: requirement.buildingId || null,
       room_occupancy_bonus: requirement.roomOccupancyBonus,
       banquet_bonus: requirement.banquetBonus,
     }, {
-      onConflict: 'date,position,time_slot_id',
+      onConflict: 'date,position,time_slot_id,building_id',
     });
 
     if (error) {
@@ -154,10 +221,193 @@ export const dailyRequirementStorage = {
   },
 };
 
+// ========================================
+// 必要人数テンプレート
+// ========================================
+export const requirementTemplateStorage = {
+  getAll: async (): Promise<RequirementTemplate[]> => {
+    const { data, error } = await supabase
+      .from('requirement_templates')
+      .select('*')
+      .order('display_order');
+
+    if (error) {
+      console.error('Error fetching requirement templates:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      name: item.name,
+      dayType: item.day_type || undefined,
+      displayOrder: item.display_order,
+    }));
+  },
+
+  add: async (template: Omit<RequirementTemplate, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('requirement_templates').insert({
+      name: template.name,
+      day_type: template.dayType || null,
+      display_order: template.displayOrder,
+    });
+
+    if (error) {
+      console.error('Error adding requirement template:', error);
+      throw error;
+    }
+  },
+
+  update: async (id: string, updates: Partial<RequirementTemplate>): Promise<void> => {
+    const updateData: Record<string, unknown> = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if ('dayType' in updates) updateData.day_type = updates.dayType || null;
+    if (updates.displayOrder !== undefined) updateData.display_order = updates.displayOrder;
+
+    const { error } = await supabase
+      .from('requirement_templates')
+      .update(updateData)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating requirement template:', error);
+      throw error;
+    }
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('requirement_templates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting requirement template:', error);
+      throw error;
+    }
+  },
+
+  getItems: async (templateId?: string): Promise<RequirementTemplateItem[]> => {
+    let query = supabase.from('requirement_template_items').select('*');
+    if (templateId) {
+      query = query.eq('template_id', templateId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching requirement template items:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      templateId: item.template_id,
+      timeSlotId: item.time_slot_id,
+      position: item.position,
+      requiredCount: item.required_count,
+      buildingId: item.building_id || undefined,
+      roomOccupancyBonus: item.room_occupancy_bonus,
+      banquetBonus: item.banquet_bonus,
+    }));
+  },
+
+  upsertItem: async (item: Omit<RequirementTemplateItem, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('requirement_template_items').upsert({
+      template_id: item.templateId,
+      time_slot_id: item.timeSlotId,
+      position: item.position,
+      required_count: item.requiredCount,
+      building_id: item.buildingId || null,
+      room_occupancy_bonus: item.roomOccupancyBonus,
+      banquet_bonus: item.banquetBonus,
+    }, {
+      onConflict: 'template_id,time_slot_id,position,building_id',
+    });
+
+    if (error) {
+      console.error('Error upserting requirement template item:', error);
+      throw error;
+    }
+  },
+};
+
+// ========================================
+// 必要人数テンプレートの割り当て
+// ========================================
+export const requirementTemplateAssignmentStorage = {
+  getByDateRange: async (startDate: string, endDate: string): Promise<RequirementTemplateAssignment[]> => {
+    const { data, error } = await supabase
+      .from('requirement_template_assignments')
+      .select('*')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date');
+
+    if (error) {
+      console.error('Error fetching requirement template assignments:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      date: item.date,
+      templateId: item.template_id,
+    }));
+  },
+
+  // 複数の日付にまとめて割り当て（既に割り当てがある日は置き換え）
+  assign: async (dates: string[], templateId: string): Promise<void> => {
+    const { error } = await supabase.from('requirement_template_assignments').upsert(
+      dates.map(date => ({ date, template_id: templateId })),
+      { onConflict: 'date' }
+    );
+
+    if (error) {
+      console.error('Error assigning requirement template:', error);
+      throw error;
+    }
+  },
+
+  // 割り当てを解除（日種別の既定テンプレートに戻す）
+  unassign: async (dates: string[]): Promise<void> => {
+    const { error } = await supabase
+      .from('requirement_template_assignments')
+      .delete()
+      .in('date', dates);
+
+    if (error) {
+      console.error('Error unassigning requirement template:', error);
+      throw error;
+    }
+  },
+};
+
 // ========================================
 // スタッフの勤務可能時間
 // ========================================
 export const staffAvailabilityStorage = {
+  getAll: async (): Promise<StaffAvailability[]> => {
+    const { data, error } = await supabase
+      .from('staff_availability')
+      .select('*')
+      .order('day_of_week');
+
+    if (error) {
+      console.error('Error fetching staff availability:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      dayOfWeek: item.day_of_week,
+      isAvailable: item.is_available,
+      availableStartTime: item.available_start_time,
+      availableEndTime: item.available_end_time,
+      lastModified: item.last_modified,
+    }));
+  },
+
   getByStaffId: async (staffId: string): Promise<StaffAvailability[]> => {
     const { data, error } = await supabase
       .from('staff_availability')
@@ -204,6 +454,29 @@ export const staffAvailabilityStorage = {
 // スタッフの労働時間制約
 // ========================================
 export const staffWorkLimitStorage = {
+  getAll: async (): Promise<StaffWorkLimit[]> => {
+    const { data, error } = await supabase
+      .from('staff_work_limits')
+      .select('*');
+
+    if (error) {
+      console.error('Error fetching staff work limits:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      maxHoursPerWeek: item.max_hours_per_week,
+      maxHoursPerMonth: item.max_hours_per_month,
+      maxConsecutiveDays: item.max_consecutive_days,
+      minRestHours: item.min_rest_hours,
+      minHoursPerWeek: item.min_hours_per_week,
+      minHoursPerMonth: item.min_hours_per_month,
+      minDaysPerMonth: item.min_days_per_month,
+    }));
+  },
+
   getByStaffId: async (staffId: string): Promise<StaffWorkLimit | null> => {
     const { data, error } = await supabase
       .from('staff_work_limits')
@@ -219,6 +492,10 @@ export const staffWorkLimitStorage = {
       maxHoursPerWeek: data.max_hours_per_week,
       maxHoursPerMonth: data.max_hours_per_month,
       maxConsecutiveDays: data.max_consecutive_days,
+      minRestHours: data.min_rest_hours,
+      minHoursPerWeek: data.min_hours_per_week,
+      minHoursPerMonth: data.min_hours_per_month,
+      minDaysPerMonth: data.min_days_per_month,
     };
   },
 
@@ -228,6 +505,10 @@ export const staffWorkLimitStorage = {
       max_hours_per_week: limit.maxHoursPerWeek,
       max_hours_per_month: limit.maxHoursPerMonth,
       max_consecutive_days: limit.maxConsecutiveDays,
+      min_rest_hours: limit.minRestHours,
+      min_hours_per_week: limit.minHoursPerWeek,
+      min_hours_per_month: limit.minHoursPerMonth,
+      min_days_per_month: limit.minDaysPerMonth,
     }, {
       onConflict: 'staff_id',
     });
@@ -338,6 +619,415 @@ export const staffUnavailableDateStorage = {
   },
 };
 
+// ========================================
+// 出勤希望日
+// ========================================
+export const staffWorkRequestStorage = {
+  getByStaffId: async (staffId: string, startDate?: string, endDate?: string): Promise<StaffWorkRequest[]> => {
+    let query = supabase
+      .from('staff_work_requests')
+      .select('*')
+      .eq('staff_id', staffId);
+
+    if (startDate) query = query.gte('date', startDate);
+    if (endDate) query = query.lte('date', endDate);
+
+    const { data, error } = await query.order('date');
+
+    if (error) {
+      console.error('Error fetching work requests:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      date: item.date,
+      note: item.note,
+    }));
+  },
+
+  getByDateRange: async (startDate: string, endDate: string): Promise<StaffWorkRequest[]> => {
+    const { data, error } = await supabase
+      .from('staff_work_requests')
+      .select('*')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date');
+
+    if (error) {
+      console.error('Error fetching work requests:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      date: item.date,
+      note: item.note,
+    }));
+  },
+
+  // 同じ日の出勤希望がある場合は置き換え
+  upsert: async (workRequest: Omit<StaffWorkRequest, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('staff_work_requests').upsert(
+      {
+        staff_id: workRequest.staffId,
+        date: workRequest.date,
+        note: workRequest.note,
+      },
+      { onConflict: 'staff_id,date' }
+    );
+
+    if (error) {
+      console.error('Error saving work request:', error);
+      throw error;
+    }
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('staff_work_requests')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting work request:', error);
+      throw error;
+    }
+  },
+};
+
+// ========================================
+// スタッフアサイン優先度設定
+// ========================================
+export const staffPriorityStorage = {
+  getAll: async (): Promise<StaffPriority[]> => {
+    const { data, error } = await supabase
+      .from('staff_priority')
+      .select('*');
+
+    if (error) {
+      console.error('Error fetching staff priorities:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      position: item.position,
+      priorityScore: item.priority_score,
+      trustScoreWeight: item.trust_score_weight,
+      seniorityWeight: item.seniority_weight,
+      customWeight: item.custom_weight,
+    }));
+  },
+
+  getByStaffId: async (staffId: string): Promise<StaffPriority[]> => {
+    const { data, error } = await supabase
+      .from('staff_priority')
+      .select('*')
+      .eq('staff_id', staffId);
+
+    if (error) {
+      console.error('Error fetching staff priority:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      position: item.position,
+      priorityScore: item.priority_score,
+      trustScoreWeight: item.trust_score_weight,
+      seniorityWeight: item.seniority_weight,
+      customWeight: item.custom_weight,
+    }));
+  },
+
+  upsert: async (priority: Omit<StaffPriority, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('staff_priority').upsert({
+      staff_id: priority.staffId,
+      position: priority.position,
+      priority_score: priority.priorityScore,
+      trust_score_weight: priority.trustScoreWeight,
+      seniority_weight: priority.seniorityWeight,
+      custom_weight: priority.customWeight,
+    }, {
+      onConflict: 'staff_id,position',
+    });
+
+    if (error) {
+      console.error('Error upserting staff priority:', error);
+      throw error;
+    }
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('staff_priority')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting staff priority:', error);
+      throw error;
+    }
+  },
+};
+
+// ========================================
+// スタッフ兼務スキル
+// ========================================
+export const staffSkillStorage = {
+  getAll: async (): Promise<StaffSkill[]> => {
+    const { data, error } = await supabase
+      .from('staff_skills')
+      .select('*');
+
+    if (error) {
+      console.error('Error fetching staff skills:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      position: item.position,
+      proficiency: item.proficiency,
+    }));
+  },
+
+  getByStaffId: async (staffId: string): Promise<StaffSkill[]> => {
+    const { data, error } = await supabase
+      .from('staff_skills')
+      .select('*')
+      .eq('staff_id', staffId);
+
+    if (error) {
+      console.error('Error fetching staff skill:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      position: item.position,
+      proficiency: item.proficiency,
+    }));
+  },
+
+  // スタッフの兼務スキルをまとめて置き換え
+  replaceByStaffId: async (staffId: string, skills: Omit<StaffSkill, 'id' | 'staffId'>[]): Promise<void> => {
+    const { error: deleteError } = await supabase
+      .from('staff_skills')
+      .delete()
+      .eq('staff_id', staffId);
+
+    if (deleteError) {
+      console.error('Error deleting staff skills:', deleteError);
+      throw deleteError;
+    }
+
+    if (skills.length === 0) return;
+
+    const { error } = await supabase.from('staff_skills').insert(
+      skills.map(skill => ({
+        staff_id: staffId,
+        position: skill.position,
+        proficiency: skill.proficiency,
+      }))
+    );
+
+    if (error) {
+      console.error('Error inserting staff skills:', error);
+      throw error;
+    }
+  },
+};
+
+// ========================================
+// スタッフ間のペアルール
+// ========================================
+export const staffPairRuleStorage = {
+  getAll: async (): Promise<StaffPairRule[]> => {
+    const { data, error } = await supabase
+      .from('staff_pair_rules')
+      .select('*');
+
+    if (error) {
+      console.error('Error fetching staff pair rules:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      pairStaffId: item.pair_staff_id,
+      ruleType: item.rule_type,
+    }));
+  },
+
+  // スタッフが含まれるルール（指導担当として・同時配置NGの相手として登録されたものを含む）
+  getByStaffId: async (staffId: string): Promise<StaffPairRule[]> => {
+    const { data, error } = await supabase
+      .from('staff_pair_rules')
+      .select('*')
+      .or(`staff_id.eq.${staffId},pair_staff_id.eq.${staffId}`);
+
+    if (error) {
+      console.error('Error fetching staff pair rule:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      pairStaffId: item.pair_staff_id,
+      ruleType: item.rule_type,
+    }));
+  },
+
+  // スタッフの指導担当・同時配置NGをまとめて置き換え（同時配置NGは相手側で登録されたものも置き換える）
+  replaceByStaffId: async (
+    staffId: string,
+    mentorIds: string[],
+    avoidIds: string[]
+  ): Promise<void> => {
+    const { error: deleteError } = await supabase
+      .from('staff_pair_rules')
+      .delete()
+      .or(`staff_id.eq.${staffId},and(pair_staff_id.eq.${staffId},rule_type.eq.avoid)`);
+
+    if (deleteError) {
+      console.error('Error deleting staff pair rules:', deleteError);
+      throw deleteError;
+    }
+
+    const rules = [
+      ...mentorIds.map(id => ({ staff_id: staffId, pair_staff_id: id, rule_type: 'mentor' })),
+      ...avoidIds.map(id => ({ staff_id: staffId, pair_staff_id: id, rule_type: 'avoid' })),
+    ];
+    if (rules.length === 0) return;
+
+    const { error } = await supabase.from('staff_pair_rules').insert(rules);
+
+    if (error) {
+      console.error('Error inserting staff pair rules:', error);
+      throw error;
+    }
+  },
+};
+
+// ========================================
+// ベテランの最低配置人数
+// ========================================
+export const seniorCoverageRuleStorage = {
+  getAll: async (): Promise<SeniorCoverageRule[]> => {
+    const { data, error } = await supabase
+      .from('senior_coverage_rules')
+      .select('*');
+
+    if (error) {
+      console.error('Error fetching senior coverage rules:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      timeSlotId: item.time_slot_id,
+      position: item.position,
+      minCount: item.min_count,
+      minTrustScore: item.min_trust_score ?? undefined,
+      minTenureMonths: item.min_tenure_months ?? undefined,
+    }));
+  },
+
+  upsert: async (rule: Omit<SeniorCoverageRule, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('senior_coverage_rules').upsert({
+      time_slot_id: rule.timeSlotId,
+      position: rule.position,
+      min_count: rule.minCount,
+      min_trust_score: rule.minTrustScore ?? null,
+      min_tenure_months: rule.minTenureMonths ?? null,
+    }, {
+      onConflict: 'time_slot_id,position',
+    });
+
+    if (error) {
+      console.error('Error upserting senior coverage rule:', error);
+      throw error;
+    }
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('senior_coverage_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting senior coverage rule:', error);
+      throw error;
+    }
+  },
+};
+
+// ========================================
+// 必須スタッフ設定
+// ========================================
+export const requiredStaffAssignmentStorage = {
+  getByDateRange: async (startDate: string, endDate: string): Promise<RequiredStaffAssignment[]> => {
+    const { data, error } = await supabase
+      .from('required_staff_assignments')
+      .select('*')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date');
+
+    if (error) {
+      console.error('Error fetching required staff assignments:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      date: item.date,
+      timeSlotId: item.time_slot_id,
+      position: item.position,
+      staffId: item.staff_id,
+      reason: item.reason,
+    }));
+  },
+
+  add: async (assignment: Omit<RequiredStaffAssignment, 'id'>): Promise<void> => {
+    const { error } = await supabase.from('required_staff_assignments').insert({
+      date: assignment.date,
+      time_slot_id: assignment.timeSlotId,
+      position: assignment.position,
+      staff_id: assignment.staffId,
+      reason: assignment.reason,
+    });
+
+    if (error) {
+      console.error('Error adding required staff assignment:', error);
+      throw error;
+    }
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const { error } = await supabase
+      .from('required_staff_assignments')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting required staff assignment:', error);
+      throw error;
+    }
+  },
+};
+
 // ========================================
 // 客室・宴会稼働情報
 // ========================================
@@ -364,6 +1054,8 @@ export const dailyOccupancyStorage = {
       occupiedRooms: item.occupied_rooms,
       hasBanquet: item.has_banquet,
       banquetGuestCount: item.banquet_guest_count,
+      banquetStartTime: item.banquet_start_time?.slice(0, 5),
+      banquetEndTime: item.banquet_end_time?.slice(0, 5),
     }));
   },
 
@@ -384,6 +1076,8 @@ export const dailyOccupancyStorage = {
       occupiedRooms: item.occupied_rooms,
       hasBanquet: item.has_banquet,
       banquetGuestCount: item.banquet_guest_count,
+      banquetStartTime: item.banquet_start_time?.slice(0, 5),
+      banquetEndTime: item.banquet_end_time?.slice(0, 5),
     }));
   },
 
@@ -406,6 +1100,8 @@ export const dailyOccupancyStorage = {
       occupiedRooms: data.occupied_rooms,
       hasBanquet: data.has_banquet,
       banquetGuestCount: data.banquet_guest_count,
+      banquetStartTime: data.banquet_start_time?.slice(0, 5),
+      banquetEndTime: data.banquet_end_time?.slice(0, 5),
     };
   },
 
@@ -418,6 +1114,8 @@ export const dailyOccupancyStorage = {
       occupied_rooms: occupancy.occupiedRooms,
       has_banquet: occupancy.hasBanquet,
       banquet_guest_count: occupancy.banquetGuestCount,
+      banquet_start_time: occupancy.banquetStartTime || null,
+      banquet_end_time: occupancy.banquetEndTime || null,
     }, {
       onConflict: 'date,building_id',
     });
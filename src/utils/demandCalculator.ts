@@ -0,0 +1,105 @@
+import type { DailyStaffRequirement, PositionMaster, Reservation, TimeSlot } from '../types';
+import { addDays, format, parseISO } from 'date-fns';
+import { calculateShiftHours } from './helpers';
+
+// 予約からの必要人数の算出
+// 宿泊人数と役職マスタの基準必要人数・変動率から1日の必要人数を求め、時間帯に配分した案を作る
+
+// ========================================
+// 型定義
+// ========================================
+
+// 日付・時間帯・役職ごとの必要人数の提案
+export interface RequirementProposal {
+  date: string;
+  timeSlotId: string;
+  position: string;
+  guestCount: number; // その日の宿泊人数
+  proposedCount: number; // 提案する必要人数
+  currentCount?: number; // 現在の必要人数（設定がない場合は undefined）
+}
+
+// ========================================
+// 算出
+// ========================================
+
+// その日に宿泊している人数（チェックイン日 ≦ 日付 < チェックアウト日）
+export function countInHouseGuests(reservations: Reservation[], date: string): number {
+  return reservations
+    .filter((r) => r.checkInDate <= date && date < r.checkOutDate)
+    .reduce((sum, r) => sum + r.numberOfGuests, 0);
+}
+
+// 役職の1日の必要人数（基準必要人数 + 宿泊人数 × 変動率、端数切り捨て）
+export function calculatePositionDemand(position: PositionMaster, guestCount: number): number {
+  // 0.1 × 30 = 3.0000000000000004 のような誤差で切り捨てが1人ずれないよう補正
+  return position.baseRequiredCount + Math.floor(guestCount * position.guestCountRatio + 1e-9);
+}
+
+// 1日の必要人数を時間帯の長さに比例して配分（最大剰余法で合計を保つ）
+export function distributeAcrossTimeSlots(dailyCount: number, timeSlots: TimeSlot[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  const totalHours = timeSlots.reduce((sum, ts) => sum + calculateShiftHours(ts), 0);
+  if (timeSlots.length === 0 || totalHours <= 0) return counts;
+
+  const shares = timeSlots.map((ts) => {
+    const exact = (dailyCount * calculateShiftHours(ts)) / totalHours;
+    return { id: ts.id, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let remaining = dailyCount - shares.reduce((sum, s) => sum + s.count, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((share) => {
+      if (remaining <= 0) return;
+      share.count++;
+      remaining--;
+    });
+
+  shares.forEach((share) => counts.set(share.id, share.count));
+  return counts;
+}
+
+// 期間内の必要人数の提案を作る
+export function proposeRequirements(
+  startDate: string,
+  endDate: string,
+  positions: PositionMaster[],
+  reservations: Reservation[],
+  timeSlots: TimeSlot[],
+  currentRequirements: DailyStaffRequirement[] // 現在の必要人数（比較用、全館の設定のみ比較する）
+): RequirementProposal[] {
+  const activePositions = positions.filter((p) => p.isActive);
+  const activeTimeSlots = timeSlots
+    .filter((ts) => ts.isActive)
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+  const proposals: RequirementProposal[] = [];
+
+  for (let d = parseISO(startDate); format(d, 'yyyy-MM-dd') <= endDate; d = addDays(d, 1)) {
+    const date = format(d, 'yyyy-MM-dd');
+    const guestCount = countInHouseGuests(reservations, date);
+
+    for (const position of activePositions) {
+      const slotCounts = distributeAcrossTimeSlots(
+        calculatePositionDemand(position, guestCount),
+        activeTimeSlots
+      );
+
+      for (const timeSlot of activeTimeSlots) {
+        const current = currentRequirements.find(
+          (r) => r.date === date && r.timeSlotId === timeSlot.id && r.position === position.name && !r.buildingId
+        );
+        proposals.push({
+          date,
+          timeSlotId: timeSlot.id,
+          position: position.name,
+          guestCount,
+          proposedCount: slotCounts.get(timeSlot.id) || 0,
+          currentCount: current?.requiredCount,
+        });
+      }
+    }
+  }
+
+  return proposals;
+}
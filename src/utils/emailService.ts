@@ -26,6 +26,28 @@ export const emailService = {
     }
   },
 
+  // 欠勤の代わりに入るシフトを通知（デモ版：コンソールに出力）
+  sendShiftReplacement: async (
+    email: string,
+    shift: { date: string; position: string; startTime: string; endTime: string }
+  ): Promise<boolean> => {
+    try {
+      // 本番環境では実際のメール送信APIを使用
+      console.log('='.repeat(50));
+      console.log('📧 代わりのシフトの通知（デモモード）');
+      console.log('='.repeat(50));
+      console.log(`宛先: ${email}`);
+      console.log(`日付: ${shift.date}`);
+      console.log(`勤務: ${shift.position} ${shift.startTime.slice(0, 5)}〜${shift.endTime.slice(0, 5)}`);
+      console.log('='.repeat(50));
+
+      return true;
+    } catch (error) {
+      console.error('メール送信エラー:', error);
+      return false;
+    }
+  },
+
   // パスワードリセットメール送信（将来の実装用）
   sendPasswordReset: async (email: string, resetLink: string): Promise<boolean> => {
     console.log(`パスワードリセットリンク送信: ${email} -> ${resetLink}`);
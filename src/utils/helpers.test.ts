@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import type { Shift } from '../types';
+import { calculateShiftHours, findRestIntervalViolation, getRequiredBreakMinutes, isWithinTimeWindow } from './helpers';
+
+const shift = (overrides: Partial<Shift>): Shift => ({
+  id: 'shift',
+  staffId: 'staff-1',
+  date: '2026-11-01',
+  position: 'フロント',
+  startTime: '09:00',
+  endTime: '18:00',
+  ...overrides,
+});
+
+describe('calculateShiftHours', () => {
+  it('休憩ルールの既定値で休憩時間を除く', () => {
+    expect(calculateShiftHours(shift({ startTime: '09:00', endTime: '15:00' }))).toBe(6);
+    expect(calculateShiftHours(shift({ startTime: '09:00', endTime: '15:30' }))).toBe(5.75);
+    expect(calculateShiftHours(shift({ startTime: '09:00', endTime: '18:00' }))).toBe(8);
+  });
+
+  it('日をまたぐシフトは翌日の終了時刻まで数える', () => {
+    expect(calculateShiftHours(shift({ startTime: '22:00', endTime: '07:00' }))).toBe(8);
+  });
+
+  it('中抜け時間を休憩に含める', () => {
+    expect(
+      calculateShiftHours(
+        shift({ startTime: '08:00', endTime: '20:00', breakStartTime: '11:00', breakEndTime: '16:00' })
+      )
+    ).toBe(7);
+  });
+
+  it('休憩時間が設定されている場合はその時間を除く', () => {
+    expect(calculateShiftHours(shift({ restBreakMinutes: 30 }))).toBe(8.5);
+  });
+});
+
+describe('getRequiredBreakMinutes', () => {
+  it('登録した休憩ルールで判定する', () => {
+    const rules = [{ minWorkHours: 4, breakMinutes: 30 }];
+    expect(getRequiredBreakMinutes(shift({ startTime: '09:00', endTime: '14:00' }), rules)).toBe(30);
+    expect(getRequiredBreakMinutes(shift({ startTime: '09:00', endTime: '13:00' }), rules)).toBe(0);
+  });
+});
+
+describe('findRestIntervalViolation', () => {
+  it('勤務間インターバルに満たない前日のシフトを返す', () => {
+    const previous = shift({ id: 'previous', date: '2026-10-31', startTime: '16:00', endTime: '23:00' });
+    const violation = findRestIntervalViolation(
+      shift({ id: 'target', startTime: '07:00', endTime: '12:00' }),
+      [previous],
+      11
+    );
+    expect(violation).toEqual({ shift: previous, restHours: 8 });
+  });
+
+  it('日をまたぐシフトは翌日の終了時刻から数える', () => {
+    const previous = shift({ id: 'previous', date: '2026-10-31', startTime: '22:00', endTime: '06:00' });
+    expect(
+      findRestIntervalViolation(shift({ id: 'target', startTime: '17:00', endTime: '22:00' }), [previous], 11)
+    ).toBeNull();
+    expect(
+      findRestIntervalViolation(shift({ id: 'target', startTime: '16:00', endTime: '22:00' }), [previous], 11)
+    ).toEqual({ shift: previous, restHours: 10 });
+  });
+
+  it('同じ日・別のスタッフ・同じシフトは対象外', () => {
+    const existing = [
+      shift({ id: 'same-day', startTime: '06:00', endTime: '08:00' }),
+      shift({ id: 'other-staff', staffId: 'staff-2', date: '2026-10-31', startTime: '16:00', endTime: '23:00' }),
+      shift({ id: 'target', date: '2026-10-31', startTime: '16:00', endTime: '23:00' }),
+    ];
+    expect(findRestIntervalViolation(shift({ id: 'target', startTime: '07:00' }), existing, 11)).toBeNull();
+  });
+});
+
+describe('isWithinTimeWindow', () => {
+  it('勤務可能時間内に収まる時間帯のみ true', () => {
+    expect(isWithinTimeWindow('09:00', '17:00', '08:00', '18:00')).toBe(true);
+    expect(isWithinTimeWindow('07:00', '17:00', '08:00', '18:00')).toBe(false);
+  });
+
+  it('日をまたぐ時間帯は日をまたぐ勤務可能時間で判定する', () => {
+    expect(isWithinTimeWindow('22:00', '06:00', '20:00', '08:00')).toBe(true);
+    expect(isWithinTimeWindow('22:00', '06:00', '08:00', '23:00')).toBe(false);
+    // 深夜0時以降に始まる時間帯は翌日側に含まれる
+    expect(isWithinTimeWindow('01:00', '05:00', '20:00', '08:00')).toBe(true);
+  });
+
+  it('勤務可能時間が終日（0:00〜23:59）の場合は日をまたぐ時間帯も可', () => {
+    expect(isWithinTimeWindow('22:00', '06:00', '00:00', '23:59')).toBe(true);
+    expect(isWithinTimeWindow('09:00', '17:00', '00:00', '23:59')).toBe(true);
+  });
+});
@@ -1,4 +1,4 @@
-import type { Shift, Staff, ShiftChangeHistory } from '../types';
+import type { Shift, Staff, ShiftChangeHistory, BreakRule, TimeSlot } from '../types';
 
 // UUIDの生成
 export function generateId(): string {
@@ -43,11 +43,162 @@ export function calculateWorkHours(startTime: string, endTime: string): number {
   const [endHour, endMin] = endTime.split(':').map(Number);
 
   const startMinutes = startHour * 60 + startMin;
-  const endMinutes = endHour * 60 + endMin;
+  let endMinutes = endHour * 60 + endMin;
+
+  // 終了時刻が開始時刻より前の場合は翌日終了（夜勤・宿直）
+  if (endMinutes < startMinutes) {
+    endMinutes += 24 * 60;
+  }
 
   return (endMinutes - startMinutes) / 60;
 }
 
+// 日をまたぐシフトかどうか（終了時刻が開始時刻より前）
+export function isOvernightShift(shift: Pick<Shift, 'startTime' | 'endTime'>): boolean {
+  return shift.endTime.slice(0, 5) < shift.startTime.slice(0, 5);
+}
+
+// 中抜け時間を計算（時間単位、中抜けがない場合は0）
+export function calculateBreakHours(shift: Pick<Shift, 'breakStartTime' | 'breakEndTime'>): number {
+  if (!shift.breakStartTime || !shift.breakEndTime) return 0;
+  return calculateWorkHours(shift.breakStartTime, shift.breakEndTime);
+}
+
+// 休憩ルールの既定値（労働基準法: 6時間を超える場合は45分、8時間を超える場合は60分）
+export const DEFAULT_BREAK_RULES: Omit<BreakRule, 'id'>[] = [
+  { minWorkHours: 6, breakMinutes: 45 },
+  { minWorkHours: 8, breakMinutes: 60 },
+];
+
+type ShiftTimes = Pick<
+  Shift,
+  'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime' | 'restBreakStartTime' | 'restBreakMinutes'
+>;
+
+// 休憩ルールで必要な休憩時間（分）
+// 休憩を除いた労働時間で判定し、中抜け時間は休憩に含める
+export function getRequiredBreakMinutes(
+  shift: Pick<Shift, 'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime'>,
+  rules: Omit<BreakRule, 'id'>[] = DEFAULT_BREAK_RULES
+): number {
+  const splitMinutes = calculateBreakHours(shift) * 60;
+  const spanMinutes = calculateWorkHours(shift.startTime, shift.endTime) * 60 - splitMinutes;
+  const satisfies = (restMinutes: number) =>
+    rules.every(
+      (rule) => spanMinutes - restMinutes <= rule.minWorkHours * 60 || splitMinutes + restMinutes >= rule.breakMinutes
+    );
+
+  const candidates = [0, ...rules.map((rule) => Math.max(0, rule.breakMinutes - splitMinutes))].sort((a, b) => a - b);
+  return candidates.find(satisfies) ?? candidates[candidates.length - 1];
+}
+
+// シフトの休憩時間（分、未設定の場合は休憩ルールで算出）
+export function getRestBreakMinutes(
+  shift: ShiftTimes,
+  rules: Omit<BreakRule, 'id'>[] = DEFAULT_BREAK_RULES
+): number {
+  return shift.restBreakMinutes ?? getRequiredBreakMinutes(shift, rules);
+}
+
+// シフトの実労働時間を計算（中抜け時間・休憩時間を除く）
+export function calculateShiftHours(
+  shift: ShiftTimes,
+  rules: Omit<BreakRule, 'id'>[] = DEFAULT_BREAK_RULES
+): number {
+  return (
+    calculateWorkHours(shift.startTime, shift.endTime) -
+    calculateBreakHours(shift) -
+    getRestBreakMinutes(shift, rules) / 60
+  );
+}
+
+// シフトの勤務区間を取得（中抜け勤務は前半・後半の2区間）
+export function getShiftSegments(
+  shift: Pick<Shift, 'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime'>
+): { startTime: string; endTime: string }[] {
+  if (!shift.breakStartTime || !shift.breakEndTime) {
+    return [{ startTime: shift.startTime, endTime: shift.endTime }];
+  }
+  return [
+    { startTime: shift.startTime, endTime: shift.breakStartTime },
+    { startTime: shift.breakEndTime, endTime: shift.endTime },
+  ];
+}
+
+// 休憩の時間帯（休憩がない場合は null）
+// 開始が未設定の場合は、最も長い勤務区間の中ほどに置く
+export function getRestBreakRange(
+  shift: ShiftTimes,
+  rules: Omit<BreakRule, 'id'>[] = DEFAULT_BREAK_RULES
+): { startTime: string; endTime: string } | null {
+  const minutes = getRestBreakMinutes(shift, rules);
+  if (minutes <= 0) return null;
+
+  let start: number;
+  if (shift.restBreakStartTime) {
+    start = parseTime(shift.restBreakStartTime);
+  } else {
+    const longest = getShiftSegments(shift)
+      .map((segment) => {
+        const segmentStart = parseTime(segment.startTime);
+        let segmentEnd = parseTime(segment.endTime);
+        if (segmentEnd <= segmentStart) segmentEnd += 24 * 60;
+        return { start: segmentStart, end: segmentEnd };
+      })
+      .sort((a, b) => b.end - b.start - (a.end - a.start))[0];
+    start = Math.round((longest.start + longest.end - minutes) / 2 / 15) * 15;
+  }
+
+  const toTime = (value: number) => {
+    const normalized = ((value % (24 * 60)) + 24 * 60) % (24 * 60);
+    return formatTime(Math.floor(normalized / 60), normalized % 60);
+  };
+  return { startTime: toTime(start), endTime: toTime(start + minutes) };
+}
+
+// 深夜時間帯（22:00〜翌5:00、分単位）
+const NIGHT_START_MINUTES = 22 * 60;
+const NIGHT_END_MINUTES = 5 * 60;
+
+// 深夜時間帯にかかるシフトかどうか（夜勤）
+export function isNightShift(
+  shift: Pick<Shift, 'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime'>
+): boolean {
+  return getShiftSegments(shift).some((segment) => {
+    const start = parseTime(segment.startTime);
+    let end = parseTime(segment.endTime);
+    if (end <= start) end += 24 * 60;
+    // 当日早朝（0:00〜5:00）または当日夜〜翌朝（22:00〜翌5:00）と重なるか
+    return start < NIGHT_END_MINUTES || (start < NIGHT_END_MINUTES + 24 * 60 && end > NIGHT_START_MINUTES);
+  });
+}
+
+// 深夜時間帯（22:00〜翌5:00）の勤務時間を計算（時間単位、中抜け時間・休憩時間を除く）
+export function calculateNightHours(shift: ShiftTimes): number {
+  // 当日早朝・当日夜〜翌朝・翌日夜〜翌々朝
+  const nightRanges = [
+    [0, NIGHT_END_MINUTES],
+    [NIGHT_START_MINUTES, NIGHT_END_MINUTES + 24 * 60],
+    [NIGHT_START_MINUTES + 24 * 60, NIGHT_END_MINUTES + 48 * 60],
+  ];
+  const nightMinutes = (range: { startTime: string; endTime: string }) => {
+    const start = parseTime(range.startTime);
+    let end = parseTime(range.endTime);
+    if (end <= start) end += 24 * 60;
+    return nightRanges.reduce(
+      (overlap, [rangeStart, rangeEnd]) => overlap + Math.max(0, Math.min(end, rangeEnd) - Math.max(start, rangeStart)),
+      0
+    );
+  };
+
+  const restBreak = getRestBreakRange(shift);
+  const minutes =
+    getShiftSegments(shift).reduce((sum, segment) => sum + nightMinutes(segment), 0) -
+    (restBreak ? nightMinutes(restBreak) : 0);
+
+  return minutes / 60;
+}
+
 // 信頼度スコアを計算
 export function calculateTrustScore(
   baseScore: number,
@@ -130,6 +281,100 @@ function parseTime(time: string): number {
   return hour * 60 + min;
 }
 
+// 時間帯が勤務可能時間内に収まるか（どちらも日をまたぐ場合は翌日側へ延長して比較）
+// 勤務可能時間が終日（0:00〜23:59）の場合は、日をまたぐ時間帯も含めて可
+export function isWithinTimeWindow(
+  startTime: string,
+  endTime: string,
+  windowStartTime: string,
+  windowEndTime: string
+): boolean {
+  const windowStart = parseTime(windowStartTime);
+  let windowEnd = parseTime(windowEndTime);
+  if (windowEnd < windowStart) windowEnd += 24 * 60;
+  if (windowStart === 0 && windowEnd >= 24 * 60 - 1) return true;
+
+  const start = parseTime(startTime);
+  let end = parseTime(endTime);
+  if (end < start) end += 24 * 60;
+
+  const fits = (s: number, e: number) => s >= windowStart && e <= windowEnd;
+
+  // 深夜0時以降に始まる時間帯は、日をまたぐ勤務可能時間の翌日側に含まれる場合も可
+  return fits(start, end) || fits(start + 24 * 60, end + 24 * 60);
+}
+
+// 勤務区間（中抜けを除く）が同じ日の時間帯と重なるか（日をまたぐ場合は翌日側へ延長して比較）
+export function overlapsTimeRange(
+  shift: Pick<Shift, 'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime'>,
+  rangeStartTime: string,
+  rangeEndTime: string
+): boolean {
+  const rangeStart = parseTime(rangeStartTime);
+  let rangeEnd = parseTime(rangeEndTime);
+  if (rangeEnd <= rangeStart) rangeEnd += 24 * 60;
+
+  return getShiftSegments(shift).some((segment) => {
+    const start = parseTime(segment.startTime);
+    let end = parseTime(segment.endTime);
+    if (end <= start) end += 24 * 60;
+    return start < rangeEnd && end > rangeStart;
+  });
+}
+
+// シフトがこの時間帯をカバーしているか（中抜け勤務はどちらかの区間で全体をカバー）
+export function shiftCoversTimeSlot(shift: Shift, timeSlot: TimeSlot): boolean {
+  return getShiftSegments(shift).some((segment) =>
+    isWithinTimeWindow(timeSlot.startTime, timeSlot.endTime, segment.startTime, segment.endTime)
+  );
+}
+
+// 勤務間インターバルの既定値（時間）
+export const DEFAULT_MIN_REST_HOURS = 11;
+
+// シフトの勤務区間を通しの分で取得（終了が開始より前なら翌日の時刻として扱う）
+function getShiftInterval(shift: Pick<Shift, 'date' | 'startTime' | 'endTime'>): { start: number; end: number } {
+  const [year, month, day] = shift.date.split('-').map(Number);
+  const dayMinutes = Date.UTC(year, month - 1, day) / 60000;
+  const start = dayMinutes + parseTime(shift.startTime);
+  let end = dayMinutes + parseTime(shift.endTime);
+  if (end < start) {
+    end += 24 * 60;
+  }
+  return { start, end };
+}
+
+// 2つのシフトの間の休息時間を計算（時間単位、重なっている場合は0）
+export function calculateRestHours(
+  a: Pick<Shift, 'date' | 'startTime' | 'endTime'>,
+  b: Pick<Shift, 'date' | 'startTime' | 'endTime'>
+): number {
+  const first = getShiftInterval(a);
+  const second = getShiftInterval(b);
+  const gap = first.end <= second.start ? second.start - first.end : first.start - second.end;
+  return Math.max(0, gap) / 60;
+}
+
+// 勤務間インターバルに違反する前後のシフトを探す（同じ日のシフトは対象外）
+export function findRestIntervalViolation(
+  target: Pick<Shift, 'staffId' | 'date' | 'startTime' | 'endTime'> & { id?: string },
+  existingShifts: Shift[],
+  minRestHours: number
+): { shift: Shift; restHours: number } | null {
+  for (const shift of existingShifts) {
+    if (shift.staffId !== target.staffId || shift.date === target.date || shift.id === target.id) {
+      continue;
+    }
+
+    const restHours = calculateRestHours(shift, target);
+    if (restHours < minRestHours) {
+      return { shift, restHours };
+    }
+  }
+
+  return null;
+}
+
 // 色の選択（役職別）
 export function getPositionColor(position: string): string {
   const colors: { [key: string]: string } = {
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getDayType,
+  getHolidayName,
+  getJapaneseHolidays,
+  getJapaneseHolidaysInRange,
+  isHolidayOrSunday,
+} from './japaneseHolidays';
+
+describe('getJapaneseHolidays', () => {
+  it('ハッピーマンデー・春分の日・秋分の日を計算する', () => {
+    const holidays = getJapaneseHolidays(2026);
+    expect(holidays).toContainEqual({ date: '2026-01-12', name: '成人の日' });
+    expect(holidays).toContainEqual({ date: '2026-03-20', name: '春分の日' });
+    expect(holidays).toContainEqual({ date: '2026-07-20', name: '海の日' });
+    expect(holidays).toContainEqual({ date: '2026-09-21', name: '敬老の日' });
+    expect(holidays).toContainEqual({ date: '2026-09-23', name: '秋分の日' });
+    expect(holidays).toContainEqual({ date: '2026-10-12', name: 'スポーツの日' });
+  });
+
+  it('日曜日の祝日の後の最初の平日を振替休日にする', () => {
+    // 2026-05-03（日）は 5/4・5/5 も祝日のため 5/6 が振替休日
+    expect(getHolidayName('2026-05-06')).toBe('振替休日');
+    expect(getHolidayName('2026-05-04')).toBe('みどりの日');
+  });
+
+  it('祝日に挟まれた平日を国民の休日にする', () => {
+    expect(getHolidayName('2026-09-22')).toBe('国民の休日');
+    expect(getHolidayName('2019-04-30')).toBe('国民の休日');
+    expect(getHolidayName('2019-05-02')).toBe('国民の休日');
+  });
+
+  it('年ごとの特例（天皇誕生日・東京オリンピック）を反映する', () => {
+    expect(getHolidayName('2019-05-01')).toBe('即位の日');
+    expect(getHolidayName('2019-12-23')).toBeUndefined();
+    expect(getHolidayName('2018-12-23')).toBe('天皇誕生日');
+    expect(getHolidayName('2020-02-23')).toBe('天皇誕生日');
+    expect(getHolidayName('2020-07-24')).toBe('スポーツの日');
+    expect(getHolidayName('2020-10-12')).toBeUndefined();
+    expect(getHolidayName('2021-08-08')).toBe('山の日');
+  });
+
+  it('日付順に並べる', () => {
+    const dates = getJapaneseHolidays(2026).map((h) => h.date);
+    expect(dates).toEqual([...dates].sort());
+  });
+});
+
+describe('getJapaneseHolidaysInRange', () => {
+  it('年をまたぐ期間の祝日を返す', () => {
+    expect(getJapaneseHolidaysInRange('2025-12-20', '2026-01-12').map((h) => h.date)).toEqual([
+      '2026-01-01',
+      '2026-01-12',
+    ]);
+  });
+});
+
+describe('getDayType', () => {
+  it('日曜・祝日、休前日・祝前日、平日を判定する', () => {
+    expect(isHolidayOrSunday('2026-11-01')).toBe(true); // 日曜日
+    expect(getDayType('2026-11-02')).toBe('holiday_eve'); // 翌日が文化の日
+    expect(getDayType('2026-11-03')).toBe('holiday');
+    expect(getDayType('2026-11-04')).toBe('weekday');
+  });
+
+  it('翌日が日曜・祝日の場合は祝日でも休前日として扱う', () => {
+    expect(getDayType('2026-05-04')).toBe('holiday_eve'); // 翌日もこどもの日
+  });
+});
@@ -0,0 +1,178 @@
+import type { DayType } from '../types';
+import { addDays, format, getDay, parseISO } from 'date-fns';
+
+// 日本の祝日計算（オフライン）
+// 国民の祝日に関する法律（2007年改正以降）に基づき、振替休日・国民の休日（祝日に挟まれた平日）も含めて計算する
+// 春分・秋分の日は天文計算の近似式（1980〜2099年で有効）で求める
+
+// ========================================
+// 型定義
+// ========================================
+
+export interface JapaneseHoliday {
+  date: string; // yyyy-MM-dd
+  name: string;
+}
+
+export const DAY_TYPE_LABELS: Record<DayType, string> = {
+  weekday: '平日',
+  holiday: '日曜・祝日',
+  holiday_eve: '休前日・祝前日',
+};
+
+// ========================================
+// 祝日の計算
+// ========================================
+
+const toDateStr = (year: number, month: number, day: number) =>
+  format(new Date(year, month - 1, day), 'yyyy-MM-dd');
+
+// 第n月曜日（ハッピーマンデー）
+function nthMonday(year: number, month: number, n: number): string {
+  const firstDay = new Date(year, month - 1, 1);
+  const offset = (8 - getDay(firstDay)) % 7;
+  return toDateStr(year, month, 1 + offset + (n - 1) * 7);
+}
+
+function vernalEquinoxDay(year: number): number {
+  return Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+function autumnalEquinoxDay(year: number): number {
+  return Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+// 法律で定められた祝日（振替休日・国民の休日を除く）
+function getNationalHolidays(year: number): JapaneseHoliday[] {
+  const holidays: JapaneseHoliday[] = [
+    { date: toDateStr(year, 1, 1), name: '元日' },
+    { date: nthMonday(year, 1, 2), name: '成人の日' },
+    { date: toDateStr(year, 2, 11), name: '建国記念の日' },
+    { date: toDateStr(year, 3, vernalEquinoxDay(year)), name: '春分の日' },
+    { date: toDateStr(year, 4, 29), name: '昭和の日' },
+    { date: toDateStr(year, 5, 3), name: '憲法記念日' },
+    { date: toDateStr(year, 5, 4), name: 'みどりの日' },
+    { date: toDateStr(year, 5, 5), name: 'こどもの日' },
+    { date: nthMonday(year, 9, 3), name: '敬老の日' },
+    { date: toDateStr(year, 9, autumnalEquinoxDay(year)), name: '秋分の日' },
+    { date: toDateStr(year, 11, 3), name: '文化の日' },
+    { date: toDateStr(year, 11, 23), name: '勤労感謝の日' },
+  ];
+
+  // 天皇誕生日（2019年はなし）
+  if (year >= 2020) {
+    holidays.push({ date: toDateStr(year, 2, 23), name: '天皇誕生日' });
+  } else if (year <= 2018) {
+    holidays.push({ date: toDateStr(year, 12, 23), name: '天皇誕生日' });
+  }
+
+  // 2020年・2021年は東京オリンピック・パラリンピックに伴う特例で日付を移動
+  if (year === 2020) {
+    holidays.push(
+      { date: toDateStr(year, 7, 23), name: '海の日' },
+      { date: toDateStr(year, 7, 24), name: 'スポーツの日' },
+      { date: toDateStr(year, 8, 10), name: '山の日' }
+    );
+  } else if (year === 2021) {
+    holidays.push(
+      { date: toDateStr(year, 7, 22), name: '海の日' },
+      { date: toDateStr(year, 7, 23), name: 'スポーツの日' },
+      { date: toDateStr(year, 8, 8), name: '山の日' }
+    );
+  } else {
+    holidays.push(
+      { date: nthMonday(year, 7, 3), name: '海の日' },
+      { date: nthMonday(year, 10, 2), name: year >= 2020 ? 'スポーツの日' : '体育の日' }
+    );
+    if (year >= 2016) {
+      holidays.push({ date: toDateStr(year, 8, 11), name: '山の日' });
+    }
+  }
+
+  // 天皇の即位に伴う祝日（2019年のみ）
+  if (year === 2019) {
+    holidays.push(
+      { date: toDateStr(year, 5, 1), name: '即位の日' },
+      { date: toDateStr(year, 10, 22), name: '即位礼正殿の儀の行われる日' }
+    );
+  }
+
+  return holidays;
+}
+
+const holidayCache = new Map<number, JapaneseHoliday[]>();
+
+// 年の祝日一覧（振替休日・国民の休日を含む、日付順）
+export function getJapaneseHolidays(year: number): JapaneseHoliday[] {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const holidays = new Map<string, string>();
+  getNationalHolidays(year).forEach((h) => holidays.set(h.date, h.name));
+
+  // 国民の休日: 前日と翌日が祝日の平日
+  const nationalDates = [...holidays.keys()].sort();
+  for (const date of nationalDates) {
+    const nextDay = format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+    const dayAfter = format(addDays(parseISO(date), 2), 'yyyy-MM-dd');
+    if (!holidays.has(nextDay) && holidays.has(dayAfter) && getDay(parseISO(nextDay)) !== 0) {
+      holidays.set(nextDay, '国民の休日');
+    }
+  }
+
+  // 振替休日: 日曜日の祝日の後、最初の祝日でない日
+  for (const date of [...holidays.keys()].sort()) {
+    if (getDay(parseISO(date)) !== 0) continue;
+    let substitute = addDays(parseISO(date), 1);
+    while (holidays.has(format(substitute, 'yyyy-MM-dd'))) {
+      substitute = addDays(substitute, 1);
+    }
+    const substituteStr = format(substitute, 'yyyy-MM-dd');
+    if (substituteStr.startsWith(String(year))) {
+      holidays.set(substituteStr, '振替休日');
+    }
+  }
+
+  const result = [...holidays.entries()]
+    .map(([date, name]) => ({ date, name }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  holidayCache.set(year, result);
+  return result;
+}
+
+// 期間内の祝日一覧
+export function getJapaneseHolidaysInRange(startDate: string, endDate: string): JapaneseHoliday[] {
+  const startYear = Number(startDate.slice(0, 4));
+  const endYear = Number(endDate.slice(0, 4));
+  const holidays: JapaneseHoliday[] = [];
+  for (let year = startYear; year <= endYear; year++) {
+    holidays.push(...getJapaneseHolidays(year).filter((h) => h.date >= startDate && h.date <= endDate));
+  }
+  return holidays;
+}
+
+// 祝日名を取得（祝日でない場合は undefined）
+export function getHolidayName(date: string): string | undefined {
+  return getJapaneseHolidays(Number(date.slice(0, 4))).find((h) => h.date === date)?.name;
+}
+
+export function isJapaneseHoliday(date: string): boolean {
+  return getHolidayName(date) !== undefined;
+}
+
+// ========================================
+// 日の種別
+// ========================================
+
+// 日曜日または祝日
+export function isHolidayOrSunday(date: string): boolean {
+  return getDay(parseISO(date)) === 0 || isJapaneseHoliday(date);
+}
+
+// 日の種別（翌日が日曜・祝日の日は、その日自体が祝日でも休前日として扱う）
+export function getDayType(date: string): DayType {
+  const nextDay = format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+  if (isHolidayOrSunday(nextDay)) return 'holiday_eve';
+  if (isHolidayOrSunday(date)) return 'holiday';
+  return 'weekday';
+}
@@ -0,0 +1,94 @@
+import type { PositionMaster, Shift, Staff } from '../types';
+import { parseISO, getDay } from 'date-fns';
+import { calculateNightHours, calculateShiftHours } from './helpers';
+
+// 人件費の見込み
+// 時給と深夜・休日の割増率からシフトの人件費を求め、役職ごとの月の予算と比較する
+
+// ========================================
+// 型定義
+// ========================================
+
+// 役職ごとの人件費
+export interface LaborCostRow {
+  position: string;
+  hours: number; // 労働時間（中抜けを除く）
+  cost: number; // 見込み人件費（円）
+  budget: number; // 月の人件費予算（円、0 = 未設定）
+}
+
+// 人件費レポート
+export interface LaborCostReport {
+  rows: LaborCostRow[];
+  totalCost: number;
+  totalBudget: number;
+  unpricedShiftCount: number; // 時給が未設定のスタッフのシフト数（人件費0円として集計）
+}
+
+// 割増率の既定値（スタッフごとに未設定の場合）
+export const DEFAULT_NIGHT_PREMIUM_RATE = 0.25; // 深夜割増（22時〜翌5時）
+export const DEFAULT_HOLIDAY_PREMIUM_RATE = 0; // 休日割増（日曜・祝日）
+
+// ========================================
+// 計算
+// ========================================
+
+// 休日割増の対象日か（日曜・祝日）
+export function isPremiumHoliday(date: string, holidays: Set<string>): boolean {
+  return getDay(parseISO(date)) === 0 || holidays.has(date);
+}
+
+// シフトの人件費（時給 × 労働時間 + 深夜割増 + 休日割増、日をまたぐシフトは開始日で判定）
+export function calculateShiftCost(
+  staff: Staff | undefined,
+  date: string,
+  shift: Pick<Shift, 'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime'>,
+  holidays: Set<string>
+): number {
+  if (!staff?.hourlyWage) return 0;
+
+  const nightRate = staff.nightPremiumRate ?? DEFAULT_NIGHT_PREMIUM_RATE;
+  const holidayRate = isPremiumHoliday(date, holidays)
+    ? staff.holidayPremiumRate ?? DEFAULT_HOLIDAY_PREMIUM_RATE
+    : 0;
+
+  return (
+    staff.hourlyWage *
+    (calculateShiftHours(shift) * (1 + holidayRate) + calculateNightHours(shift) * nightRate)
+  );
+}
+
+// 役職ごとの人件費と予算を集計（役職マスタの表示順、予算もシフトもない役職は除く）
+export function buildLaborCostReport(
+  staff: Staff[],
+  shifts: Shift[],
+  positions: PositionMaster[],
+  holidays: Set<string>
+): LaborCostReport {
+  const staffMap = new Map(staff.map((s) => [s.id, s]));
+  const rows = new Map<string, LaborCostRow>();
+  [...positions]
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .forEach((p) => rows.set(p.name, { position: p.name, hours: 0, cost: 0, budget: p.monthlyLaborBudget || 0 }));
+
+  let unpricedShiftCount = 0;
+  for (const shift of shifts) {
+    const member = staffMap.get(shift.staffId);
+    if (!member?.hourlyWage) unpricedShiftCount++;
+
+    if (!rows.has(shift.position)) {
+      rows.set(shift.position, { position: shift.position, hours: 0, cost: 0, budget: 0 });
+    }
+    const row = rows.get(shift.position)!;
+    row.hours += calculateShiftHours(shift);
+    row.cost += calculateShiftCost(member, shift.date, shift, holidays);
+  }
+
+  const reportRows = [...rows.values()].filter((row) => row.hours > 0 || row.budget > 0);
+  return {
+    rows: reportRows,
+    totalCost: reportRows.reduce((sum, row) => sum + row.cost, 0),
+    totalBudget: reportRows.reduce((sum, row) => sum + row.budget, 0),
+    unpricedShiftCount,
+  };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  DailyStaffRequirement,
+  RequirementTemplate,
+  RequirementTemplateAssignment,
+  RequirementTemplateItem,
+} from '../types';
+import { findDatesWithoutRequirements, resolveRequirements, resolveTemplateForDate } from './requirementTemplates';
+
+const templates: RequirementTemplate[] = [
+  { id: 'weekday', name: '平日', dayType: 'weekday', displayOrder: 1 },
+  { id: 'holiday', name: '日曜・祝日', dayType: 'holiday', displayOrder: 2 },
+  { id: 'holiday-eve', name: '休前日', dayType: 'holiday_eve', displayOrder: 3 },
+  { id: 'busy', name: '繁忙期', displayOrder: 4 },
+];
+
+const item = (templateId: string, requiredCount: number, buildingId?: string): RequirementTemplateItem => ({
+  id: `${templateId}-${buildingId || 'all'}`,
+  templateId,
+  timeSlotId: 'morning',
+  position: 'フロント',
+  requiredCount,
+  buildingId,
+});
+
+const items = [item('weekday', 1), item('holiday', 2), item('holiday-eve', 3), item('busy', 5), item('busy', 1, 'annex')];
+
+const counts = (requirements: DailyStaffRequirement[]) =>
+  requirements.map((r) => [r.date, r.requiredCount, r.buildingId]);
+
+describe('resolveTemplateForDate', () => {
+  it('カレンダーの割り当てを日種別の既定テンプレートより優先する', () => {
+    const assignments: RequirementTemplateAssignment[] = [{ id: 'a', date: '2026-11-04', templateId: 'busy' }];
+    expect(resolveTemplateForDate('2026-11-04', templates, assignments)?.id).toBe('busy');
+    expect(resolveTemplateForDate('2026-11-05', templates, assignments)?.id).toBe('weekday');
+  });
+});
+
+describe('resolveRequirements', () => {
+  it('日種別のテンプレートを期間内の各日に展開する', () => {
+    // 11/1（日）は日曜、11/2 は翌日が文化の日のため休前日、11/3 は祝日、11/4 は平日
+    expect(counts(resolveRequirements('2026-11-01', '2026-11-04', [], templates, items, []))).toEqual([
+      ['2026-11-01', 2, undefined],
+      ['2026-11-02', 3, undefined],
+      ['2026-11-03', 2, undefined],
+      ['2026-11-04', 1, undefined],
+    ]);
+  });
+
+  it('日付ごとの必要人数がある枠はテンプレートより優先し、別の館の枠はテンプレートのまま', () => {
+    const dateRequirements: DailyStaffRequirement[] = [
+      { id: 'override', date: '2026-11-04', position: 'フロント', timeSlotId: 'morning', requiredCount: 4 },
+      { id: 'outside', date: '2026-12-01', position: 'フロント', timeSlotId: 'morning', requiredCount: 9 },
+    ];
+    const assignments: RequirementTemplateAssignment[] = [{ id: 'a', date: '2026-11-04', templateId: 'busy' }];
+    expect(counts(resolveRequirements('2026-11-04', '2026-11-04', dateRequirements, templates, items, assignments))).toEqual([
+      ['2026-11-04', 4, undefined],
+      ['2026-11-04', 1, 'annex'],
+    ]);
+  });
+
+  it('テンプレートがない日は必要人数なしになる', () => {
+    const weekdayOnly = templates.filter((t) => t.id === 'weekday');
+    const requirements = resolveRequirements('2026-11-01', '2026-11-04', [], weekdayOnly, items, []);
+    expect(requirements.map((r) => r.date)).toEqual(['2026-11-04']);
+    expect(findDatesWithoutRequirements('2026-11-01', '2026-11-04', requirements)).toEqual([
+      '2026-11-01',
+      '2026-11-02',
+      '2026-11-03',
+    ]);
+  });
+
+  it('月末をまたがず、期間の最終日まで展開する', () => {
+    const requirements = resolveRequirements('2026-02-01', '2026-02-28', [], templates, items, []);
+    expect(new Set(requirements.map((r) => r.date)).size).toBe(28);
+    expect(requirements[requirements.length - 1].date).toBe('2026-02-28');
+  });
+});
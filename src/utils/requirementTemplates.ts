@@ -0,0 +1,92 @@
+import type {
+  DailyStaffRequirement,
+  RequirementTemplate,
+  RequirementTemplateItem,
+  RequirementTemplateAssignment,
+} from '../types';
+import { addDays, format, parseISO } from 'date-fns';
+import { getDayType } from './japaneseHolidays';
+
+// 必要人数テンプレートの解決
+// 日付ごとの必要人数がない枠は、その日のテンプレートの値を使う
+
+// 必要人数の枠のキー（日付・時間帯・役職・館、館を指定しない枠は全館）
+export function getRequirementKey(
+  date: string,
+  timeSlotId: string,
+  position: string,
+  buildingId?: string
+): string {
+  return `${date}-${timeSlotId}-${position}-${buildingId || ''}`;
+}
+
+// 日付に使うテンプレート（カレンダーの割り当て → 日種別の既定テンプレートの順）
+export function resolveTemplateForDate(
+  date: string,
+  templates: RequirementTemplate[],
+  assignments: RequirementTemplateAssignment[]
+): RequirementTemplate | undefined {
+  const assignment = assignments.find((a) => a.date === date);
+  if (assignment) {
+    return templates.find((t) => t.id === assignment.templateId);
+  }
+
+  const dayType = getDayType(date);
+  return [...templates]
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .find((t) => t.dayType === dayType);
+}
+
+// 期間内の必要人数をテンプレートから展開する
+// 日付ごとの必要人数（dateRequirements）がある枠はそちらを優先する
+export function resolveRequirements(
+  startDate: string,
+  endDate: string,
+  dateRequirements: DailyStaffRequirement[],
+  templates: RequirementTemplate[],
+  items: RequirementTemplateItem[],
+  assignments: RequirementTemplateAssignment[]
+): DailyStaffRequirement[] {
+  const requirements = dateRequirements.filter((r) => r.date >= startDate && r.date <= endDate);
+  const overridden = new Set(
+    requirements.map((r) => getRequirementKey(r.date, r.timeSlotId, r.position, r.buildingId))
+  );
+
+  for (let d = parseISO(startDate); format(d, 'yyyy-MM-dd') <= endDate; d = addDays(d, 1)) {
+    const date = format(d, 'yyyy-MM-dd');
+    const template = resolveTemplateForDate(date, templates, assignments);
+    if (!template) continue;
+
+    for (const item of items.filter((i) => i.templateId === template.id)) {
+      const key = getRequirementKey(date, item.timeSlotId, item.position, item.buildingId);
+      if (overridden.has(key)) continue;
+      requirements.push({
+        id: `template-${template.id}-${key}`,
+        date,
+        position: item.position,
+        timeSlotId: item.timeSlotId,
+        requiredCount: item.requiredCount,
+        buildingId: item.buildingId,
+        roomOccupancyBonus: item.roomOccupancyBonus,
+        banquetBonus: item.banquetBonus,
+      });
+    }
+  }
+
+  return requirements.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// 期間内で必要人数が1件もない日（日付ごとの設定もテンプレートもない日）
+export function findDatesWithoutRequirements(
+  startDate: string,
+  endDate: string,
+  requirements: DailyStaffRequirement[]
+): string[] {
+  const dates = new Set(requirements.map((r) => r.date));
+  const missing: string[] = [];
+  for (let d = parseISO(startDate); format(d, 'yyyy-MM-dd') <= endDate; d = addDays(d, 1)) {
+    const date = format(d, 'yyyy-MM-dd');
+    if (!dates.has(date)) missing.push(date);
+  }
+  return missing;
+}
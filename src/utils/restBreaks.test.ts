@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { Shift } from '../types';
+import { calculateShiftHours } from './helpers';
+import { applyBreakRulesToShift, scheduleRestBreaks } from './restBreaks';
+
+const shift = (id: string, overrides: Partial<Shift> = {}): Shift => ({
+  id,
+  staffId: id,
+  date: '2026-11-01',
+  position: 'フロント',
+  startTime: '09:00',
+  endTime: '18:00',
+  ...overrides,
+});
+
+describe('scheduleRestBreaks', () => {
+  it('最初のシフトは勤務区間の中ほど、同じ役職の次のシフトは重ならない時刻に休憩を置く', () => {
+    const [first, second] = scheduleRestBreaks([shift('a'), shift('b')]);
+    expect(first.restBreakStartTime).toBe('13:00');
+    expect(second.restBreakStartTime).toBe('12:00');
+  });
+
+  it('別の日・別の役職の休憩とは重なってもよい', () => {
+    const scheduled = scheduleRestBreaks([
+      shift('a'),
+      shift('b', { position: '清掃' }),
+      shift('c', { date: '2026-11-02' }),
+    ]);
+    expect(scheduled.map((s) => s.restBreakStartTime)).toEqual(['13:00', '13:00', '13:00']);
+  });
+
+  it('固定のシフトの休憩を避け、固定のシフト自体は変更しない', () => {
+    const fixed = shift('fixed', { restBreakStartTime: '13:00', restBreakMinutes: 60 });
+    const [scheduled] = scheduleRestBreaks([shift('a')], [fixed]);
+    expect(scheduled.restBreakStartTime).toBe('12:00');
+    expect(fixed.restBreakStartTime).toBe('13:00');
+  });
+
+  it('休憩の開始時刻が設定済みのシフトと休憩のないシフトはそのまま返す', () => {
+    const preset = shift('a', { restBreakStartTime: '10:30' });
+    const short = shift('b', { startTime: '09:00', endTime: '13:00' });
+    const scheduled = scheduleRestBreaks([preset, short]);
+    expect(scheduled[0]).toBe(preset);
+    expect(scheduled[1]).toBe(short);
+  });
+
+  it('元の並び順を保つ', () => {
+    const scheduled = scheduleRestBreaks([shift('late', { startTime: '12:00', endTime: '21:00' }), shift('early')]);
+    expect(scheduled.map((s) => s.id)).toEqual(['late', 'early']);
+  });
+});
+
+describe('applyBreakRulesToShift', () => {
+  const rules = [{ minWorkHours: 6, breakMinutes: 60 }];
+
+  it('休憩時間が未設定のシフトは登録した休憩ルールで労働時間を集計する', () => {
+    const applied = applyBreakRulesToShift(shift('a', { endTime: '16:00' }), rules);
+    expect(applied.restBreakMinutes).toBe(60);
+    expect(calculateShiftHours(applied)).toBe(6);
+    // 既定の休憩ルール（6時間超で45分）では 6.25 時間になる
+    expect(calculateShiftHours(shift('a', { endTime: '16:00' }))).toBe(6.25);
+  });
+
+  it('休憩時間が設定されているシフトはそのまま返す', () => {
+    const original = shift('a', { restBreakMinutes: 30 });
+    expect(applyBreakRulesToShift(original, rules)).toBe(original);
+  });
+});
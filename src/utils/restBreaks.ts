@@ -0,0 +1,204 @@
+import type { BreakRule, Shift, TimeSlot } from '../types';
+import {
+  DEFAULT_BREAK_RULES,
+  formatTime,
+  getRequiredBreakMinutes,
+  getRestBreakMinutes,
+  getRestBreakRange,
+  getShiftSegments,
+} from './helpers';
+
+// 休憩（労働基準法の休憩）の設定と配置
+// 時間帯には休憩ルールから休憩時間を設定し、生成したシフトは同じ役職で休憩が重ならないよう開始時刻をずらす。
+// 同じ役職の全員が同時に休憩している時間帯は休憩の重なりとして検証する
+
+// ========================================
+// 型定義
+// ========================================
+
+// 同じ役職の全員が休憩している時間帯
+export interface BreakCoverageGap {
+  date: string;
+  position: string;
+  startTime: string;
+  endTime: string;
+  staffCount: number; // この時間帯に勤務しているスタッフ数（全員が休憩中）
+}
+
+// 休憩の開始時刻をずらす単位（分）
+const BREAK_STEP_MINUTES = 15;
+
+// 勤務区間の始業直後・終業直前は休憩を入れない（分）
+const MIN_WORK_AROUND_BREAK_MINUTES = 60;
+
+// ========================================
+// 時刻の計算
+// ========================================
+
+function toMinutes(time: string): number {
+  const [hour, min] = time.split(':').map(Number);
+  return hour * 60 + min;
+}
+
+function toTime(minutes: number): string {
+  const normalized = ((minutes % (24 * 60)) + 24 * 60) % (24 * 60);
+  return formatTime(Math.floor(normalized / 60), normalized % 60);
+}
+
+// 時刻の範囲を当日0時からの分で取得（日をまたぐ場合は翌日の時刻として扱う）
+function toInterval(range: { startTime: string; endTime: string }, dayStart: number): { start: number; end: number } {
+  let start = toMinutes(range.startTime);
+  if (start < dayStart) start += 24 * 60;
+  let end = toMinutes(range.endTime);
+  while (end <= start) end += 24 * 60;
+  return { start, end };
+}
+
+// ========================================
+// 休憩ルール
+// ========================================
+
+// 休憩ルール（登録がない場合は既定値）
+export function resolveBreakRules(rules: BreakRule[]): Omit<BreakRule, 'id'>[] {
+  return rules.length > 0 ? rules : DEFAULT_BREAK_RULES;
+}
+
+// 時間帯に休憩ルールの休憩時間を設定（開始時刻は生成後に配置する）
+export function applyBreakRules(timeSlot: TimeSlot, rules: Omit<BreakRule, 'id'>[]): TimeSlot {
+  return { ...timeSlot, restBreakMinutes: getRequiredBreakMinutes(timeSlot, rules) };
+}
+
+// 休憩時間が未設定のシフト（休憩ルールの導入前に登録したシフトなど）に休憩ルールの休憩時間を設定
+// 労働時間の集計・制約の判定を、既定値ではなく登録した休憩ルールで行うために使う
+export function applyBreakRulesToShift<T extends Pick<Shift, 'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime' | 'restBreakMinutes'>>(
+  shift: T,
+  rules: Omit<BreakRule, 'id'>[]
+): T {
+  return shift.restBreakMinutes !== undefined
+    ? shift
+    : { ...shift, restBreakMinutes: getRequiredBreakMinutes(shift, rules) };
+}
+
+// ========================================
+// 休憩の配置
+// ========================================
+
+// 休憩の開始時刻が未設定のシフトに、同じ日・役職の休憩となるべく重ならない開始時刻を設定
+// fixedShifts: 既存シフトなど休憩を動かさないシフト（重なりの判定にのみ使う）
+export function scheduleRestBreaks(shifts: Shift[], fixedShifts: Shift[] = []): Shift[] {
+  const scheduled = new Map<Shift, Shift>();
+  const placed = (date: string, position: string) =>
+    [...fixedShifts, ...scheduled.values()].filter((s) => s.date === date && s.position === position);
+
+  // 開始の早い順に配置する
+  const ordered = [...shifts].sort((a, b) =>
+    a.date !== b.date ? a.date.localeCompare(b.date) : toMinutes(a.startTime) - toMinutes(b.startTime)
+  );
+
+  for (const shift of ordered) {
+    const minutes = getRestBreakMinutes(shift);
+    if (minutes <= 0 || shift.restBreakStartTime) {
+      scheduled.set(shift, shift);
+      continue;
+    }
+
+    const dayStart = toMinutes(shift.startTime);
+    const others = placed(shift.date, shift.position).flatMap((s) => {
+      const range = getRestBreakRange(s);
+      return range ? [toInterval(range, toMinutes(s.startTime))] : [];
+    });
+
+    // 勤務区間ごとに、始業・終業の前後を空けて休憩を入れられる開始時刻の候補
+    const candidates: { start: number; distance: number }[] = [];
+    for (const segment of getShiftSegments(shift)) {
+      const { start, end } = toInterval(segment, dayStart);
+      const middle = Math.round((start + end - minutes) / 2 / BREAK_STEP_MINUTES) * BREAK_STEP_MINUTES;
+      for (
+        let candidate = start + MIN_WORK_AROUND_BREAK_MINUTES;
+        candidate + minutes <= end - MIN_WORK_AROUND_BREAK_MINUTES;
+        candidate += BREAK_STEP_MINUTES
+      ) {
+        candidates.push({ start: candidate, distance: Math.abs(candidate - middle) });
+      }
+    }
+
+    // 候補がない短い勤務区間は既定の位置（最も長い勤務区間の中ほど）のまま
+    if (candidates.length === 0) {
+      scheduled.set(shift, shift);
+      continue;
+    }
+
+    // 重なる休憩の時間が最も短く、勤務区間の中ほどに近い開始時刻
+    const overlap = (start: number) =>
+      others.reduce(
+        (sum, other) => sum + Math.max(0, Math.min(start + minutes, other.end) - Math.max(start, other.start)),
+        0
+      );
+    const best = candidates
+      .map((c) => ({ ...c, overlap: overlap(c.start) }))
+      .sort((a, b) => a.overlap - b.overlap || a.distance - b.distance)[0];
+
+    scheduled.set(shift, { ...shift, restBreakStartTime: toTime(best.start) });
+  }
+
+  // 元の並び順に戻す
+  return shifts.map((shift) => scheduled.get(shift)!);
+}
+
+// ========================================
+// 休憩の重なりの検証
+// ========================================
+
+// 同じ日・役職で、勤務しているスタッフが2人以上いて全員が休憩している時間帯
+export function findBreakCoverageGaps(shifts: Shift[]): BreakCoverageGap[] {
+  const groups = new Map<string, Shift[]>();
+  shifts.forEach((s) => {
+    const key = `${s.date}|${s.position}`;
+    groups.set(key, [...(groups.get(key) || []), s]);
+  });
+
+  const gaps: BreakCoverageGap[] = [];
+  groups.forEach((group, key) => {
+    const [date, position] = key.split('|');
+
+    // 当日0時からの分で、勤務区間と休憩の時間帯を取得
+    const timelines = group.map((shift) => {
+      const dayStart = toMinutes(shift.startTime);
+      const restBreak = getRestBreakRange(shift);
+      return {
+        segments: getShiftSegments(shift).map((segment) => toInterval(segment, dayStart)),
+        restBreak: restBreak ? toInterval(restBreak, dayStart) : null,
+      };
+    });
+    if (!timelines.some((t) => t.restBreak)) return;
+
+    // 人数が変わる時刻で区切って調べる
+    const points = [
+      ...new Set(
+        timelines.flatMap((t) => [
+          ...t.segments.flatMap((s) => [s.start, s.end]),
+          ...(t.restBreak ? [t.restBreak.start, t.restBreak.end] : []),
+        ])
+      ),
+    ].sort((a, b) => a - b);
+
+    let gap: BreakCoverageGap | null = null;
+    for (let i = 0; i < points.length - 1; i++) {
+      const at = points[i];
+      const working = timelines.filter((t) => t.segments.some((s) => s.start <= at && at < s.end));
+      const onBreak = working.filter((t) => t.restBreak && t.restBreak.start <= at && at < t.restBreak.end);
+
+      if (working.length >= 2 && onBreak.length === working.length) {
+        if (gap && gap.endTime === toTime(at)) {
+          gap.endTime = toTime(points[i + 1]);
+          gap.staffCount = Math.max(gap.staffCount, working.length);
+        } else {
+          gap = { date, position, startTime: toTime(at), endTime: toTime(points[i + 1]), staffCount: working.length };
+          gaps.push(gap);
+        }
+      }
+    }
+  });
+
+  return gaps.sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+}
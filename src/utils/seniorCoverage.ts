@@ -0,0 +1,128 @@
+import type { SeniorCoverageRule, Shift, Staff, TimeSlot } from '../types';
+import { differenceInMonths, parseISO } from 'date-fns';
+import { shiftCoversTimeSlot } from './helpers';
+
+// ベテランの最低配置人数
+// 時間帯×役職ごとに、信頼度・勤続期間の基準を満たすスタッフを最低人数以上配置する。
+// 生成時の候補の絞り込み・最適化の目的関数と、生成結果の検証で共通の判定を使う
+
+// ========================================
+// 型定義
+// ========================================
+
+// ベテランの人数が足りない枠
+export interface SeniorCoverageShortfall {
+  date: string;
+  timeSlot: TimeSlot;
+  position: string;
+  rule: SeniorCoverageRule;
+  seniorCount: number; // 配置されているベテランの人数
+}
+
+// 入社日が未設定のスタッフの経験年数スコア（中間値）
+export const DEFAULT_SENIORITY_SCORE = 50;
+
+// 経験年数スコアが100になる勤続月数（10年）
+const FULL_SENIORITY_MONTHS = 120;
+
+// ========================================
+// 勤続期間
+// ========================================
+
+// 基準日時点の勤続月数（入社日が未設定の場合は null）
+export function getTenureMonths(staff: Staff, date: string): number | null {
+  if (!staff.hireDate) return null;
+  return Math.max(0, differenceInMonths(parseISO(date), parseISO(staff.hireDate)));
+}
+
+// 経験年数スコア（0-100、勤続月数に比例し10年で100）
+export function calculateSeniorityScore(staff: Staff, date: string): number {
+  const months = getTenureMonths(staff, date);
+  if (months === null) return DEFAULT_SENIORITY_SCORE;
+  return Math.min(100, (months / FULL_SENIORITY_MONTHS) * 100);
+}
+
+// 勤続月数の表示（12か月単位は「N年」）
+export function formatTenure(months: number): string {
+  return months > 0 && months % 12 === 0 ? `${months / 12}年` : `${months}か月`;
+}
+
+// ========================================
+// 判定
+// ========================================
+
+export function getSeniorCoverageKey(timeSlotId: string, position: string): string {
+  return `${timeSlotId}-${position}`;
+}
+
+export function buildSeniorCoverageMap(rules: SeniorCoverageRule[]): Map<string, SeniorCoverageRule> {
+  const map = new Map<string, SeniorCoverageRule>();
+  rules.forEach((rule) => map.set(getSeniorCoverageKey(rule.timeSlotId, rule.position), rule));
+  return map;
+}
+
+// ルールの条件の表示（例: 信頼度90以上または勤続1年以上を1人以上）
+export function describeSeniorCoverageRule(rule: SeniorCoverageRule): string {
+  const conditions = [
+    rule.minTrustScore !== undefined ? `信頼度${rule.minTrustScore}以上` : null,
+    rule.minTenureMonths !== undefined ? `勤続${formatTenure(rule.minTenureMonths)}以上` : null,
+  ].filter((c): c is string => c !== null);
+  return `${conditions.join('または')}を${rule.minCount}人以上`;
+}
+
+// 基準日時点でルールのベテランの基準（信頼度・勤続期間のいずれか）を満たすか
+export function isSeniorStaff(staff: Staff, rule: SeniorCoverageRule, date: string): boolean {
+  if (rule.minTrustScore !== undefined && staff.trustScore >= rule.minTrustScore) return true;
+
+  const months = getTenureMonths(staff, date);
+  return rule.minTenureMonths !== undefined && months !== null && months >= rule.minTenureMonths;
+}
+
+// この日・時間帯・役職を担当しているスタッフ
+function getCoveringStaffIds(shifts: Shift[], date: string, timeSlot: TimeSlot, position: string): Set<string> {
+  return new Set(
+    shifts
+      .filter((s) => s.date === date && s.position === position && shiftCoversTimeSlot(s, timeSlot))
+      .map((s) => s.staffId)
+  );
+}
+
+// この日・時間帯でルールの役職を担当しているベテランの人数
+export function countSeniorStaff(
+  shifts: Shift[],
+  staff: Staff[],
+  rule: SeniorCoverageRule,
+  timeSlot: TimeSlot,
+  date: string
+): number {
+  return [...getCoveringStaffIds(shifts, date, timeSlot, rule.position)].filter((staffId) => {
+    const member = staff.find((s) => s.id === staffId);
+    return member !== undefined && isSeniorStaff(member, rule, date);
+  }).length;
+}
+
+// ベテランの人数が足りない枠（その役職のスタッフが誰もいない枠は人員不足として別に扱うため除く）
+export function findSeniorCoverageShortfalls(
+  shifts: Shift[],
+  staff: Staff[],
+  timeSlots: TimeSlot[],
+  rules: SeniorCoverageRule[]
+): SeniorCoverageShortfall[] {
+  const dates = [...new Set(shifts.map((s) => s.date))].sort();
+  const shortfalls: SeniorCoverageShortfall[] = [];
+
+  for (const date of dates) {
+    for (const timeSlot of timeSlots) {
+      for (const rule of rules.filter((r) => r.timeSlotId === timeSlot.id)) {
+        if (getCoveringStaffIds(shifts, date, timeSlot, rule.position).size === 0) continue;
+
+        const seniorCount = countSeniorStaff(shifts, staff, rule, timeSlot, date);
+        if (seniorCount < rule.minCount) {
+          shortfalls.push({ date, timeSlot, position: rule.position, rule, seniorCount });
+        }
+      }
+    }
+  }
+
+  return shortfalls;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import type { Shift, Staff, StaffAvailability, StaffWorkLimit, TimeSlot } from '../types';
+import { formatDate } from './helpers';
+import {
+  canAssign,
+  createAccumulatorFromShifts,
+  getAdjacentShifts,
+  type AdjacentShifts,
+} from './shiftConstraints';
+
+// 月の境界はローカルの日付で扱う（vite.config.ts で TZ=Asia/Tokyo を指定して実行する）
+
+const staff: Staff = {
+  id: 'staff-1',
+  name: 'スタッフ1',
+  position: 'フロント',
+  trustScore: 50,
+  role: 'user',
+  isActive: true,
+  loginId: '',
+  passwordHash: '',
+  email: '',
+  is2faEnabled: false,
+};
+
+const timeSlot = (startTime: string, endTime: string): TimeSlot => ({
+  id: `${startTime}-${endTime}`,
+  name: `${startTime}〜${endTime}`,
+  startTime,
+  endTime,
+  restBreakMinutes: 0,
+  displayOrder: 0,
+  isActive: true,
+});
+
+const shift = (date: string, startTime = '09:00', endTime = '17:00'): Shift => ({
+  id: `shift-${date}`,
+  staffId: staff.id,
+  date,
+  position: 'フロント',
+  startTime,
+  endTime,
+  restBreakMinutes: 0,
+});
+
+const availabilities: StaffAvailability[] = [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+  id: `availability-${dayOfWeek}`,
+  staffId: staff.id,
+  dayOfWeek,
+  isAvailable: true,
+  lastModified: '',
+}));
+
+const workLimits = new Map<string, StaffWorkLimit>([
+  [
+    staff.id,
+    {
+      id: 'limit',
+      staffId: staff.id,
+      maxHoursPerWeek: 20,
+      maxHoursPerMonth: 160,
+      maxConsecutiveDays: 3,
+      minRestHours: 11,
+      minHoursPerWeek: 0,
+      minHoursPerMonth: 0,
+      minDaysPerMonth: 0,
+    },
+  ],
+]);
+
+const check = (date: string, slot: TimeSlot, adjacent: AdjacentShifts, monthShifts: Shift[] = []) =>
+  canAssign(
+    staff,
+    date,
+    slot,
+    'フロント',
+    new Map(),
+    availabilities,
+    workLimits,
+    [],
+    createAccumulatorFromShifts(staff.id, monthShifts, date, adjacent),
+    true
+  );
+
+const reasons = (result: ReturnType<typeof check>) => result.violations.map((v) => v.reason);
+
+describe('月をまたぐ制約の判定', () => {
+  it('Asia/Tokyo のタイムゾーンで実行する', () => {
+    expect(new Date(2026, 11, 1).getTimezoneOffset()).toBe(-540);
+    // toISOString() では前日になる月初をローカルの日付で求める
+    expect(formatDate(new Date(2026, 11, 1))).toBe('2026-12-01');
+    expect(formatDate(new Date(2026, 12, 0))).toBe('2026-12-31');
+  });
+
+  it('前後の月のシフトを対象月の前後の期間だけ取り出す', () => {
+    const shifts = ['2026-11-16', '2026-11-17', '2026-11-30', '2026-12-01', '2027-01-14', '2027-01-15'].map(
+      (date) => shift(date)
+    );
+    const adjacent = getAdjacentShifts(shifts, '2026-12-01', '2026-12-31');
+    expect(adjacent.preceding.map((s) => s.date)).toEqual(['2026-11-17', '2026-11-30']);
+    expect(adjacent.following.map((s) => s.date)).toEqual(['2027-01-14']);
+  });
+
+  it('前月末からの連続勤務日数を引き継ぐ', () => {
+    const adjacent = { preceding: ['2026-11-28', '2026-11-29', '2026-11-30'].map((date) => shift(date)), following: [] };
+    expect(reasons(check('2026-12-01', timeSlot('09:00', '17:00'), adjacent))).toContain('consecutive_days');
+    expect(reasons(check('2026-12-02', timeSlot('09:00', '17:00'), adjacent))).not.toContain('consecutive_days');
+  });
+
+  it('月をまたぐ週の労働時間に前月のシフトを含め、月の労働時間には含めない', () => {
+    // 2026-12-01 は火曜日（週の開始は 11/29 の日曜日）
+    const adjacent = { preceding: [shift('2026-11-29'), shift('2026-11-30')], following: [] };
+    const result = check('2026-12-01', timeSlot('09:00', '17:00'), adjacent);
+    expect(reasons(result)).toContain('weekly_limit');
+    expect(reasons(result)).not.toContain('monthly_limit');
+    expect(reasons(check('2026-12-06', timeSlot('09:00', '17:00'), adjacent))).not.toContain('weekly_limit');
+  });
+
+  it('前月末・翌月初のシフトとの勤務間インターバルを判定する', () => {
+    const adjacent = {
+      preceding: [shift('2026-11-30', '16:00', '23:00')],
+      following: [shift('2027-01-01', '06:00', '12:00')],
+    };
+    expect(reasons(check('2026-12-01', timeSlot('07:00', '12:00'), adjacent))).toEqual(['rest_interval']);
+    expect(reasons(check('2026-12-01', timeSlot('10:00', '15:00'), adjacent))).toEqual([]);
+    expect(reasons(check('2026-12-31', timeSlot('16:00', '22:00'), adjacent))).toEqual(['rest_interval']);
+  });
+
+  it('翌月初の登録済みシフトを連続勤務日数に含める', () => {
+    const adjacent = { preceding: [], following: ['2027-01-01', '2027-01-02'].map((date) => shift(date)) };
+    const monthShifts = [shift('2026-12-30')];
+    expect(reasons(check('2026-12-31', timeSlot('09:00', '17:00'), adjacent, monthShifts))).toContain(
+      'consecutive_days'
+    );
+  });
+});
@@ -0,0 +1,580 @@
+import type {
+  Staff,
+  Shift,
+  TimeSlot,
+  StaffAvailability,
+  StaffWorkLimit,
+  StaffUnavailableDate,
+  StaffSkill,
+} from '../types';
+import { addDays, parseISO, format, getDay, differenceInDays } from 'date-fns';
+import {
+  calculateRestHours,
+  calculateShiftHours,
+  isWithinTimeWindow,
+  DEFAULT_MIN_REST_HOURS,
+} from './helpers';
+
+// シフト生成の制約ライブラリ
+// 生成戦略（貪欲法・最適化）と不足理由の分析で共通の判定を使う
+
+// ========================================
+// 型定義
+// ========================================
+
+// 割り当てできない理由
+export type RejectionReason =
+  | 'no_skill' // 役職のスキルがない
+  | 'unavailable' // 承認済みの希望休
+  | 'outside_hours' // 勤務可能時間外
+  | 'already_assigned' // 同じ日に割り当て済み
+  | 'weekly_limit' // 週の労働時間上限
+  | 'monthly_limit' // 月の労働時間上限
+  | 'consecutive_days' // 連続勤務日数上限
+  | 'rest_interval' // 勤務間インターバル不足
+  | 'pair_rule'; // 指導担当の不在・同時配置NG
+
+// 制約違反の内容
+export interface ConstraintViolation {
+  reason: RejectionReason;
+  message: string;
+}
+
+// 割り当て可否の判定結果
+export interface AssignmentCheck {
+  allowed: boolean;
+  violations: ConstraintViolation[]; // 違反している制約（割り当て可能な場合は空）
+}
+
+// 勤務時間帯（時間帯マスタ・既存シフトに共通）
+export type WorkTimes = Pick<
+  TimeSlot,
+  'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime' | 'restBreakStartTime' | 'restBreakMinutes'
+>;
+
+// スタッフの累積労働情報
+export interface StaffWorkAccumulator {
+  weeklyHours: Map<string, number>; // staffId -> 週の累積時間
+  monthlyHours: Map<string, number>; // staffId -> 月の累積時間
+  consecutiveDays: Map<string, number>; // staffId -> 連続勤務日数
+  lastWorkDate: Map<string, string | null>; // staffId -> 最後の勤務日
+  dailyAssignments: Map<string, Set<string>>; // staffId -> Set<date> その日に割り当て済み
+  pinnedDates: Map<string, Set<string>>; // staffId -> Set<date> 必須スタッフ設定で確保済み
+  workedSlots: Map<string, { date: string; startTime: string; endTime: string }[]>; // staffId -> 割り当て済みの勤務時間帯
+}
+
+// 対象月の前後のシフト（月をまたぐ連続勤務日数・週の労働時間・勤務間インターバルの判定用）
+export interface AdjacentShifts {
+  preceding: Shift[]; // 対象月より前のシフト
+  following: Shift[]; // 対象月より後の登録済みシフト
+}
+
+// ========================================
+// ヘルパー関数
+// ========================================
+
+// 時間帯の長さを計算（時間単位、中抜け勤務は中抜け時間を除く）
+export function getTimeSlotDuration(timeSlot: TimeSlot): number {
+  return calculateShiftHours(timeSlot);
+}
+
+// 週の開始日を取得（日曜日）
+export function getWeekStart(date: Date): string {
+  const dayOfWeek = getDay(date);
+  const weekStart = addDays(date, -dayOfWeek);
+  return format(weekStart, 'yyyy-MM-dd');
+}
+
+// 対象月の前後で判定に含める日数（月をまたぐ週・連続勤務日数上限の判定に足りる範囲）
+const ADJACENT_DAYS = 14;
+
+// 対象月の前後のシフトを含めて読み込む期間
+export function getAdjacentDateRange(startDate: string, endDate: string): { from: string; to: string } {
+  return {
+    from: format(addDays(parseISO(startDate), -ADJACENT_DAYS), 'yyyy-MM-dd'),
+    to: format(addDays(parseISO(endDate), ADJACENT_DAYS), 'yyyy-MM-dd'),
+  };
+}
+
+// 登録済みのシフトから対象月の前後のシフトを取り出す
+export function getAdjacentShifts(shifts: Shift[], startDate: string, endDate: string): AdjacentShifts {
+  const { from, to } = getAdjacentDateRange(startDate, endDate);
+  return {
+    preceding: shifts.filter((s) => s.date >= from && s.date < startDate),
+    following: shifts.filter((s) => s.date > endDate && s.date <= to),
+  };
+}
+
+// ========================================
+// 制約チェック関数
+// ========================================
+
+// 希望休チェック
+export function isUnavailable(
+  staffId: string,
+  date: string,
+  timeSlotId: string,
+  unavailableDates: StaffUnavailableDate[]
+): boolean {
+  const unavailable = unavailableDates.filter(
+    (u) => u.staffId === staffId && u.date === date && u.status === 'approved'
+  );
+
+  for (const u of unavailable) {
+    if (u.unavailableType === 'all_day') {
+      return true;
+    }
+    if (u.unavailableType === 'time_slot' && u.timeSlotIds?.includes(timeSlotId)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// 勤務可能時間チェック
+export function isWithinAvailableHours(
+  staffId: string,
+  date: string,
+  timeSlot: TimeSlot,
+  availabilities: StaffAvailability[]
+): boolean {
+  const dayOfWeek = getDay(parseISO(date));
+  const availability = availabilities.find(
+    (a) => a.staffId === staffId && a.dayOfWeek === dayOfWeek
+  );
+
+  if (!availability || !availability.isAvailable) {
+    return false;
+  }
+
+  if (!availability.availableStartTime || !availability.availableEndTime) {
+    return true; // 時間指定なし = 終日可能
+  }
+
+  // 時間帯が勤務可能時間内かチェック（日をまたぐ時間帯にも対応）
+  return isWithinTimeWindow(
+    timeSlot.startTime,
+    timeSlot.endTime,
+    availability.availableStartTime,
+    availability.availableEndTime
+  );
+}
+
+// 週の労働時間上限チェック
+export function isWithinWeeklyLimit(
+  staffId: string,
+  date: string,
+  duration: number,
+  workLimit: StaffWorkLimit | undefined,
+  accumulator: StaffWorkAccumulator
+): boolean {
+  if (!workLimit) return true;
+
+  const weekStart = getWeekStart(parseISO(date));
+  const currentWeeklyHours = accumulator.weeklyHours.get(`${staffId}-${weekStart}`) || 0;
+  return currentWeeklyHours + duration <= workLimit.maxHoursPerWeek;
+}
+
+// 月の労働時間上限チェック
+export function isWithinMonthlyLimit(
+  staffId: string,
+  duration: number,
+  workLimit: StaffWorkLimit | undefined,
+  accumulator: StaffWorkAccumulator
+): boolean {
+  if (!workLimit) return true;
+
+  const currentMonthlyHours = accumulator.monthlyHours.get(staffId) || 0;
+  return currentMonthlyHours + duration <= workLimit.maxHoursPerMonth;
+}
+
+// 連続勤務日数上限チェック
+export function isWithinConsecutiveDaysLimit(
+  staffId: string,
+  date: string,
+  workLimit: StaffWorkLimit | undefined,
+  accumulator: StaffWorkAccumulator
+): boolean {
+  if (!workLimit) return true;
+
+  const lastDate = accumulator.lastWorkDate.get(staffId);
+  const currentConsecutiveDays = accumulator.consecutiveDays.get(staffId) || 0;
+
+  // 1日空いている場合（または初回の割り当て）は連続勤務がリセット
+  const isContinued = lastDate ? differenceInDays(parseISO(date), parseISO(lastDate)) <= 1 : false;
+  let consecutiveDays = isContinued ? currentConsecutiveDays + 1 : 1;
+
+  // 翌日以降に必須スタッフ設定がある場合は、その連続分も含めてチェック
+  const pinned = accumulator.pinnedDates.get(staffId);
+  if (pinned) {
+    let next = addDays(parseISO(date), 1);
+    while (pinned.has(format(next, 'yyyy-MM-dd'))) {
+      consecutiveDays++;
+      next = addDays(next, 1);
+    }
+  }
+
+  return consecutiveDays <= workLimit.maxConsecutiveDays;
+}
+
+// 勤務間インターバルチェック（前後の日の勤務との休息時間）
+export function isWithinRestInterval(
+  staffId: string,
+  date: string,
+  timeSlot: TimeSlot,
+  workLimit: StaffWorkLimit | undefined,
+  accumulator: StaffWorkAccumulator
+): boolean {
+  const minRestHours = workLimit?.minRestHours ?? DEFAULT_MIN_REST_HOURS;
+  const slots = accumulator.workedSlots.get(staffId) || [];
+  const target = { date, startTime: timeSlot.startTime, endTime: timeSlot.endTime };
+
+  return slots.every(
+    (slot) => slot.date === date || calculateRestHours(slot, target) >= minRestHours
+  );
+}
+
+// 同日複数時間帯チェック
+export function isAlreadyAssignedToday(
+  staffId: string,
+  date: string,
+  accumulator: StaffWorkAccumulator
+): boolean {
+  const assignments = accumulator.dailyAssignments.get(staffId);
+  return assignments ? assignments.has(date) : false;
+}
+
+// 兼務スキルの習熟度ごとのスキル適合度（主担当は100）
+const SECONDARY_SKILL_MATCH: Record<number, number> = {
+  1: 40, // 補助
+  2: 60, // 単独対応可
+  3: 80, // 指導可
+};
+
+// 役職に対するスキル適合度を取得（対応できない場合は0）
+export function getSkillMatch(
+  staff: Staff,
+  position: string,
+  skills: Map<string, StaffSkill>
+): number {
+  if (staff.position === position) {
+    return 100;
+  }
+  const skill = skills.get(`${staff.id}-${position}`);
+  return skill ? SECONDARY_SKILL_MATCH[skill.proficiency] || 0 : 0;
+}
+
+// 全ての制約をチェック（checkAll=false の場合は最初の違反で打ち切る）
+export function canAssign(
+  staff: Staff,
+  date: string,
+  timeSlot: TimeSlot,
+  position: string,
+  skills: Map<string, StaffSkill>,
+  availabilities: StaffAvailability[],
+  workLimits: Map<string, StaffWorkLimit>,
+  unavailableDates: StaffUnavailableDate[],
+  accumulator: StaffWorkAccumulator,
+  checkAll = false
+): AssignmentCheck {
+  const violations: ConstraintViolation[] = [];
+  const reject = (reason: RejectionReason, message: string): boolean => {
+    violations.push({ reason, message });
+    return !checkAll;
+  };
+  const result = (): AssignmentCheck => ({ allowed: violations.length === 0, violations });
+
+  // 主担当または兼務スキルで対応できる役職か
+  if (getSkillMatch(staff, position, skills) === 0) {
+    if (reject('no_skill', 'この役職のスキルがありません')) return result();
+  }
+
+  // 希望休チェック
+  if (isUnavailable(staff.id, date, timeSlot.id, unavailableDates)) {
+    if (reject('unavailable', '承認済みの希望休です')) return result();
+  }
+
+  // 勤務可能時間チェック
+  if (!isWithinAvailableHours(staff.id, date, timeSlot, availabilities)) {
+    if (reject('outside_hours', '勤務可能時間外です')) return result();
+  }
+
+  // 同日複数時間帯チェック
+  if (isAlreadyAssignedToday(staff.id, date, accumulator)) {
+    if (reject('already_assigned', '同じ日に別の時間帯で勤務しています')) return result();
+  }
+
+  const duration = getTimeSlotDuration(timeSlot);
+  const workLimit = workLimits.get(staff.id);
+
+  // 週の労働時間上限チェック
+  if (!isWithinWeeklyLimit(staff.id, date, duration, workLimit, accumulator)) {
+    const weeklyHours = accumulator.weeklyHours.get(`${staff.id}-${getWeekStart(parseISO(date))}`) || 0;
+    const message = `週の労働時間上限超過 (${weeklyHours.toFixed(1)}h + ${duration.toFixed(1)}h > ${workLimit?.maxHoursPerWeek}h)`;
+    if (reject('weekly_limit', message)) return result();
+  }
+
+  // 月の労働時間上限チェック
+  if (!isWithinMonthlyLimit(staff.id, duration, workLimit, accumulator)) {
+    const monthlyHours = accumulator.monthlyHours.get(staff.id) || 0;
+    const message = `月の労働時間上限超過 (${monthlyHours.toFixed(1)}h + ${duration.toFixed(1)}h > ${workLimit?.maxHoursPerMonth}h)`;
+    if (reject('monthly_limit', message)) return result();
+  }
+
+  // 連続勤務日数上限チェック
+  if (!isWithinConsecutiveDaysLimit(staff.id, date, workLimit, accumulator)) {
+    const message = `連続勤務日数上限（${workLimit?.maxConsecutiveDays}日）を超えます`;
+    if (reject('consecutive_days', message)) return result();
+  }
+
+  // 勤務間インターバルチェック
+  if (!isWithinRestInterval(staff.id, date, timeSlot, workLimit, accumulator)) {
+    const message = `前後の勤務との間隔が勤務間インターバル（${workLimit?.minRestHours ?? DEFAULT_MIN_REST_HOURS}時間）未満です`;
+    if (reject('rest_interval', message)) return result();
+  }
+
+  return result();
+}
+
+// ========================================
+// 累積情報の更新
+// ========================================
+
+// 週の労働時間を加算（日をまたぐシフトは開始日の週に計上）
+function addWeeklyHours(
+  staffId: string,
+  date: string,
+  duration: number,
+  accumulator: StaffWorkAccumulator
+): void {
+  const weekStart = getWeekStart(parseISO(date));
+  const weekKey = `${staffId}-${weekStart}`;
+  const currentWeeklyHours = accumulator.weeklyHours.get(weekKey) || 0;
+  accumulator.weeklyHours.set(weekKey, currentWeeklyHours + duration);
+}
+
+// 労働時間を加算（日をまたぐシフトは開始日の週・月に計上）
+function addWorkHours(
+  staffId: string,
+  date: string,
+  duration: number,
+  accumulator: StaffWorkAccumulator
+): void {
+  // 週の労働時間を更新
+  addWeeklyHours(staffId, date, duration, accumulator);
+
+  // 月の労働時間を更新
+  const currentMonthlyHours = accumulator.monthlyHours.get(staffId) || 0;
+  accumulator.monthlyHours.set(staffId, currentMonthlyHours + duration);
+}
+
+// 勤務日として記録（連続勤務日数と同日割り当て）
+export function markWorkDay(
+  staffId: string,
+  date: string,
+  accumulator: StaffWorkAccumulator
+): void {
+  // 連続勤務日数を更新
+  const lastDate = accumulator.lastWorkDate.get(staffId);
+  if (lastDate) {
+    const daysDiff = differenceInDays(parseISO(date), parseISO(lastDate));
+    if (daysDiff === 1) {
+      // 連続している
+      const currentConsecutive = accumulator.consecutiveDays.get(staffId) || 0;
+      accumulator.consecutiveDays.set(staffId, currentConsecutive + 1);
+    } else {
+      // 連続がリセット
+      accumulator.consecutiveDays.set(staffId, 1);
+    }
+  } else {
+    // 初回
+    accumulator.consecutiveDays.set(staffId, 1);
+  }
+  accumulator.lastWorkDate.set(staffId, date);
+
+  // その日に割り当て済みとしてマーク
+  if (!accumulator.dailyAssignments.has(staffId)) {
+    accumulator.dailyAssignments.set(staffId, new Set());
+  }
+  accumulator.dailyAssignments.get(staffId)!.add(date);
+}
+
+// 勤務時間帯を記録（勤務間インターバルの判定用）
+function addWorkedSlot(
+  staffId: string,
+  date: string,
+  times: WorkTimes,
+  accumulator: StaffWorkAccumulator
+): void {
+  if (!accumulator.workedSlots.has(staffId)) {
+    accumulator.workedSlots.set(staffId, []);
+  }
+  accumulator.workedSlots.get(staffId)!.push({
+    date,
+    startTime: times.startTime,
+    endTime: times.endTime,
+  });
+}
+
+export function updateAccumulator(
+  staffId: string,
+  date: string,
+  timeSlot: TimeSlot,
+  accumulator: StaffWorkAccumulator
+): void {
+  addWorkHours(staffId, date, getTimeSlotDuration(timeSlot), accumulator);
+  addWorkedSlot(staffId, date, timeSlot, accumulator);
+  markWorkDay(staffId, date, accumulator);
+}
+
+// 必須スタッフ設定・既存シフトの分を先に確保（労働時間・勤務時間帯・その日の割り当て）
+export function reservePinnedSlot(
+  staffId: string,
+  date: string,
+  times: WorkTimes,
+  accumulator: StaffWorkAccumulator
+): void {
+  addWorkHours(staffId, date, calculateShiftHours(times), accumulator);
+  reserveDate(staffId, date, times, accumulator);
+}
+
+// 勤務時間帯とその日の割り当てを確保（翌日以降の分は連続勤務日数の判定に含める）
+function reserveDate(
+  staffId: string,
+  date: string,
+  times: WorkTimes,
+  accumulator: StaffWorkAccumulator
+): void {
+  addWorkedSlot(staffId, date, times, accumulator);
+  if (!accumulator.pinnedDates.has(staffId)) {
+    accumulator.pinnedDates.set(staffId, new Set());
+  }
+  accumulator.pinnedDates.get(staffId)!.add(date);
+  if (!accumulator.dailyAssignments.has(staffId)) {
+    accumulator.dailyAssignments.set(staffId, new Set());
+  }
+  accumulator.dailyAssignments.get(staffId)!.add(date);
+}
+
+// 対象月の前後のシフトを確保（週の労働時間・勤務時間帯・その日の割り当て、月の労働時間には含めない）
+// 前のシフトは勤務日として記録し、前月末からの連続勤務日数を引き継ぐ
+export function reserveAdjacentShifts(adjacent: AdjacentShifts, accumulator: StaffWorkAccumulator): void {
+  for (const shift of [...adjacent.preceding, ...adjacent.following]) {
+    addWeeklyHours(shift.staffId, shift.date, calculateShiftHours(shift), accumulator);
+    reserveDate(shift.staffId, shift.date, shift, accumulator);
+  }
+
+  const preceding = [...adjacent.preceding].sort((a, b) => a.date.localeCompare(b.date));
+  for (const shift of preceding) {
+    if (accumulator.lastWorkDate.get(shift.staffId) !== shift.date) {
+      markWorkDay(shift.staffId, shift.date, accumulator);
+    }
+  }
+}
+
+// 確定済みのシフトを全て確保した累積情報を作成（指定日より前の勤務日は連続勤務日数に反映）
+// 割り当て順に依存せず、確定後のスケジュールへ1件追加できるかを判定するために使う
+export function createAccumulatorFromShifts(
+  staffId: string,
+  shifts: Shift[],
+  date: string,
+  adjacent: AdjacentShifts = { preceding: [], following: [] }
+): StaffWorkAccumulator {
+  const accumulator = createAccumulator();
+  reserveAdjacentShifts(
+    {
+      preceding: adjacent.preceding.filter((shift) => shift.staffId === staffId),
+      following: adjacent.following.filter((shift) => shift.staffId === staffId),
+    },
+    accumulator
+  );
+
+  const staffShifts = shifts
+    .filter((shift) => shift.staffId === staffId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const shift of staffShifts) {
+    reservePinnedSlot(staffId, shift.date, shift, accumulator);
+  }
+  new Set(staffShifts.filter((shift) => shift.date < date).map((shift) => shift.date)).forEach(
+    (workDate) => markWorkDay(staffId, workDate, accumulator)
+  );
+
+  return accumulator;
+}
+
+export function createAccumulator(): StaffWorkAccumulator {
+  return {
+    weeklyHours: new Map(),
+    monthlyHours: new Map(),
+    consecutiveDays: new Map(),
+    lastWorkDate: new Map(),
+    dailyAssignments: new Map(),
+    pinnedDates: new Map(),
+    workedSlots: new Map(),
+  };
+}
+
+// ========================================
+// スケジュール全体の検証
+// ========================================
+
+// スタッフ1人分の割り当て
+export interface StaffAssignment {
+  date: string;
+  timeSlot: TimeSlot;
+  position: string;
+  isPinned: boolean; // 必須スタッフ設定による割り当て
+}
+
+// スタッフ1人分の割り当て一式が制約を満たすか検証
+// 必須スタッフ設定を先に確保し、それ以外を日付・時間帯順に canAssign で確認する（生成時と同じ判定）
+export function isStaffScheduleFeasible(
+  staff: Staff,
+  assignments: StaffAssignment[],
+  skills: Map<string, StaffSkill>,
+  availabilities: StaffAvailability[],
+  workLimits: Map<string, StaffWorkLimit>,
+  unavailableDates: StaffUnavailableDate[],
+  adjacent: AdjacentShifts = { preceding: [], following: [] } // このスタッフの対象月の前後のシフト
+): boolean {
+  const accumulator = createAccumulator();
+  reserveAdjacentShifts(adjacent, accumulator);
+
+  const sorted = [...assignments].sort((a, b) => {
+    if (a.date !== b.date) return a.date.localeCompare(b.date);
+    if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1;
+    return a.timeSlot.displayOrder - b.timeSlot.displayOrder;
+  });
+
+  for (const assignment of sorted) {
+    if (!assignment.isPinned) continue;
+    reservePinnedSlot(staff.id, assignment.date, assignment.timeSlot, accumulator);
+  }
+
+  for (const assignment of sorted) {
+    if (assignment.isPinned) {
+      markWorkDay(staff.id, assignment.date, accumulator);
+      continue;
+    }
+
+    if (
+      !canAssign(
+        staff,
+        assignment.date,
+        assignment.timeSlot,
+        assignment.position,
+        skills,
+        availabilities,
+        workLimits,
+        unavailableDates,
+        accumulator
+      ).allowed
+    ) {
+      return false;
+    }
+    updateAccumulator(staff.id, assignment.date, assignment.timeSlot, accumulator);
+  }
+
+  return true;
+}
@@ -0,0 +1,125 @@
+import {
+  generateMonthlyShift,
+  type CandidateRanking,
+  type GenerationProgressCallback,
+  type GenerationResult,
+  type ShiftGenerationInput,
+} from './autoShiftAlgorithm';
+import { optimizeMonthlyShift, DEFAULT_OPTIMIZER_OPTIONS, type OptimizerOptions } from './shiftOptimizer';
+import { applyBreakRulesToShift, resolveBreakRules } from './restBreaks';
+
+// シフト生成エンジン
+// 生成戦略を差し替えて使う（制約チェックは shiftConstraints、結果は GenerationResult で共通）
+
+// ========================================
+// 型定義
+// ========================================
+
+export type ShiftStrategyId = 'greedy_priority' | 'greedy_trust' | 'greedy_fairness' | 'greedy_cost' | 'optimize';
+
+// シフト生成戦略
+export interface ShiftGenerationStrategy {
+  id: ShiftStrategyId;
+  name: string;
+  description: string;
+  usesOptimizerOptions: boolean; // 乱数シード・反復回数・計算時間の上限を使うか
+  generate: (
+    input: ShiftGenerationInput,
+    options: OptimizerOptions,
+    onProgress?: GenerationProgressCallback
+  ) => Promise<GenerationResult>;
+}
+
+// ========================================
+// 戦略の定義
+// ========================================
+
+// 日付・時間帯順に、指定した基準で並べたスタッフから割り当てる
+function createGreedyStrategy(
+  id: ShiftStrategyId,
+  ranking: CandidateRanking,
+  name: string,
+  description: string
+): ShiftGenerationStrategy {
+  return {
+    id,
+    name,
+    description,
+    usesOptimizerOptions: false,
+    generate: (input, _options, onProgress) =>
+      generateMonthlyShift(input, ranking, onProgress),
+  };
+}
+
+export const SHIFT_GENERATION_STRATEGIES: ShiftGenerationStrategy[] = [
+  createGreedyStrategy(
+    'greedy_priority',
+    'priority',
+    '標準',
+    '日付順に、スキル適合度・優先度設定・連続勤務回避を総合したスコアの高いスタッフから割り当て'
+  ),
+  createGreedyStrategy(
+    'greedy_trust',
+    'trust',
+    '信頼度順',
+    '日付順に、信頼度の高いスタッフから割り当て（同じ信頼度なら労働時間の少ないスタッフ）'
+  ),
+  createGreedyStrategy(
+    'greedy_fairness',
+    'fairness',
+    '公平性重視',
+    '日付順に、その月の労働時間が少ないスタッフから割り当て'
+  ),
+  createGreedyStrategy(
+    'greedy_cost',
+    'cost',
+    '人件費重視',
+    '日付順に、時給と深夜・休日の割増を含めた人件費の安いスタッフから割り当て'
+  ),
+  {
+    id: 'optimize',
+    name: '最適化',
+    description: '標準の結果をもとに、月全体で不足・労働時間の偏り・人件費が少なくなるよう調整',
+    usesOptimizerOptions: true,
+    generate: (input, options, onProgress) => optimizeMonthlyShift(input, options, onProgress),
+  },
+];
+
+export const DEFAULT_STRATEGY_ID: ShiftStrategyId = 'greedy_priority';
+
+// ========================================
+// 生成
+// ========================================
+
+export function getShiftGenerationStrategy(id: ShiftStrategyId): ShiftGenerationStrategy {
+  return (
+    SHIFT_GENERATION_STRATEGIES.find((strategy) => strategy.id === id) ||
+    SHIFT_GENERATION_STRATEGIES.find((strategy) => strategy.id === DEFAULT_STRATEGY_ID)!
+  );
+}
+
+// 登録済みのシフトの休憩時間が未設定の場合は、登録した休憩ルールで設定する
+function applyBreakRulesToInput(input: ShiftGenerationInput): ShiftGenerationInput {
+  const rules = resolveBreakRules(input.breakRules);
+  const apply = (shifts: ShiftGenerationInput['existingShifts']) =>
+    shifts.map((shift) => applyBreakRulesToShift(shift, rules));
+  return {
+    ...input,
+    existingShifts: apply(input.existingShifts),
+    pastShifts: apply(input.pastShifts),
+    adjacentShifts: {
+      preceding: apply(input.adjacentShifts.preceding),
+      following: apply(input.adjacentShifts.following),
+    },
+  };
+}
+
+// 選択した戦略でシフトを生成
+export async function generateShifts(
+  input: ShiftGenerationInput,
+  strategyId: ShiftStrategyId = DEFAULT_STRATEGY_ID,
+  options: OptimizerOptions = DEFAULT_OPTIMIZER_OPTIONS,
+  onProgress?: GenerationProgressCallback
+): Promise<GenerationResult> {
+  return getShiftGenerationStrategy(strategyId).generate(applyBreakRulesToInput(input), options, onProgress);
+}
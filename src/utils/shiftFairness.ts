@@ -0,0 +1,124 @@
+import type { Staff, Shift } from '../types';
+import { parseISO, getDay } from 'date-fns';
+import { isNightShift } from './helpers';
+
+// 土日・祝日・夜勤の担当回数の公平性
+// 生成時の候補スタッフの並び順と、生成結果の公平性レポートで共通の集計を使う
+
+// ========================================
+// 型定義
+// ========================================
+
+// 負担の偏りを集計する日・時間帯の種類
+export type DayCategory = 'saturday' | 'sunday' | 'holiday' | 'night';
+
+export const DAY_CATEGORIES: DayCategory[] = ['saturday', 'sunday', 'holiday', 'night'];
+
+export const DAY_CATEGORY_LABELS: Record<DayCategory, string> = {
+  saturday: '土曜',
+  sunday: '日曜',
+  holiday: '祝日',
+  night: '夜勤',
+};
+
+// スタッフごとの担当回数
+export type DayCategoryCounts = Record<DayCategory, number>;
+
+// 公平性レポート（役職ごと）
+export interface FairnessReportRow {
+  staffId: string;
+  staffName: string;
+  counts: DayCategoryCounts;
+}
+
+export interface FairnessReport {
+  position: string;
+  rows: FairnessReportRow[];
+  spread: DayCategoryCounts; // 担当回数の最大と最小の差
+}
+
+// 過去のシフトを含めて集計する期間の既定値（対象月を含む月数）
+export const DEFAULT_FAIRNESS_WINDOW_MONTHS = 3;
+
+// ========================================
+// 集計
+// ========================================
+
+export function createEmptyCounts(): DayCategoryCounts {
+  return { saturday: 0, sunday: 0, holiday: 0, night: 0 };
+}
+
+// シフトが該当する種類（祝日の土日はどちらにも数える）
+export function getDayCategories(
+  date: string,
+  shift: Pick<Shift, 'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime'>,
+  holidays: Set<string>
+): DayCategory[] {
+  const categories: DayCategory[] = [];
+  const dayOfWeek = getDay(parseISO(date));
+  if (dayOfWeek === 6) categories.push('saturday');
+  if (dayOfWeek === 0) categories.push('sunday');
+  if (holidays.has(date)) categories.push('holiday');
+  if (isNightShift(shift)) categories.push('night');
+  return categories;
+}
+
+// 担当回数に加算
+export function addDayCategories(
+  counts: Map<string, DayCategoryCounts>,
+  staffId: string,
+  categories: DayCategory[]
+): void {
+  const staffCounts = counts.get(staffId) || createEmptyCounts();
+  categories.forEach((category) => staffCounts[category]++);
+  counts.set(staffId, staffCounts);
+}
+
+// シフトからスタッフごとの担当回数を集計
+export function countDayCategories(
+  shifts: Shift[],
+  holidays: Set<string>
+): Map<string, DayCategoryCounts> {
+  const counts = new Map<string, DayCategoryCounts>();
+  for (const shift of shifts) {
+    addDayCategories(counts, shift.staffId, getDayCategories(shift.date, shift, holidays));
+  }
+  return counts;
+}
+
+// 割り当てる枠の種類について、これまでの担当回数の合計（少ないほど優先）
+export function getCategoryLoad(
+  counts: DayCategoryCounts | undefined,
+  categories: DayCategory[]
+): number {
+  if (!counts) return 0;
+  return categories.reduce((sum, category) => sum + counts[category], 0);
+}
+
+// ========================================
+// 公平性レポート
+// ========================================
+
+// 役職（主担当）ごとに、スタッフの担当回数と偏りを一覧にする
+export function buildFairnessReport(
+  staff: Staff[],
+  shifts: Shift[], // 集計期間のシフト（過去分・維持する既存シフトを含む）
+  holidays: Set<string>
+): FairnessReport[] {
+  const counts = countDayCategories(shifts, holidays);
+  const positions = [...new Set(staff.filter((s) => s.isActive).map((s) => s.position))];
+
+  return positions.map((position) => {
+    const rows = staff
+      .filter((s) => s.isActive && s.position === position)
+      .map((s) => ({ staffId: s.id, staffName: s.name, counts: counts.get(s.id) || createEmptyCounts() }));
+
+    const spread = createEmptyCounts();
+    for (const category of DAY_CATEGORIES) {
+      const values = rows.map((row) => row.counts[category]);
+      spread[category] = Math.max(...values) - Math.min(...values);
+    }
+
+    return { position, rows, spread };
+  });
+}
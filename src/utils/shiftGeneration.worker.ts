@@ -0,0 +1,20 @@
+import { generateShifts } from './shiftEngine';
+import type { ShiftGenerationMessage, ShiftGenerationRequest } from './shiftGenerationWorker';
+
+// シフト生成の Web Worker（startShiftGeneration から起動する）
+// 進捗・結果・エラーをメッセージでメインスレッドへ返す
+
+const post = (message: ShiftGenerationMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<ShiftGenerationRequest>) => {
+  const { input, strategyId, options } = event.data;
+
+  try {
+    const result = await generateShifts(input, strategyId, options, (progress) =>
+      post({ type: 'progress', progress })
+    );
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'シフト生成中にエラーが発生しました' });
+  }
+};
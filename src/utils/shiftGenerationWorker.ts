@@ -0,0 +1,89 @@
+import type {
+  GenerationProgress,
+  GenerationProgressCallback,
+  GenerationResult,
+  ShiftGenerationInput,
+} from './autoShiftAlgorithm';
+import type { OptimizerOptions } from './shiftOptimizer';
+import type { ShiftStrategyId } from './shiftEngine';
+
+// シフト生成の Web Worker の呼び出し
+// 生成中も画面が固まらないよう、生成処理をワーカーで実行して進捗を受け取る
+
+// ========================================
+// 型定義
+// ========================================
+
+// ワーカーへの生成依頼
+export interface ShiftGenerationRequest {
+  input: ShiftGenerationInput;
+  strategyId: ShiftStrategyId;
+  options: OptimizerOptions;
+}
+
+// ワーカーからのメッセージ
+export type ShiftGenerationMessage =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'result'; result: GenerationResult }
+  | { type: 'error'; message: string };
+
+// 実行中の生成（結果の待機とキャンセル）
+export interface ShiftGenerationTask {
+  result: Promise<GenerationResult>;
+  cancel: () => void;
+}
+
+// キャンセルされた場合のエラー
+export class ShiftGenerationCancelledError extends Error {
+  constructor() {
+    super('シフト生成をキャンセルしました');
+    this.name = 'ShiftGenerationCancelledError';
+  }
+}
+
+// ========================================
+// 生成
+// ========================================
+
+// ワーカーでシフト生成を開始（キャンセルするとワーカーを停止する）
+export function startShiftGeneration(
+  request: ShiftGenerationRequest,
+  onProgress?: GenerationProgressCallback
+): ShiftGenerationTask {
+  const worker = new Worker(new URL('./shiftGeneration.worker.ts', import.meta.url), { type: 'module' });
+  let rejectResult: (reason: Error) => void = () => {};
+
+  const result = new Promise<GenerationResult>((resolve, reject) => {
+    rejectResult = reject;
+
+    worker.onmessage = (event: MessageEvent<ShiftGenerationMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+  });
+
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      rejectResult(new ShiftGenerationCancelledError());
+    },
+  };
+}
@@ -0,0 +1,761 @@
+import type {
+  Staff,
+  Shift,
+  TimeSlot,
+  StaffAvailability,
+  StaffWorkLimit,
+  StaffUnavailableDate,
+  StaffPriority,
+  StaffSkill,
+} from '../types';
+import { format } from 'date-fns';
+import { shiftCoversTimeSlot } from './helpers';
+import {
+  generateMonthlyShift,
+  calculateRequiredCount,
+  addBanquetRequirements,
+  calculatePriorityBlend,
+  createShiftFromTimeSlot,
+  explainShortages,
+  findUnderAllocations,
+  getStaffRequirementBuilding,
+  validateFollowingShifts,
+  validatePairRules,
+  validateSeniorCoverage,
+  validateBreakCoverage,
+  type GenerationProgressCallback,
+  type GenerationResult,
+  type ShiftGenerationInput,
+  type ShortageReport,
+} from './autoShiftAlgorithm';
+import { getRequirementKey } from './requirementTemplates';
+import {
+  getSkillMatch,
+  getTimeSlotDuration,
+  isStaffScheduleFeasible,
+  type AdjacentShifts,
+  type StaffAssignment,
+} from './shiftConstraints';
+import {
+  DAY_CATEGORIES,
+  buildFairnessReport,
+  countDayCategories,
+  getCategoryLoad,
+  getDayCategories,
+} from './shiftFairness';
+import { buildLaborCostReport, calculateShiftCost } from './laborCost';
+import {
+  buildPreferenceReport,
+  buildStaffPreferences,
+  countExcessWeeklyDays,
+  scorePreference,
+} from './staffPreferences';
+import { buildPairRuleSet, findPairRuleViolations, hasPairRules } from './staffPairRules';
+import { applyBreakRules, resolveBreakRules, scheduleRestBreaks } from './restBreaks';
+import {
+  buildSeniorCoverageMap,
+  countSeniorStaff,
+  getSeniorCoverageKey,
+  isSeniorStaff,
+} from './seniorCoverage';
+
+// ========================================
+// 型定義
+// ========================================
+
+// 最適化ソルバーの設定
+export interface OptimizerOptions {
+  seed: number; // 乱数シード（同じシード・反復回数なら同じ結果）
+  iterations: number; // 反復回数（この回数で終了する）
+  timeLimitMs: number; // 安全のための時間上限（超えた場合はその時点の最良解を返し、結果のメッセージで知らせる）
+}
+
+export const DEFAULT_OPTIMIZER_OPTIONS: OptimizerOptions = {
+  seed: 1,
+  iterations: 20000,
+  timeLimitMs: 10000,
+};
+
+// 目的関数の重み
+const SHORTAGE_WEIGHT = 1000; // 不足1人あたり
+const SKILL_WEIGHT = 2; // スキル適合度の不足1ポイントあたり
+const PRIORITY_WEIGHT = 0.5; // 優先度設定の不足1ポイントあたり
+const FAIRNESS_WEIGHT = 0.05; // 月の労働時間の偏り（平均との差の2乗）あたり
+const MINIMUM_HOURS_WEIGHT = 5; // 月の最低労働時間に満たない1時間あたり
+const DAY_CATEGORY_WEIGHT = 2; // 土日祝・夜勤の担当回数（2乗、集計期間内）あたり
+const LABOR_COST_WEIGHT = 0.002; // 人件費1円あたり（充足が同じなら安いスタッフを選ぶ）
+const STAFF_PREFERENCE_WEIGHT = 0.5; // 勤務希望への合い具合の不足1ポイントあたり
+const WEEKLY_DAYS_WEIGHT = 10; // 週の希望勤務日数を超えた1日あたり
+const SENIOR_COVERAGE_WEIGHT = 500; // ベテランの最低人数に満たない1人あたり（人員の不足より軽くする）
+
+// 進捗を通知する間隔（反復回数）
+const PROGRESS_INTERVAL = 500;
+
+// 焼きなましの温度（開始・終了）
+const INITIAL_TEMPERATURE = 50;
+const FINAL_TEMPERATURE = 0.5;
+
+// 必要人数の枠（日付・時間帯・役職ごと）
+interface Demand {
+  date: string;
+  timeSlot: TimeSlot;
+  position: string;
+  buildingId?: string; // 館別の必要人数の場合の館
+  requiredCount: number;
+  pinnedCount: number; // 必須スタッフ設定・既存シフトで配置済みの人数
+  staffIds: string[]; // ソルバーが割り当てたスタッフ
+}
+
+// ========================================
+// 乱数生成
+// ========================================
+
+// シード付き乱数（mulberry32）
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// 生成したシフトの時間帯IDを取得（IDは staffId-date-timeSlotId 形式）
+function getTimeSlotId(shift: Shift): string {
+  return shift.id.slice(`${shift.staffId}-${shift.date}-`.length);
+}
+
+// 既存シフトを時間帯として扱う（スタッフごとの検証・労働時間の計算用）
+function toFixedTimeSlot(shift: Shift): TimeSlot {
+  return {
+    id: shift.id,
+    name: '既存シフト',
+    startTime: shift.startTime,
+    endTime: shift.endTime,
+    breakStartTime: shift.breakStartTime,
+    breakEndTime: shift.breakEndTime,
+    restBreakStartTime: shift.restBreakStartTime,
+    restBreakMinutes: shift.restBreakMinutes,
+    displayOrder: 0,
+    isActive: true,
+  };
+}
+
+// ========================================
+// 最適化ソルバー
+// ========================================
+
+// 貪欲法の結果を初期解として、焼きなまし法で不足・偏り・優先度を改善する
+export async function optimizeMonthlyShift(
+  input: ShiftGenerationInput,
+  options: OptimizerOptions = DEFAULT_OPTIMIZER_OPTIONS,
+  onProgress?: GenerationProgressCallback
+): Promise<GenerationResult> {
+  const initial = await generateMonthlyShift(input, 'priority', onProgress);
+
+  const random = createRandom(options.seed);
+  const startedAt = Date.now();
+
+  // ルックアップ用のMapを作成
+  const activeStaff = input.staff.filter((s) => s.isActive);
+  const staffMap = new Map<string, Staff>();
+  activeStaff.forEach((s) => staffMap.set(s.id, s));
+
+  // 休憩ルールの休憩時間を時間帯に設定（労働時間は休憩を除いて計算する）
+  const breakRules = resolveBreakRules(input.breakRules);
+  const activeTimeSlots = input.timeSlots.filter((ts) => ts.isActive).map((ts) => applyBreakRules(ts, breakRules));
+  const timeSlotMap = new Map<string, TimeSlot>();
+  activeTimeSlots.forEach((ts) => timeSlotMap.set(ts.id, ts));
+
+  const workLimitsMap = new Map<string, StaffWorkLimit>();
+  input.workLimits.forEach((wl) => workLimitsMap.set(wl.staffId, wl));
+
+  const prioritiesMap = new Map<string, StaffPriority>();
+  input.priorities.forEach((p) => prioritiesMap.set(`${p.staffId}-${p.position}`, p));
+
+  const skillsMap = new Map<string, StaffSkill>();
+  input.skills.forEach((sk) => skillsMap.set(`${sk.staffId}-${sk.position}`, sk));
+
+  // 検証を速くするためスタッフごとに分けておく
+  const availabilitiesByStaff = new Map<string, StaffAvailability[]>();
+  input.availabilities.forEach((a) => {
+    availabilitiesByStaff.set(a.staffId, [...(availabilitiesByStaff.get(a.staffId) || []), a]);
+  });
+  const unavailableByStaff = new Map<string, StaffUnavailableDate[]>();
+  input.unavailableDates.forEach((u) => {
+    unavailableByStaff.set(u.staffId, [...(unavailableByStaff.get(u.staffId) || []), u]);
+  });
+  const adjacentByStaff = new Map<string, AdjacentShifts>();
+  activeStaff.forEach((s) =>
+    adjacentByStaff.set(s.id, {
+      preceding: input.adjacentShifts.preceding.filter((shift) => shift.staffId === s.id),
+      following: input.adjacentShifts.following.filter((shift) => shift.staffId === s.id),
+    })
+  );
+
+  // 対象月の必須スタッフ設定（生成時と同じく、スタッフと時間帯が有効なもののみ）
+  const startDateStr = format(new Date(input.year, input.month - 1, 1), 'yyyy-MM-dd');
+  const endDateStr = format(new Date(input.year, input.month, 0), 'yyyy-MM-dd');
+  const existingShifts = input.existingShifts.filter(
+    (s) => s.date >= startDateStr && s.date <= endDateStr
+  );
+  const pins = input.requiredAssignments.filter(
+    (r) =>
+      r.date >= startDateStr &&
+      r.date <= endDateStr &&
+      input.staff.some((s) => s.id === r.staffId) &&
+      timeSlotMap.has(r.timeSlotId) &&
+      !existingShifts.some((s) => s.staffId === r.staffId && s.date === r.date)
+  );
+
+  // 必要人数の枠を作成
+  const demands: Demand[] = [];
+  const demandIndex = new Map<string, number>();
+  const requirements = addBanquetRequirements(
+    input.requirements,
+    input.occupancies,
+    input.positions,
+    activeTimeSlots
+  );
+  for (const req of requirements) {
+    const timeSlot = timeSlotMap.get(req.timeSlotId);
+    if (!timeSlot || req.date < startDateStr || req.date > endDateStr) continue;
+
+    demandIndex.set(getRequirementKey(req.date, req.timeSlotId, req.position, req.buildingId), demands.length);
+    demands.push({
+      date: req.date,
+      timeSlot,
+      position: req.position,
+      buildingId: req.buildingId,
+      requiredCount: calculateRequiredCount(req, req.date, input.occupancies, timeSlot, input.positions),
+      pinnedCount: 0,
+      staffIds: [],
+    });
+  }
+
+  // 日付・時間帯・役職ごとの必要人数がある館別の枠の館
+  const scopedBuildings = new Map<string, Set<string>>();
+  for (const demand of demands) {
+    if (!demand.buildingId || demand.requiredCount <= 0) continue;
+    const key = getRequirementKey(demand.date, demand.timeSlot.id, demand.position);
+    if (!scopedBuildings.has(key)) scopedBuildings.set(key, new Set());
+    scopedBuildings.get(key)!.add(demand.buildingId);
+  }
+  // スタッフの勤務を数える館（全館の枠に数える場合は undefined）
+  const getRequirementBuilding = (staffId: string, date: string, timeSlotId: string, position: string) =>
+    getStaffRequirementBuilding(
+      input.staff.find((s) => s.id === staffId),
+      scopedBuildings.get(getRequirementKey(date, timeSlotId, position))
+    );
+  const isInDemandBuilding = (staffId: string, demand: Demand) =>
+    getRequirementBuilding(staffId, demand.date, demand.timeSlot.id, demand.position) === demand.buildingId;
+
+  for (const demand of demands) {
+    demand.pinnedCount =
+      pins.filter(
+        (p) =>
+          p.date === demand.date &&
+          p.timeSlotId === demand.timeSlot.id &&
+          p.position === demand.position &&
+          isInDemandBuilding(p.staffId, demand)
+      ).length +
+      existingShifts.filter(
+        (s) =>
+          s.date === demand.date &&
+          s.position === demand.position &&
+          shiftCoversTimeSlot(s, demand.timeSlot) &&
+          isInDemandBuilding(s.staffId, demand)
+      ).length;
+  }
+
+  // スタッフごとの割り当て（必須スタッフ設定・既存シフトを含む）
+  const schedules = new Map<string, StaffAssignment[]>();
+  activeStaff.forEach((s) => schedules.set(s.id, []));
+  for (const shift of existingShifts) {
+    schedules.get(shift.staffId)?.push({
+      date: shift.date,
+      timeSlot: toFixedTimeSlot(shift),
+      position: shift.position,
+      isPinned: true,
+    });
+  }
+  for (const pin of pins) {
+    schedules.get(pin.staffId)?.push({
+      date: pin.date,
+      timeSlot: timeSlotMap.get(pin.timeSlotId)!,
+      position: pin.position,
+      isPinned: true,
+    });
+  }
+
+  // 初期解（貪欲法の結果）を取り込む（必須スタッフ設定と、対応する枠がないシフトは固定のまま残す）
+  const pinnedShifts: Shift[] = [];
+  for (const shift of initial.shifts) {
+    const timeSlotId = getTimeSlotId(shift);
+    const isPinned = pins.some(
+      (p) => p.staffId === shift.staffId && p.date === shift.date && p.timeSlotId === timeSlotId
+    );
+    if (isPinned) {
+      pinnedShifts.push(shift);
+      continue;
+    }
+
+    const index = demandIndex.get(
+      getRequirementKey(
+        shift.date,
+        timeSlotId,
+        shift.position,
+        getRequirementBuilding(shift.staffId, shift.date, timeSlotId, shift.position)
+      )
+    );
+    if (index === undefined) {
+      pinnedShifts.push(shift);
+      schedules.get(shift.staffId)?.push({
+        date: shift.date,
+        timeSlot: toFixedTimeSlot(shift),
+        position: shift.position,
+        isPinned: true,
+      });
+      continue;
+    }
+    demands[index].staffIds.push(shift.staffId);
+    schedules.get(shift.staffId)?.push({
+      date: shift.date,
+      timeSlot: demands[index].timeSlot,
+      position: shift.position,
+      isPinned: false,
+    });
+  }
+
+  // 指導担当・同時配置NG（日付ごとに固定のシフトと割り当てを合わせて判定し、違反を増やす入れ替えはしない）
+  const pairRuleSet = buildPairRuleSet(input.pairRules);
+  const checkPairRules = hasPairRules(pairRuleSet);
+  const fixedShiftsByDate = new Map<string, Shift[]>();
+  [...existingShifts, ...pinnedShifts].forEach((shift) =>
+    fixedShiftsByDate.set(shift.date, [...(fixedShiftsByDate.get(shift.date) || []), shift])
+  );
+  const demandsByDate = new Map<string, Demand[]>();
+  demands.forEach((demand) => demandsByDate.set(demand.date, [...(demandsByDate.get(demand.date) || []), demand]));
+  const countPairViolations = (dates: string[]) =>
+    [...new Set(dates)].reduce(
+      (sum, date) =>
+        sum +
+        findPairRuleViolations(
+          [
+            ...(fixedShiftsByDate.get(date) || []),
+            ...(demandsByDate.get(date) || []).flatMap((d) =>
+              d.staffIds.map((id) => createShiftFromTimeSlot(id, d.date, d.position, d.timeSlot))
+            ),
+          ],
+          input.staff,
+          pairRuleSet
+        ).length,
+      0
+    );
+
+  // 役職・館ごとに対応できるスタッフ（館別の枠は所属館のスタッフのみ）
+  const qualifiedStaff = new Map<string, Staff[]>();
+  const getQualifiedKey = (demand: Demand) => `${demand.position}-${demand.buildingId || ''}`;
+  for (const demand of demands) {
+    if (!qualifiedStaff.has(getQualifiedKey(demand))) {
+      qualifiedStaff.set(
+        getQualifiedKey(demand),
+        activeStaff.filter(
+          (s) =>
+            getSkillMatch(s, demand.position, skillsMap) > 0 &&
+            (!demand.buildingId || s.homeBuildingId === demand.buildingId)
+        )
+      );
+    }
+  }
+
+  // ========================================
+  // 目的関数
+  // ========================================
+
+  const getShortage = (demand: Demand) =>
+    Math.max(0, demand.requiredCount - demand.pinnedCount - demand.staffIds.length);
+
+  // 祝日（土日祝・夜勤の担当回数と休日割増に使う）
+  const holidaySet = new Set(input.holidays);
+
+  // 勤務希望（対象月の出勤希望日のみ、週の勤務日数は割り当て全体で別に評価する）
+  const preferences = buildStaffPreferences(
+    input.standardSchedules,
+    input.workRequests.filter((r) => r.date >= startDateStr && r.date <= endDateStr)
+  );
+
+  // 割り当て1件あたりのコスト（スキル適合度・優先度設定・勤務希望への合い具合が低いほど、人件費が高いほど高い）
+  const assignmentCost = (staff: Staff, demand: Demand) =>
+    (100 - getSkillMatch(staff, demand.position, skillsMap)) * SKILL_WEIGHT +
+    (100 - calculatePriorityBlend(staff, prioritiesMap.get(`${staff.id}-${demand.position}`), demand.date)) *
+      PRIORITY_WEIGHT +
+    (100 - scorePreference(preferences.get(staff.id), demand.date, demand.timeSlot)) * STAFF_PREFERENCE_WEIGHT +
+    calculateShiftCost(staff, demand.date, demand.timeSlot, holidaySet) * LABOR_COST_WEIGHT;
+
+  const monthlyHours = new Map<string, number>();
+  schedules.forEach((assignments, staffId) => {
+    monthlyHours.set(
+      staffId,
+      assignments.reduce((sum, a) => sum + getTimeSlotDuration(a.timeSlot), 0)
+    );
+  });
+
+  const fairnessCost = () => {
+    if (monthlyHours.size === 0) return 0;
+    const hours = [...monthlyHours.values()];
+    const mean = hours.reduce((sum, h) => sum + h, 0) / hours.length;
+    return hours.reduce((sum, h) => sum + (h - mean) ** 2, 0) * FAIRNESS_WEIGHT;
+  };
+
+  // 月の最低労働時間に満たない時間（必要人数を満たすことを優先するため不足より軽くする）
+  // 土日祝・夜勤の担当回数（過去のシフト分 + 対象月の割り当て）
+  const pastShifts = input.pastShifts.filter((s) => s.date < startDateStr);
+  const pastCategoryCounts = countDayCategories(pastShifts, holidaySet);
+  const countCategories = (staffId: string, assignments: StaffAssignment[]) =>
+    getCategoryLoad(pastCategoryCounts.get(staffId), DAY_CATEGORIES) +
+    assignments.reduce((sum, a) => sum + getDayCategories(a.date, a.timeSlot, holidaySet).length, 0);
+
+  const categoryTotals = new Map<string, number>();
+  schedules.forEach((assignments, staffId) => categoryTotals.set(staffId, countCategories(staffId, assignments)));
+
+  // 2乗の合計で、担当回数の多いスタッフに偏るほど大きくする
+  const dayCategoryCost = () => {
+    let cost = 0;
+    categoryTotals.forEach((count) => (cost += count ** 2));
+    return cost * DAY_CATEGORY_WEIGHT;
+  };
+
+  // 週の希望勤務日数を超えた日数（スタッフごと）
+  const countExcessDays = (staffId: string, assignments: StaffAssignment[]) =>
+    countExcessWeeklyDays(preferences.get(staffId), assignments.map((a) => a.date));
+
+  const excessDays = new Map<string, number>();
+  schedules.forEach((assignments, staffId) => excessDays.set(staffId, countExcessDays(staffId, assignments)));
+
+  const weeklyDaysCost = () => {
+    let cost = 0;
+    excessDays.forEach((days) => (cost += days));
+    return cost * WEEKLY_DAYS_WEIGHT;
+  };
+
+  const minimumHoursCost = () => {
+    let cost = 0;
+    monthlyHours.forEach((hours, staffId) => {
+      const minHours = workLimitsMap.get(staffId)?.minHoursPerMonth || 0;
+      cost += Math.max(0, minHours - hours) * MINIMUM_HOURS_WEIGHT;
+    });
+    return cost;
+  };
+
+  // ベテランの最低人数（日付・時間帯・役職ごとに、固定のシフトと館別の枠をまとめて数える）
+  const seniorCoverageMap = buildSeniorCoverageMap(input.seniorCoverageRules);
+  const seniorGroups = new Map<string, Demand[]>();
+  for (const demand of demands) {
+    if (demand.requiredCount <= 0) continue;
+    if (!seniorCoverageMap.has(getSeniorCoverageKey(demand.timeSlot.id, demand.position))) continue;
+    const key = getRequirementKey(demand.date, demand.timeSlot.id, demand.position);
+    seniorGroups.set(key, [...(seniorGroups.get(key) || []), demand]);
+  }
+  const getSeniorGroupKey = (demand: Demand) => getRequirementKey(demand.date, demand.timeSlot.id, demand.position);
+  const fixedSeniorCounts = new Map<string, number>();
+  seniorGroups.forEach(([demand], key) =>
+    fixedSeniorCounts.set(
+      key,
+      countSeniorStaff(
+        fixedShiftsByDate.get(demand.date) || [],
+        input.staff,
+        seniorCoverageMap.get(getSeniorCoverageKey(demand.timeSlot.id, demand.position))!,
+        demand.timeSlot,
+        demand.date
+      )
+    )
+  );
+  const getSeniorShortfall = (key: string) => {
+    const group = seniorGroups.get(key);
+    if (!group) return 0;
+    const { date, timeSlot, position } = group[0];
+    const rule = seniorCoverageMap.get(getSeniorCoverageKey(timeSlot.id, position))!;
+    const seniorCount =
+      (fixedSeniorCounts.get(key) || 0) +
+      group.reduce(
+        (sum, d) => sum + d.staffIds.filter((id) => isSeniorStaff(staffMap.get(id)!, rule, date)).length,
+        0
+      );
+    return Math.max(0, rule.minCount - seniorCount);
+  };
+
+  let shortageCost = demands.reduce((sum, d) => sum + getShortage(d), 0) * SHORTAGE_WEIGHT;
+  let seniorCost = [...seniorGroups.keys()].reduce((sum, key) => sum + getSeniorShortfall(key), 0) * SENIOR_COVERAGE_WEIGHT;
+  let preferenceCost = demands.reduce(
+    (sum, d) => sum + d.staffIds.reduce((s, id) => s + assignmentCost(staffMap.get(id)!, d), 0),
+    0
+  );
+  let currentCost =
+    shortageCost + seniorCost + preferenceCost + fairnessCost() + minimumHoursCost() + dayCategoryCost() + weeklyDaysCost();
+
+  let bestCost = currentCost;
+  let bestAssignment = demands.map((d) => [...d.staffIds]);
+
+  const isFeasible = (staff: Staff, assignments: StaffAssignment[]) =>
+    isStaffScheduleFeasible(
+      staff,
+      assignments,
+      skillsMap,
+      availabilitiesByStaff.get(staff.id) || [],
+      workLimitsMap,
+      unavailableByStaff.get(staff.id) || [],
+      adjacentByStaff.get(staff.id)
+    );
+
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  // ========================================
+  // 焼きなまし法
+  // ========================================
+
+  let completedIterations = options.iterations;
+  for (let iteration = 0; iteration < options.iterations; iteration++) {
+    // 時間上限は安全のための打ち切り（打ち切った場合は同じシードでも結果が変わることがある）
+    if (Date.now() - startedAt > options.timeLimitMs) {
+      completedIterations = iteration;
+      break;
+    }
+
+    if (iteration % PROGRESS_INTERVAL === 0) {
+      onProgress?.({
+        phase: 'optimize',
+        completed: iteration,
+        total: options.iterations,
+        shortageCount: Math.round(shortageCost / SHORTAGE_WEIGHT),
+      });
+    }
+
+    const temperature =
+      INITIAL_TEMPERATURE * Math.pow(FINAL_TEMPERATURE / INITIAL_TEMPERATURE, iteration / options.iterations);
+
+    const shortDemands = demands.filter((d) => getShortage(d) > 0);
+    const filledDemands = demands.filter((d) => d.staffIds.length > 0);
+
+    // 近傍の選択: 追加（不足枠に割り当て） / 移動（他の枠から不足枠へ） / 交代（同じ枠で別のスタッフに）
+    const moveType = random();
+    let from: Demand | null = null; // スタッフを外す枠
+    let to: Demand | null = null; // スタッフを入れる枠
+    let removedStaff: Staff | null = null;
+    let addedStaff: Staff | null = null;
+
+    if (moveType < 0.4 && shortDemands.length > 0) {
+      to = pick(shortDemands);
+      addedStaff = pick(qualifiedStaff.get(getQualifiedKey(to)) || []) || null;
+    } else if (moveType < 0.7 && shortDemands.length > 0 && filledDemands.length > 0) {
+      from = pick(filledDemands);
+      to = pick(shortDemands);
+      removedStaff = staffMap.get(pick(from.staffIds))!;
+      addedStaff = getSkillMatch(removedStaff, to.position, skillsMap) > 0 ? removedStaff : null;
+    } else if (filledDemands.length > 0) {
+      from = pick(filledDemands);
+      to = from;
+      removedStaff = staffMap.get(pick(from.staffIds))!;
+      addedStaff = pick(qualifiedStaff.get(getQualifiedKey(to)) || []) || null;
+    }
+
+    if (!to || !addedStaff || to.staffIds.includes(addedStaff.id)) continue;
+    if (!isInDemandBuilding(addedStaff.id, to)) continue;
+
+    // 影響を受けるスタッフの新しい割り当てを作成して検証
+    const nextSchedules = new Map<string, StaffAssignment[]>();
+    if (removedStaff && from) {
+      nextSchedules.set(
+        removedStaff.id,
+        schedules.get(removedStaff.id)!.filter(
+          (a) => a.isPinned || a.date !== from!.date || a.timeSlot.id !== from!.timeSlot.id
+        )
+      );
+    }
+    nextSchedules.set(addedStaff.id, [
+      ...(nextSchedules.get(addedStaff.id) || schedules.get(addedStaff.id)!),
+      { date: to.date, timeSlot: to.timeSlot, position: to.position, isPinned: false },
+    ]);
+
+    if (!isFeasible(addedStaff, nextSchedules.get(addedStaff.id)!)) continue;
+
+    // コストの差分を計算
+    const pairDates = from ? [from.date, to.date] : [to.date];
+    const previousPairViolations = checkPairRules ? countPairViolations(pairDates) : 0;
+    const previousShortage = (from && from !== to ? getShortage(from) : 0) + getShortage(to);
+    const seniorKeys = [...new Set([...(from ? [getSeniorGroupKey(from)] : []), getSeniorGroupKey(to)])];
+    const previousSeniorShortfall = seniorKeys.reduce((sum, key) => sum + getSeniorShortfall(key), 0);
+    const previousHours = new Map<string, number>();
+    const previousCategoryTotals = new Map<string, number>();
+    const previousExcessDays = new Map<string, number>();
+    nextSchedules.forEach((_, staffId) => {
+      previousHours.set(staffId, monthlyHours.get(staffId) || 0);
+      previousCategoryTotals.set(staffId, categoryTotals.get(staffId) || 0);
+      previousExcessDays.set(staffId, excessDays.get(staffId) || 0);
+    });
+
+    if (removedStaff && from) {
+      from.staffIds = from.staffIds.filter((id) => id !== removedStaff!.id);
+    }
+    to.staffIds = [...to.staffIds, addedStaff.id];
+    nextSchedules.forEach((assignments, staffId) => {
+      monthlyHours.set(
+        staffId,
+        assignments.reduce((sum, a) => sum + getTimeSlotDuration(a.timeSlot), 0)
+      );
+      categoryTotals.set(staffId, countCategories(staffId, assignments));
+      excessDays.set(staffId, countExcessDays(staffId, assignments));
+    });
+
+    const nextShortage = (from && from !== to ? getShortage(from) : 0) + getShortage(to);
+    const shortageDelta = (nextShortage - previousShortage) * SHORTAGE_WEIGHT;
+    const nextSeniorShortfall = seniorKeys.reduce((sum, key) => sum + getSeniorShortfall(key), 0);
+    const seniorDelta = (nextSeniorShortfall - previousSeniorShortfall) * SENIOR_COVERAGE_WEIGHT;
+    const preferenceDelta =
+      assignmentCost(addedStaff, to) -
+      (removedStaff && from ? assignmentCost(removedStaff, from) : 0);
+    const nextCost =
+      shortageCost +
+      shortageDelta +
+      seniorCost +
+      seniorDelta +
+      preferenceCost +
+      preferenceDelta +
+      fairnessCost() +
+      minimumHoursCost() +
+      dayCategoryCost() +
+      weeklyDaysCost();
+    const delta = nextCost - currentCost;
+    const pairAllowed = !checkPairRules || countPairViolations(pairDates) <= previousPairViolations;
+
+    if (pairAllowed && (delta <= 0 || random() < Math.exp(-delta / temperature))) {
+      // 採用
+      shortageCost += shortageDelta;
+      seniorCost += seniorDelta;
+      preferenceCost += preferenceDelta;
+      currentCost = nextCost;
+      nextSchedules.forEach((assignments, staffId) => schedules.set(staffId, assignments));
+
+      if (currentCost < bestCost) {
+        bestCost = currentCost;
+        bestAssignment = demands.map((d) => [...d.staffIds]);
+      }
+    } else {
+      // 元に戻す
+      to.staffIds = to.staffIds.filter((id) => id !== addedStaff!.id);
+      if (removedStaff && from) {
+        from.staffIds = [...from.staffIds, removedStaff.id];
+      }
+      previousHours.forEach((hours, staffId) => monthlyHours.set(staffId, hours));
+      previousCategoryTotals.forEach((count, staffId) => categoryTotals.set(staffId, count));
+      previousExcessDays.forEach((days, staffId) => excessDays.set(staffId, days));
+    }
+  }
+
+  // ========================================
+  // 最良解を結果の形式に変換
+  // ========================================
+
+  const shifts: Shift[] = [...pinnedShifts];
+  const shortages: Omit<ShortageReport, 'candidates' | 'closestCandidate'>[] = [];
+
+  demands.forEach((demand, index) => {
+    for (const staffId of bestAssignment[index]) {
+      shifts.push(createShiftFromTimeSlot(staffId, demand.date, demand.position, demand.timeSlot));
+    }
+
+    const assignedCount = demand.pinnedCount + bestAssignment[index].length;
+    if (assignedCount < demand.requiredCount) {
+      shortages.push({
+        date: demand.date,
+        timeSlotId: demand.timeSlot.id,
+        timeSlotName: demand.timeSlot.name,
+        position: demand.position,
+        buildingId: demand.buildingId,
+        requiredCount: demand.requiredCount,
+        assignedCount,
+        shortageCount: demand.requiredCount - assignedCount,
+      });
+    }
+  });
+
+  // 日付・時間帯順に並べ替え
+  const slotOrder = (timeSlotId: string) => timeSlotMap.get(timeSlotId)?.displayOrder || 0;
+  shifts.sort((a, b) =>
+    a.date !== b.date
+      ? a.date.localeCompare(b.date)
+      : slotOrder(getTimeSlotId(a)) - slotOrder(getTimeSlotId(b))
+  );
+  shortages.sort((a, b) =>
+    a.date !== b.date ? a.date.localeCompare(b.date) : slotOrder(a.timeSlotId) - slotOrder(b.timeSlotId)
+  );
+
+  // 同じ役職の休憩がなるべく重ならないよう休憩の開始時刻を配置（必須スタッフは生成時の配置のまま）
+  shifts.splice(0, shifts.length, ...scheduleRestBreaks(shifts, existingShifts));
+
+  // 不足枠ごとに割り当てできなかった理由を調べる
+  const explainedShortages = explainShortages(shortages, {
+    staff: input.staff,
+    timeSlots: activeTimeSlots,
+    shifts: [...existingShifts, ...shifts],
+    skills: skillsMap,
+    availabilities: input.availabilities,
+    workLimits: workLimitsMap,
+    unavailableDates: input.unavailableDates,
+    adjacentShifts: input.adjacentShifts,
+    pairRules: pairRuleSet,
+  });
+
+  const success = shortages.length === 0;
+  const keptMessage = existingShifts.length > 0 ? `（既存シフト${existingShifts.length}件を維持）` : '';
+  const timeLimitMessage =
+    completedIterations < options.iterations
+      ? `（計算時間の上限に達したため、反復${completedIterations}/${options.iterations}回で打ち切りました。同じシードでも結果が変わる場合があります）`
+      : '';
+  const message = success
+    ? `${input.year}年${input.month}月のシフトを最適化して生成しました。（不足 ${initial.shortages.length}件 → 0件）${keptMessage}${timeLimitMessage}`
+    : `${input.year}年${input.month}月のシフトを最適化して生成しましたが、${shortages.length}件の不足があります。（最適化前 ${initial.shortages.length}件）${keptMessage}${timeLimitMessage}`;
+
+  return {
+    success,
+    shifts,
+    shortages: explainedShortages,
+    // 翌月のシフト・ペアルール・ベテランの人数・休憩の重なりの検証は最適化後のシフトでやり直す
+    warnings: [
+      ...initial.warnings.filter(
+        (w) =>
+          w.type !== 'next_month' &&
+          w.type !== 'pair_rule' &&
+          w.type !== 'senior_coverage' &&
+          w.type !== 'break_coverage'
+      ),
+      ...validateFollowingShifts(
+        [...existingShifts, ...shifts],
+        input.adjacentShifts,
+        workLimitsMap,
+        endDateStr
+      ),
+      ...validatePairRules([...existingShifts, ...shifts], input.staff, pairRuleSet),
+      ...validateSeniorCoverage(
+        [...existingShifts, ...shifts],
+        input.staff,
+        activeTimeSlots,
+        input.seniorCoverageRules
+      ),
+      ...validateBreakCoverage([...existingShifts, ...shifts]),
+    ],
+    underAllocations: findUnderAllocations(
+      input.staff,
+      workLimitsMap,
+      [...existingShifts, ...shifts],
+      startDateStr,
+      endDateStr
+    ),
+    fairness: buildFairnessReport(input.staff, [...pastShifts, ...existingShifts, ...shifts], holidaySet),
+    laborCost: buildLaborCostReport(input.staff, [...existingShifts, ...shifts], input.positions, holidaySet),
+    preferences: buildPreferenceReport(input.staff, [...existingShifts, ...shifts], preferences),
+    message,
+  };
+}
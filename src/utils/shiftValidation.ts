@@ -0,0 +1,49 @@
+import type { Shift } from '../types';
+import { addDays, parseISO, format } from 'date-fns';
+import { shiftStorage, staffStorage } from './supabaseStorage';
+import { staffWorkLimitStorage, staffPairRuleStorage } from './autoShiftStorage';
+import { findRestIntervalViolation, DEFAULT_MIN_REST_HOURS } from './helpers';
+import { buildPairRuleSet, findPairRuleViolations, hasPairRules } from './staffPairRules';
+
+// 手動で登録・変更するシフトの勤務間インターバルをチェック（違反がある場合はメッセージを返す）
+export async function validateRestInterval(
+  shift: Pick<Shift, 'staffId' | 'date' | 'startTime' | 'endTime'> & { id?: string }
+): Promise<string | null> {
+  const date = parseISO(shift.date);
+  const [previousShifts, nextShifts, workLimit] = await Promise.all([
+    shiftStorage.getByDate(format(addDays(date, -1), 'yyyy-MM-dd')),
+    shiftStorage.getByDate(format(addDays(date, 1), 'yyyy-MM-dd')),
+    staffWorkLimitStorage.getByStaffId(shift.staffId),
+  ]);
+
+  const minRestHours = workLimit?.minRestHours ?? DEFAULT_MIN_REST_HOURS;
+  const violation = findRestIntervalViolation(shift, [...previousShifts, ...nextShifts], minRestHours);
+  if (!violation) return null;
+
+  return `勤務間インターバルが不足しています（${violation.shift.date} ${violation.shift.startTime.slice(0, 5)}〜${violation.shift.endTime.slice(0, 5)} のシフトとの間隔が${violation.restHours.toFixed(1)}時間、必要: ${minRestHours}時間）`;
+}
+
+// 手動で登録・変更・削除するシフトで、指導担当・同時配置NGのルールに新たに違反するものを探す（違反がある場合はメッセージを返す）
+export async function validateShiftPairRules(
+  shift: Shift, // 登録・変更後のシフト（削除の場合は削除するシフト）
+  isDelete = false
+): Promise<string | null> {
+  const [dayShifts, rules, staff] = await Promise.all([
+    shiftStorage.getByDate(shift.date),
+    staffPairRuleStorage.getAll(),
+    staffStorage.getAll(),
+  ]);
+
+  const pairRules = buildPairRuleSet(rules);
+  if (!hasPairRules(pairRules)) return null;
+
+  // 変更前から違反しているものは除く
+  const otherShifts = dayShifts.filter((s) => s.id !== shift.id);
+  const before = new Set(findPairRuleViolations(dayShifts, staff, pairRules).map((v) => v.message));
+  const added = findPairRuleViolations(isDelete ? otherShifts : [...otherShifts, shift], staff, pairRules).filter(
+    (v) => !before.has(v.message)
+  );
+  if (added.length === 0) return null;
+
+  return added.map((v) => v.message).join('\n');
+}
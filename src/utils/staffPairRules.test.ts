@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { Shift } from '../types';
+import { buildPairRuleSet, findAvoidConflict, hasMentorOnDuty } from './staffPairRules';
+
+const shift = (staffId: string, overrides: Partial<Shift> = {}): Shift => ({
+  id: staffId,
+  staffId,
+  date: '2026-12-01',
+  position: 'フロント',
+  startTime: '09:00',
+  endTime: '17:00',
+  ...overrides,
+});
+
+const split = { startTime: '07:00', endTime: '21:00', breakStartTime: '11:00', breakEndTime: '16:00' };
+
+const rules = buildPairRuleSet([
+  { id: 'mentor', staffId: 'trainee', pairStaffId: 'mentor', ruleType: 'mentor' },
+  { id: 'avoid', staffId: 'a', pairStaffId: 'b', ruleType: 'avoid' },
+]);
+
+describe('hasMentorOnDuty', () => {
+  it('指導担当が同じ役職で勤務時間全体に付いている場合のみ true', () => {
+    const trainee = shift('trainee');
+    expect(hasMentorOnDuty(trainee, [shift('mentor', { startTime: '08:00', endTime: '18:00' })], rules)).toBe(true);
+    expect(hasMentorOnDuty(trainee, [shift('mentor', { startTime: '10:00', endTime: '18:00' })], rules)).toBe(false);
+    expect(hasMentorOnDuty(trainee, [shift('mentor', { position: '配膳', startTime: '08:00' })], rules)).toBe(false);
+    expect(hasMentorOnDuty(trainee, [shift('mentor', { date: '2026-12-02' })], rules)).toBe(false);
+  });
+
+  it('研修中でないスタッフは常に true', () => {
+    expect(hasMentorOnDuty(shift('other'), [], rules)).toBe(true);
+  });
+
+  it('同じ中抜け勤務の指導担当が付いている研修中のスタッフは true', () => {
+    expect(hasMentorOnDuty(shift('trainee', split), [shift('mentor', split)], rules)).toBe(true);
+  });
+
+  it('中抜け勤務の研修中のスタッフは勤務区間ごとに判定する', () => {
+    const trainee = shift('trainee', split);
+    expect(hasMentorOnDuty(trainee, [shift('mentor', { startTime: '06:00', endTime: '22:00' })], rules)).toBe(true);
+    expect(hasMentorOnDuty(trainee, [shift('mentor', { startTime: '06:00', endTime: '12:00' })], rules)).toBe(false);
+    // 前半・後半を別の勤務の指導担当が担当する場合も付いているとみなす
+    expect(
+      hasMentorOnDuty(
+        trainee,
+        [
+          shift('mentor', { id: 'morning', startTime: '06:00', endTime: '12:00' }),
+          shift('mentor', { id: 'evening', startTime: '15:00', endTime: '22:00' }),
+        ],
+        rules
+      )
+    ).toBe(true);
+  });
+
+  it('指導担当の中抜け時間に勤務する研修中のスタッフは false', () => {
+    expect(hasMentorOnDuty(shift('trainee'), [shift('mentor', split)], rules)).toBe(false);
+  });
+});
+
+describe('findAvoidConflict', () => {
+  it('同時配置NGの相手と勤務区間が重なるシフトを返し、中抜け時間の重なりは除く', () => {
+    const other = shift('b', { startTime: '12:00', endTime: '15:00' });
+    expect(findAvoidConflict(shift('a'), [other], rules)).toBe(other);
+    expect(findAvoidConflict(shift('a', split), [other], rules)).toBeUndefined();
+  });
+});
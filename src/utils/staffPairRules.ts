@@ -0,0 +1,128 @@
+import type { Shift, Staff, StaffPairRule, StaffPairRuleType } from '../types';
+import { getShiftSegments, isWithinTimeWindow, overlapsTimeRange } from './helpers';
+
+// スタッフ間のペアルール
+// 研修中のスタッフは指導担当が同じ役職で勤務している時間帯のみ、同時配置NGの2人は同じ時間帯に配置しない。
+// 生成時の候補の絞り込みと、生成結果・手動で変更したシフトの検証で共通の判定を使う
+
+// ========================================
+// 型定義
+// ========================================
+
+// 判定用にまとめたペアルール
+export interface PairRuleSet {
+  mentors: Map<string, Set<string>>; // 研修中のスタッフ -> 指導担当
+  avoid: Map<string, Set<string>>; // スタッフ -> 同時配置NGの相手（双方向）
+}
+
+// ペアルールの違反
+export interface PairRuleViolation {
+  type: StaffPairRuleType;
+  shift: Shift; // 違反しているシフト（研修中のスタッフ / 同時配置NGの一方）
+  pairShift?: Shift; // 同時配置NGの相手のシフト
+  message: string;
+}
+
+export const PAIR_RULE_LABELS: Record<StaffPairRuleType, string> = {
+  mentor: '指導担当',
+  avoid: '同時配置NG',
+};
+
+// ========================================
+// 判定
+// ========================================
+
+export function buildPairRuleSet(rules: StaffPairRule[]): PairRuleSet {
+  const set: PairRuleSet = { mentors: new Map(), avoid: new Map() };
+  const add = (map: Map<string, Set<string>>, key: string, value: string) => {
+    if (!map.has(key)) map.set(key, new Set());
+    map.get(key)!.add(value);
+  };
+
+  for (const rule of rules) {
+    if (rule.ruleType === 'mentor') {
+      add(set.mentors, rule.staffId, rule.pairStaffId);
+    } else {
+      add(set.avoid, rule.staffId, rule.pairStaffId);
+      add(set.avoid, rule.pairStaffId, rule.staffId);
+    }
+  }
+  return set;
+}
+
+export function hasPairRules(set: PairRuleSet): boolean {
+  return set.mentors.size > 0 || set.avoid.size > 0;
+}
+
+// 同じ日の2つのシフトの勤務区間（中抜けを除く）が重なるか
+function isWorkingTogether(a: Shift, b: Shift): boolean {
+  return (
+    a.date === b.date &&
+    getShiftSegments(b).some((segment) => overlapsTimeRange(a, segment.startTime, segment.endTime))
+  );
+}
+
+// 研修中のスタッフのシフトに、指導担当が同じ役職で付いているか
+// 中抜け勤務は勤務区間ごとに、指導担当の勤務区間（中抜けを除く）のいずれかに含まれるかで判定する
+// 研修中でないスタッフは常に true
+export function hasMentorOnDuty(shift: Shift, shifts: Shift[], set: PairRuleSet): boolean {
+  const mentors = set.mentors.get(shift.staffId);
+  if (!mentors || mentors.size === 0) return true;
+
+  const mentorSegments = shifts
+    .filter((s) => mentors.has(s.staffId) && s.date === shift.date && s.position === shift.position)
+    .flatMap((s) => getShiftSegments(s));
+
+  return getShiftSegments(shift).every((traineeSegment) =>
+    mentorSegments.some((segment) =>
+      isWithinTimeWindow(traineeSegment.startTime, traineeSegment.endTime, segment.startTime, segment.endTime)
+    )
+  );
+}
+
+// 同時配置NGの相手で勤務時間が重なるシフト
+export function findAvoidConflict(shift: Shift, shifts: Shift[], set: PairRuleSet): Shift | undefined {
+  const avoid = set.avoid.get(shift.staffId);
+  if (!avoid || avoid.size === 0) return undefined;
+
+  return shifts.find((s) => avoid.has(s.staffId) && isWorkingTogether(shift, s));
+}
+
+// シフトをこの日の配置に加えてもペアルールを満たすか
+export function isPairAllowed(shift: Shift, shifts: Shift[], set: PairRuleSet): boolean {
+  return hasMentorOnDuty(shift, shifts, set) && !findAvoidConflict(shift, shifts, set);
+}
+
+// シフト全体のペアルールの違反（同時配置NGは1組につき1件）
+export function findPairRuleViolations(shifts: Shift[], staff: Staff[], set: PairRuleSet): PairRuleViolation[] {
+  if (!hasPairRules(set)) return [];
+
+  const getName = (staffId: string) => staff.find((s) => s.id === staffId)?.name || '不明';
+  const violations: PairRuleViolation[] = [];
+
+  for (const shift of shifts) {
+    if (!hasMentorOnDuty(shift, shifts, set)) {
+      const mentorNames = [...set.mentors.get(shift.staffId)!].map(getName).join('・');
+      violations.push({
+        type: 'mentor',
+        shift,
+        message: `${getName(shift.staffId)}さんの勤務時間に指導担当（${mentorNames}）が${shift.position}で勤務していません`,
+      });
+    }
+
+    const avoid = set.avoid.get(shift.staffId);
+    if (!avoid) continue;
+    for (const other of shifts) {
+      if (shift.staffId < other.staffId && avoid.has(other.staffId) && isWorkingTogether(shift, other)) {
+        violations.push({
+          type: 'avoid',
+          shift,
+          pairShift: other,
+          message: `同時配置NGの${getName(shift.staffId)}さんと${getName(other.staffId)}さんの勤務時間が重なっています`,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,200 @@
+import type { Shift, Staff, StaffStandardSchedule, StaffWorkRequest } from '../types';
+import { parseISO, getDay } from 'date-fns';
+import { calculateShiftHours } from './helpers';
+import { getWeekStart } from './shiftConstraints';
+
+// スタッフの勤務希望（ソフト制約）
+// 標準勤務パターン（希望曜日・開始時刻・1日の時間・週の日数）と出勤希望日から、
+// 割り当ての希望への合い具合を求める。生成時の候補の並び順・最適化の目的関数と、生成結果の満足度レポートで共通の判定を使う
+
+// ========================================
+// 型定義
+// ========================================
+
+// スタッフごとの勤務希望
+export interface StaffPreference {
+  schedule?: StaffStandardSchedule; // 有効な標準勤務パターン
+  workRequestDates: Set<string>; // 出勤希望日
+}
+
+// 勤務希望の満足度（スタッフごと）
+export interface PreferenceSatisfaction {
+  staffId: string;
+  staffName: string;
+  rate: number | null; // 満足度（0-100%、評価するシフトも出勤希望日もない場合は null）
+  shiftCount: number; // 評価したシフト数（該当する希望の項目があるシフト）
+  workRequestCount: number; // 出勤希望日の数
+  grantedWorkRequestCount: number; // 出勤希望日のうち勤務が入った日数
+}
+
+// 希望の項目ごとの重み
+const PREFERENCE_WEIGHTS = {
+  workRequest: 3, // 出勤希望日
+  dayOfWeek: 2, // 希望勤務曜日
+  daysPerWeek: 2, // 週の勤務日数
+  startTime: 1, // 希望開始時刻
+  hoursPerDay: 1, // 1日の勤務時間
+};
+
+// 希望開始時刻・1日の勤務時間のずれの許容範囲
+const START_TIME_TOLERANCE_MINUTES = 60;
+const HOURS_PER_DAY_TOLERANCE = 1;
+
+// 勤務希望が登録されていないスタッフのスコア（希望に合う・合わないの中間）
+export const NEUTRAL_PREFERENCE_SCORE = 50;
+
+// ========================================
+// 判定
+// ========================================
+
+// 標準勤務パターン（有効なもの）と出勤希望日をスタッフごとにまとめる
+export function buildStaffPreferences(
+  schedules: StaffStandardSchedule[],
+  workRequests: StaffWorkRequest[]
+): Map<string, StaffPreference> {
+  const preferences = new Map<string, StaffPreference>();
+  const get = (staffId: string) => {
+    if (!preferences.has(staffId)) preferences.set(staffId, { workRequestDates: new Set() });
+    return preferences.get(staffId)!;
+  };
+
+  schedules.filter((s) => s.isActive).forEach((s) => (get(s.staffId).schedule = s));
+  workRequests.forEach((r) => get(r.staffId).workRequestDates.add(r.date));
+  return preferences;
+}
+
+// 時刻の差（分、日をまたぐ場合は近い方）
+function getTimeDistance(a: string, b: string): number {
+  const toMinutes = (time: string) => {
+    const [hour, min] = time.split(':').map(Number);
+    return hour * 60 + min;
+  };
+  const diff = Math.abs(toMinutes(a) - toMinutes(b)) % (24 * 60);
+  return Math.min(diff, 24 * 60 - diff);
+}
+
+// 該当する希望の項目の重みの合計と、そのうち合っている項目の重みの合計
+function evaluatePreference(
+  preference: StaffPreference,
+  date: string,
+  shift: Pick<Shift, 'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime'>,
+  weeklyWorkDays?: number
+): { matched: number; total: number } {
+  let matched = 0;
+  let total = 0;
+  const evaluate = (weight: number, isMatch: boolean) => {
+    total += weight;
+    if (isMatch) matched += weight;
+  };
+
+  if (preference.workRequestDates.has(date)) {
+    evaluate(PREFERENCE_WEIGHTS.workRequest, true);
+  }
+
+  const schedule = preference.schedule;
+  if (schedule) {
+    if (schedule.preferredDaysOfWeek.length > 0) {
+      evaluate(PREFERENCE_WEIGHTS.dayOfWeek, schedule.preferredDaysOfWeek.includes(getDay(parseISO(date))));
+    }
+    if (schedule.preferredStartTime) {
+      evaluate(
+        PREFERENCE_WEIGHTS.startTime,
+        getTimeDistance(shift.startTime.slice(0, 5), schedule.preferredStartTime.slice(0, 5)) <=
+          START_TIME_TOLERANCE_MINUTES
+      );
+    }
+    if (schedule.hoursPerDay > 0) {
+      evaluate(
+        PREFERENCE_WEIGHTS.hoursPerDay,
+        Math.abs(calculateShiftHours(shift) - schedule.hoursPerDay) <= HOURS_PER_DAY_TOLERANCE
+      );
+    }
+    if (schedule.daysPerWeek > 0 && weeklyWorkDays !== undefined) {
+      evaluate(PREFERENCE_WEIGHTS.daysPerWeek, weeklyWorkDays < schedule.daysPerWeek);
+    }
+  }
+
+  return { matched, total };
+}
+
+// 割り当ての希望への合い具合（0-100、該当する項目の重み付き平均）
+// weeklyWorkDays: この日を除く同じ週の勤務日数（省略した場合は週の勤務日数を評価しない）
+export function scorePreference(
+  preference: StaffPreference | undefined,
+  date: string,
+  shift: Pick<Shift, 'startTime' | 'endTime' | 'breakStartTime' | 'breakEndTime'>,
+  weeklyWorkDays?: number
+): number {
+  if (!preference) return NEUTRAL_PREFERENCE_SCORE;
+
+  const { matched, total } = evaluatePreference(preference, date, shift, weeklyWorkDays);
+  return total > 0 ? (matched / total) * 100 : NEUTRAL_PREFERENCE_SCORE;
+}
+
+// この日を除く同じ週（日曜始まり）の勤務日数
+export function countWeeklyWorkDays(workedDates: Iterable<string>, date: string): number {
+  const weekStart = getWeekStart(parseISO(date));
+  let count = 0;
+  for (const worked of workedDates) {
+    if (worked !== date && getWeekStart(parseISO(worked)) === weekStart) count++;
+  }
+  return count;
+}
+
+// 勤務日のうち週ごとの希望日数を超えた日数の合計
+export function countExcessWeeklyDays(preference: StaffPreference | undefined, dates: string[]): number {
+  const daysPerWeek = preference?.schedule?.daysPerWeek || 0;
+  if (daysPerWeek <= 0) return 0;
+
+  const weeks = new Map<string, Set<string>>();
+  dates.forEach((date) => {
+    const weekStart = getWeekStart(parseISO(date));
+    if (!weeks.has(weekStart)) weeks.set(weekStart, new Set());
+    weeks.get(weekStart)!.add(date);
+  });
+
+  let excess = 0;
+  weeks.forEach((days) => (excess += Math.max(0, days.size - daysPerWeek)));
+  return excess;
+}
+
+// ========================================
+// 満足度レポート
+// ========================================
+
+// スタッフごとの勤務希望の満足度
+// 該当する希望の項目があるシフトの合い具合の平均。勤務が入らなかった出勤希望日は0として平均に含める
+export function buildPreferenceReport(
+  staff: Staff[],
+  shifts: Shift[],
+  preferences: Map<string, StaffPreference>
+): PreferenceSatisfaction[] {
+  return staff
+    .filter((s) => s.isActive && preferences.has(s.id))
+    .map((member) => {
+      const preference = preferences.get(member.id)!;
+      const staffShifts = shifts.filter((s) => s.staffId === member.id);
+
+      const workedDates = new Set(staffShifts.map((s) => s.date));
+      const scores = staffShifts
+        .map((shift) =>
+          evaluatePreference(preference, shift.date, shift, countWeeklyWorkDays(workedDates, shift.date))
+        )
+        .filter(({ total }) => total > 0)
+        .map(({ matched, total }) => (matched / total) * 100);
+
+      const workRequestCount = preference.workRequestDates.size;
+      const grantedWorkRequestCount = [...preference.workRequestDates].filter((d) => workedDates.has(d)).length;
+      const evaluatedCount = scores.length + (workRequestCount - grantedWorkRequestCount);
+
+      return {
+        staffId: member.id,
+        staffName: member.name,
+        rate:
+          evaluatedCount > 0 ? scores.reduce((sum, score) => sum + score, 0) / evaluatedCount : null,
+        shiftCount: scores.length,
+        workRequestCount,
+        grantedWorkRequestCount,
+      };
+    });
+}
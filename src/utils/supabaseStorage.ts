@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { Staff, Shift, Reservation, PositionMaster, StaffStandardSchedule, ShiftChangeHistory } from '../types';
+import type { Staff, Shift, Reservation, PositionMaster, StaffStandardSchedule, ShiftChangeHistory, ShiftAbsence } from '../types';
 
 // スタッフ管理
 export const staffStorage = {
@@ -27,6 +27,11 @@ export const staffStorage = {
       is2faEnabled: item.is_2fa_enabled || false,
       otpSecret: item.otp_secret,
       otpExpiresAt: item.otp_expires_at,
+      homeBuildingId: item.home_building_id || undefined,
+      hourlyWage: item.hourly_wage ?? undefined,
+      nightPremiumRate: item.night_premium_rate ?? undefined,
+      holidayPremiumRate: item.holiday_premium_rate ?? undefined,
+      hireDate: item.hire_date || undefined,
     }));
   },
 
@@ -62,6 +67,11 @@ export const staffStorage = {
       is_2fa_enabled: staff.is2faEnabled,
       otp_secret: staff.otpSecret,
       otp_expires_at: staff.otpExpiresAt,
+      home_building_id: staff.homeBuildingId || null,
+      hourly_wage: staff.hourlyWage ?? null,
+      night_premium_rate: staff.nightPremiumRate ?? null,
+      holiday_premium_rate: staff.holidayPremiumRate ?? null,
+      hire_date: staff.hireDate || null,
     });
 
     if (error) {
@@ -83,6 +93,11 @@ export const staffStorage = {
     if (updates.is2faEnabled !== undefined) updateData.is_2fa_enabled = updates.is2faEnabled;
     if (updates.otpSecret !== undefined) updateData.otp_secret = updates.otpSecret;
     if (updates.otpExpiresAt !== undefined) updateData.otp_expires_at = updates.otpExpiresAt;
+    if ('homeBuildingId' in updates) updateData.home_building_id = updates.homeBuildingId || null;
+    if ('hourlyWage' in updates) updateData.hourly_wage = updates.hourlyWage ?? null;
+    if ('nightPremiumRate' in updates) updateData.night_premium_rate = updates.nightPremiumRate ?? null;
+    if ('holidayPremiumRate' in updates) updateData.holiday_premium_rate = updates.holidayPremiumRate ?? null;
+    if ('hireDate' in updates) updateData.hire_date = updates.hireDate || null;
 
     const { error } = await supabase
       .from('staff')
@@ -123,6 +138,11 @@ export const staffStorage = {
       is2faEnabled: data.is_2fa_enabled || false,
       otpSecret: data.otp_secret,
       otpExpiresAt: data.otp_expires_at,
+      homeBuildingId: data.home_building_id || undefined,
+      hourlyWage: data.hourly_wage ?? undefined,
+      nightPremiumRate: data.night_premium_rate ?? undefined,
+      holidayPremiumRate: data.holiday_premium_rate ?? undefined,
+      hireDate: data.hire_date || undefined,
     };
   },
 
@@ -151,6 +171,11 @@ export const staffStorage = {
       is2faEnabled: data.is_2fa_enabled || false,
       otpSecret: data.otp_secret,
       otpExpiresAt: data.otp_expires_at,
+      homeBuildingId: data.home_building_id || undefined,
+      hourlyWage: data.hourly_wage ?? undefined,
+      nightPremiumRate: data.night_premium_rate ?? undefined,
+      holidayPremiumRate: data.holiday_premium_rate ?? undefined,
+      hireDate: data.hire_date || undefined,
     };
   },
 
@@ -228,6 +253,10 @@ export const shiftStorage = {
       date: item.date,
       startTime: item.start_time,
       endTime: item.end_time,
+      breakStartTime: item.break_start_time,
+      breakEndTime: item.break_end_time,
+      restBreakStartTime: item.rest_break_start_time || undefined,
+      restBreakMinutes: item.rest_break_minutes ?? undefined,
       position: item.position,
       isCompleted: item.is_completed,
     }));
@@ -243,6 +272,10 @@ export const shiftStorage = {
         date: s.date,
         start_time: s.startTime,
         end_time: s.endTime,
+        break_start_time: s.breakStartTime,
+        break_end_time: s.breakEndTime,
+        rest_break_start_time: s.restBreakStartTime || null,
+        rest_break_minutes: s.restBreakMinutes ?? null,
         position: s.position,
         is_completed: s.isCompleted,
       }))
@@ -258,6 +291,10 @@ export const shiftStorage = {
       date: shift.date,
       start_time: shift.startTime,
       end_time: shift.endTime,
+      break_start_time: shift.breakStartTime,
+      break_end_time: shift.breakEndTime,
+      rest_break_start_time: shift.restBreakStartTime || null,
+      rest_break_minutes: shift.restBreakMinutes ?? null,
       position: shift.position,
       is_standard: shift.isStandard || false,
       is_confirmed: shift.isConfirmed || false,
@@ -280,6 +317,10 @@ export const shiftStorage = {
     if (updates.date !== undefined) updateData.date = updates.date;
     if (updates.startTime !== undefined) updateData.start_time = updates.startTime;
     if (updates.endTime !== undefined) updateData.end_time = updates.endTime;
+    if (updates.breakStartTime !== undefined) updateData.break_start_time = updates.breakStartTime || null;
+    if (updates.breakEndTime !== undefined) updateData.break_end_time = updates.breakEndTime || null;
+    if ('restBreakStartTime' in updates) updateData.rest_break_start_time = updates.restBreakStartTime || null;
+    if ('restBreakMinutes' in updates) updateData.rest_break_minutes = updates.restBreakMinutes ?? null;
     if (updates.position !== undefined) updateData.position = updates.position;
     if (updates.isCompleted !== undefined) updateData.is_completed = updates.isCompleted;
 
@@ -291,13 +332,40 @@ export const shiftStorage = {
     if (error) console.error('Error updating shift:', error);
   },
 
+  // 削除したシフトを同じIDで戻す（欠勤の記録に失敗した場合など）
+  restore: async (shift: Shift): Promise<void> => {
+    const { error } = await supabase.from('shifts').insert({
+      id: shift.id,
+      staff_id: shift.staffId,
+      date: shift.date,
+      start_time: shift.startTime,
+      end_time: shift.endTime,
+      break_start_time: shift.breakStartTime,
+      break_end_time: shift.breakEndTime,
+      rest_break_start_time: shift.restBreakStartTime || null,
+      rest_break_minutes: shift.restBreakMinutes ?? null,
+      position: shift.position,
+      is_standard: shift.isStandard || false,
+      is_confirmed: shift.isConfirmed || false,
+      is_completed: shift.isCompleted || false,
+    });
+
+    if (error) {
+      console.error('Error restoring shift:', error);
+      throw error;
+    }
+  },
+
   delete: async (id: string): Promise<void> => {
     const { error } = await supabase
       .from('shifts')
       .delete()
       .eq('id', id);
 
-    if (error) console.error('Error deleting shift:', error);
+    if (error) {
+      console.error('Error deleting shift:', error);
+      throw error;
+    }
   },
 
   getByDate: async (date: string): Promise<Shift[]> => {
@@ -317,6 +385,38 @@ export const shiftStorage = {
       date: item.date,
       startTime: item.start_time,
       endTime: item.end_time,
+      breakStartTime: item.break_start_time,
+      breakEndTime: item.break_end_time,
+      restBreakStartTime: item.rest_break_start_time || undefined,
+      restBreakMinutes: item.rest_break_minutes ?? undefined,
+      position: item.position,
+      isCompleted: item.is_completed,
+    }));
+  },
+
+  getByDateRange: async (startDate: string, endDate: string): Promise<Shift[]> => {
+    const { data, error } = await supabase
+      .from('shifts')
+      .select('*')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date');
+
+    if (error) {
+      console.error('Error fetching shifts by date range:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      date: item.date,
+      startTime: item.start_time,
+      endTime: item.end_time,
+      breakStartTime: item.break_start_time,
+      breakEndTime: item.break_end_time,
+      restBreakStartTime: item.rest_break_start_time || undefined,
+      restBreakMinutes: item.rest_break_minutes ?? undefined,
       position: item.position,
       isCompleted: item.is_completed,
     }));
@@ -477,6 +577,8 @@ export const positionStorage = {
       isActive: item.is_active,
       baseRequiredCount: item.base_required_count || 1,
       guestCountRatio: item.guest_count_ratio || 0,
+      banquetGuestsPerStaff: item.banquet_guests_per_staff || 0,
+      monthlyLaborBudget: item.monthly_labor_budget || 0,
     }));
   },
 
@@ -503,6 +605,8 @@ export const positionStorage = {
       is_active: position.isActive,
       base_required_count: position.baseRequiredCount,
       guest_count_ratio: position.guestCountRatio,
+      banquet_guests_per_staff: position.banquetGuestsPerStaff,
+      monthly_labor_budget: position.monthlyLaborBudget,
     });
 
     if (error) {
@@ -518,6 +622,8 @@ export const positionStorage = {
     if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
     if (updates.baseRequiredCount !== undefined) updateData.base_required_count = updates.baseRequiredCount;
     if (updates.guestCountRatio !== undefined) updateData.guest_count_ratio = updates.guestCountRatio;
+    if (updates.banquetGuestsPerStaff !== undefined) updateData.banquet_guests_per_staff = updates.banquetGuestsPerStaff;
+    if (updates.monthlyLaborBudget !== undefined) updateData.monthly_labor_budget = updates.monthlyLaborBudget;
 
     const { error } = await supabase
       .from('positions')
@@ -555,6 +661,8 @@ export const positionStorage = {
       isActive: item.is_active,
       baseRequiredCount: item.base_required_count || 1,
       guestCountRatio: item.guest_count_ratio || 0,
+      banquetGuestsPerStaff: item.banquet_guests_per_staff || 0,
+      monthlyLaborBudget: item.monthly_labor_budget || 0,
     }));
   },
 };
@@ -704,6 +812,83 @@ export const historyStorage = {
   },
 };
 
+// 欠勤管理
+export const absenceStorage = {
+  getByDateRange: async (startDate: string, endDate: string): Promise<ShiftAbsence[]> => {
+    const { data, error } = await supabase
+      .from('shift_absences')
+      .select('*')
+      .gte('date', startDate)
+      .lte('date', endDate)
+      .order('date');
+
+    if (error) {
+      console.error('Error fetching absences:', error);
+      return [];
+    }
+
+    return data.map(item => ({
+      id: item.id,
+      staffId: item.staff_id,
+      date: item.date,
+      position: item.position,
+      startTime: item.start_time,
+      endTime: item.end_time,
+      breakStartTime: item.break_start_time || undefined,
+      breakEndTime: item.break_end_time || undefined,
+      restBreakStartTime: item.rest_break_start_time || undefined,
+      restBreakMinutes: item.rest_break_minutes ?? undefined,
+      reason: item.reason || undefined,
+      replacementStaffId: item.replacement_staff_id || undefined,
+      notifiedAt: item.notified_at || undefined,
+      createdAt: item.created_at,
+    }));
+  },
+
+  // 欠勤を記録（IDはSupabaseが自動生成し、作成したIDを返す）
+  add: async (absence: Omit<ShiftAbsence, 'id' | 'createdAt'>): Promise<string> => {
+    const { data, error } = await supabase
+      .from('shift_absences')
+      .insert({
+        staff_id: absence.staffId,
+        date: absence.date,
+        position: absence.position,
+        start_time: absence.startTime,
+        end_time: absence.endTime,
+        break_start_time: absence.breakStartTime || null,
+        break_end_time: absence.breakEndTime || null,
+        rest_break_start_time: absence.restBreakStartTime || null,
+        rest_break_minutes: absence.restBreakMinutes ?? null,
+        reason: absence.reason || null,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error adding absence:', error);
+      throw error;
+    }
+
+    return data.id;
+  },
+
+  // 代わりのスタッフを記録
+  setReplacement: async (id: string, replacementStaffId: string, notifiedAt?: string): Promise<void> => {
+    const { error } = await supabase
+      .from('shift_absences')
+      .update({
+        replacement_staff_id: replacementStaffId,
+        notified_at: notifiedAt || null,
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating absence:', error);
+      throw error;
+    }
+  },
+};
+
 // 現在のユーザー管理（セッションストレージに保存）
 export const currentUserStorage = {
   get: (): Staff | null => {
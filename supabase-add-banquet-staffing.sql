@@ -0,0 +1,14 @@
+-- 宴会の人数・時間による必要人数の加算
+
+-- 役職ごとの宴会の追加人数（宴会客N人につき+1人、0 = 追加なし）
+ALTER TABLE positions
+ADD COLUMN IF NOT EXISTS banquet_guests_per_staff INTEGER DEFAULT 0;
+
+-- 宴会の開始・終了時刻（未入力の場合は全時間帯に加算）
+ALTER TABLE daily_occupancy
+ADD COLUMN IF NOT EXISTS banquet_start_time TIME,
+ADD COLUMN IF NOT EXISTS banquet_end_time TIME;
+
+-- 既存データに初期値を設定
+UPDATE positions SET banquet_guests_per_staff = 15 WHERE name = '配膳';
+UPDATE positions SET banquet_guests_per_staff = 30 WHERE name = '調理';
@@ -0,0 +1,24 @@
+-- 館別の必要人数とスタッフの所属館
+-- building_id が NULL の必要人数は全館（館別の稼働率を客室数で加重平均した値を使う）
+
+ALTER TABLE daily_staff_requirements
+ADD COLUMN IF NOT EXISTS building_id UUID REFERENCES buildings(id) ON DELETE CASCADE;
+
+ALTER TABLE requirement_template_items
+ADD COLUMN IF NOT EXISTS building_id UUID REFERENCES buildings(id) ON DELETE CASCADE;
+
+ALTER TABLE staff
+ADD COLUMN IF NOT EXISTS home_building_id UUID REFERENCES buildings(id) ON DELETE SET NULL;
+
+-- 一意制約に館を含める（全館の行も重複しないよう NULL を同じ値として扱う）
+ALTER TABLE daily_staff_requirements
+DROP CONSTRAINT IF EXISTS daily_staff_requirements_date_position_time_slot_id_key;
+ALTER TABLE daily_staff_requirements
+ADD CONSTRAINT daily_staff_requirements_date_position_time_slot_id_building_id_key
+UNIQUE NULLS NOT DISTINCT (date, position, time_slot_id, building_id);
+
+ALTER TABLE requirement_template_items
+DROP CONSTRAINT IF EXISTS requirement_template_items_template_id_time_slot_id_position_key;
+ALTER TABLE requirement_template_items
+ADD CONSTRAINT requirement_template_items_template_id_time_slot_id_position_building_id_key
+UNIQUE NULLS NOT DISTINCT (template_id, time_slot_id, position, building_id);
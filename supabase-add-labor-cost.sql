@@ -0,0 +1,15 @@
+-- 時給・割増率と役職ごとの人件費予算
+-- 自動シフト生成で人件費の安いスタッフを優先し、生成結果に予算との比較を表示する
+
+-- スタッフの時給（円、NULL = 未設定）と割増率（NULL の場合は深夜0.25・休日0として扱う）
+ALTER TABLE staff
+ADD COLUMN IF NOT EXISTS hourly_wage INTEGER,
+ADD COLUMN IF NOT EXISTS night_premium_rate DECIMAL(4, 2),
+ADD COLUMN IF NOT EXISTS holiday_premium_rate DECIMAL(4, 2);
+
+-- 役職ごとの月の人件費予算（円、0 = 未設定）
+ALTER TABLE positions
+ADD COLUMN IF NOT EXISTS monthly_labor_budget INTEGER DEFAULT 0;
+
+-- 既存データに初期値を設定
+UPDATE positions SET monthly_labor_budget = 0 WHERE monthly_labor_budget IS NULL;
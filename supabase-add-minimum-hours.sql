@@ -0,0 +1,12 @@
+-- 労働時間制約に最低労働時間・最低勤務日数（パート・契約社員の保証時間）を追加
+-- 0は指定なし。自動シフト生成では必要人数を満たした後の目標として扱う
+
+ALTER TABLE staff_work_limits
+ADD COLUMN IF NOT EXISTS min_hours_per_week DECIMAL(5, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS min_hours_per_month DECIMAL(6, 2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS min_days_per_month INTEGER DEFAULT 0;
+
+-- 既存データに初期値を設定
+UPDATE staff_work_limits SET min_hours_per_week = 0 WHERE min_hours_per_week IS NULL;
+UPDATE staff_work_limits SET min_hours_per_month = 0 WHERE min_hours_per_month IS NULL;
+UPDATE staff_work_limits SET min_days_per_month = 0 WHERE min_days_per_month IS NULL;
@@ -0,0 +1,21 @@
+-- スタッフ間のペアルール（研修中スタッフの指導担当・同時配置NG）
+-- mentor: 研修中のスタッフ（staff_id）は指導担当（pair_staff_id）が同じ役職で勤務している時間帯のみ配置する
+-- avoid: 2人を同じ時間帯に配置しない（向きは問わない）
+
+CREATE TABLE IF NOT EXISTS staff_pair_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  pair_staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  rule_type TEXT NOT NULL CHECK (rule_type IN ('mentor', 'avoid')),
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(staff_id, pair_staff_id, rule_type),
+  CHECK (staff_id <> pair_staff_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_pair_rules_staff ON staff_pair_rules(staff_id);
+CREATE INDEX IF NOT EXISTS idx_staff_pair_rules_pair_staff ON staff_pair_rules(pair_staff_id);
+
+ALTER TABLE staff_pair_rules ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated users" ON staff_pair_rules FOR ALL USING (true);
@@ -0,0 +1,54 @@
+-- 必要人数テンプレート（平日・休前日・繁忙期・閑散期など）
+-- 日付ごとの必要人数（daily_staff_requirements）がない枠は、その日に割り当てたテンプレートの値を使う
+
+CREATE TABLE IF NOT EXISTS requirement_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  day_type TEXT CHECK (day_type IN ('weekday', 'holiday', 'holiday_eve')), -- 割り当てのない日に使う日種別（NULL: 使わない）
+  display_order INTEGER DEFAULT 0,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- テンプレートの時間帯×役職ごとの必要人数
+CREATE TABLE IF NOT EXISTS requirement_template_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES requirement_templates(id) ON DELETE CASCADE,
+  time_slot_id UUID NOT NULL REFERENCES time_slots(id) ON DELETE CASCADE,
+  position TEXT NOT NULL,
+  required_count INTEGER NOT NULL DEFAULT 0,
+  room_occupancy_bonus DECIMAL(3,2) DEFAULT 0,
+  banquet_bonus INTEGER DEFAULT 0,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(template_id, time_slot_id, position)
+);
+
+-- 日付へのテンプレートの割り当て（1日1テンプレート）
+CREATE TABLE IF NOT EXISTS requirement_template_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL UNIQUE,
+  template_id UUID NOT NULL REFERENCES requirement_templates(id) ON DELETE CASCADE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_requirement_template_items_template ON requirement_template_items(template_id);
+CREATE INDEX IF NOT EXISTS idx_requirement_template_assignments_date ON requirement_template_assignments(date);
+
+ALTER TABLE requirement_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE requirement_template_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE requirement_template_assignments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated users" ON requirement_templates FOR ALL USING (true);
+CREATE POLICY "Allow all for authenticated users" ON requirement_template_items FOR ALL USING (true);
+CREATE POLICY "Allow all for authenticated users" ON requirement_template_assignments FOR ALL USING (true);
+
+-- 初期テンプレート
+INSERT INTO requirement_templates (name, day_type, display_order) VALUES
+  ('平日', 'weekday', 1),
+  ('休前日', 'holiday_eve', 2),
+  ('繁忙期', NULL, 3),
+  ('閑散期', NULL, 4)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,27 @@
+-- 休憩（労働基準法の休憩）と休憩ルール
+-- 労働時間に応じた休憩をシフトに入れ、労働時間の上限・集計は休憩を除いた実労働時間で計算する
+
+-- シフトの休憩（NULL の場合は既定の休憩ルールで算出し、勤務区間の中ほどに置く）
+ALTER TABLE shifts
+ADD COLUMN IF NOT EXISTS rest_break_start_time TIME,
+ADD COLUMN IF NOT EXISTS rest_break_minutes INTEGER CHECK (rest_break_minutes >= 0);
+
+-- 休憩ルール（労働時間が min_work_hours を超える場合は break_minutes 以上の休憩）
+CREATE TABLE IF NOT EXISTS break_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  min_work_hours DECIMAL(4, 2) NOT NULL CHECK (min_work_hours > 0),
+  break_minutes INTEGER NOT NULL CHECK (break_minutes > 0),
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(min_work_hours)
+);
+
+ALTER TABLE break_rules ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated users" ON break_rules FOR ALL USING (true);
+
+-- 労働基準法の基準（6時間を超える場合は45分、8時間を超える場合は60分）
+INSERT INTO break_rules (min_work_hours, break_minutes) VALUES
+  (6, 45),
+  (8, 60)
+ON CONFLICT DO NOTHING;
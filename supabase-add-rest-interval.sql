@@ -0,0 +1,7 @@
+-- 労働時間制約に勤務間インターバル（前日の終業から翌日の始業までの最低休息時間）を追加
+
+ALTER TABLE staff_work_limits
+ADD COLUMN IF NOT EXISTS min_rest_hours DECIMAL(4, 2) DEFAULT 11;
+
+-- 既存データに初期値を設定
+UPDATE staff_work_limits SET min_rest_hours = 11 WHERE min_rest_hours IS NULL;
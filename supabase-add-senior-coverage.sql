@@ -0,0 +1,25 @@
+-- 入社日とベテランの最低配置人数
+-- 時間帯×役職ごとに「信頼度90以上または勤続1年以上を1人以上」のような条件を設定し、自動シフト生成で満たすように配置する
+
+-- スタッフの入社日（NULL = 未設定、勤続期間で判定するルールではベテランとして扱わない）
+ALTER TABLE staff
+ADD COLUMN IF NOT EXISTS hire_date DATE;
+
+-- 時間帯×役職ごとのベテランの最低人数（信頼度・勤続月数のいずれかを満たすスタッフを数える）
+CREATE TABLE IF NOT EXISTS senior_coverage_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  time_slot_id UUID NOT NULL REFERENCES time_slots(id) ON DELETE CASCADE,
+  position TEXT NOT NULL,
+  min_count INTEGER NOT NULL DEFAULT 1 CHECK (min_count >= 1),
+  min_trust_score INTEGER CHECK (min_trust_score BETWEEN 0 AND 100),
+  min_tenure_months INTEGER CHECK (min_tenure_months >= 0),
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(time_slot_id, position),
+  CHECK (min_trust_score IS NOT NULL OR min_tenure_months IS NOT NULL)
+);
+
+ALTER TABLE senior_coverage_rules ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated users" ON senior_coverage_rules FOR ALL USING (true);
@@ -0,0 +1,26 @@
+-- 欠勤の記録（当日の急な欠勤と代わりのスタッフ）
+-- 欠勤したシフトは削除し、勤務時間・役職などの内容をこのテーブルに残す
+
+CREATE TABLE IF NOT EXISTS shift_absences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  position TEXT NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  break_start_time TIME,
+  break_end_time TIME,
+  rest_break_start_time TIME,
+  rest_break_minutes INTEGER,
+  reason TEXT,
+  replacement_staff_id UUID REFERENCES staff(id) ON DELETE SET NULL,
+  notified_at TIMESTAMP WITH TIME ZONE,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shift_absences_date ON shift_absences(date);
+CREATE INDEX IF NOT EXISTS idx_shift_absences_staff ON shift_absences(staff_id);
+
+ALTER TABLE shift_absences ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated users" ON shift_absences FOR ALL USING (true);
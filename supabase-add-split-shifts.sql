@@ -0,0 +1,16 @@
+-- 中抜け勤務（1日の勤務の途中に無給の中抜け時間を挟むシフト）に対応
+-- start_time / end_time は勤務全体の開始・終了、break_start_time / break_end_time が中抜け時間
+
+ALTER TABLE time_slots
+ADD COLUMN IF NOT EXISTS break_start_time TIME,
+ADD COLUMN IF NOT EXISTS break_end_time TIME;
+
+ALTER TABLE shifts
+ADD COLUMN IF NOT EXISTS break_start_time TIME,
+ADD COLUMN IF NOT EXISTS break_end_time TIME;
+
+-- 中抜け勤務の時間帯（例: 朝食対応と夕食対応の間を中抜け）
+-- time_slots の name には一意制約がないため、同じ名前の時間帯がない場合のみ追加する（再実行しても重複しない）
+INSERT INTO time_slots (name, start_time, end_time, break_start_time, break_end_time, display_order)
+SELECT '朝夕（中抜け）', '06:00', '21:00', '10:00', '17:00', 7
+WHERE NOT EXISTS (SELECT 1 FROM time_slots WHERE name = '朝夕（中抜け）');
@@ -0,0 +1,17 @@
+-- スタッフの兼務スキル（主担当以外に対応できる役職と習熟度）
+
+CREATE TABLE IF NOT EXISTS staff_skills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  position TEXT NOT NULL,
+  proficiency INTEGER NOT NULL DEFAULT 2 CHECK (proficiency BETWEEN 1 AND 3), -- 1: 補助, 2: 単独対応可, 3: 指導可
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(staff_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_skills_staff ON staff_skills(staff_id);
+
+ALTER TABLE staff_skills ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated users" ON staff_skills FOR ALL USING (true);
@@ -0,0 +1,19 @@
+-- 月間の勤務希望（出勤希望日）
+-- 希望休（staff_unavailable_dates）に加えて「この日は出勤したい」を登録し、自動生成で優先する
+
+CREATE TABLE IF NOT EXISTS staff_work_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  staff_id UUID NOT NULL REFERENCES staff(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  note TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(staff_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_work_requests_staff ON staff_work_requests(staff_id);
+CREATE INDEX IF NOT EXISTS idx_staff_work_requests_date ON staff_work_requests(date);
+
+ALTER TABLE staff_work_requests ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for authenticated users" ON staff_work_requests FOR ALL USING (true);
@@ -1,7 +1,12 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  test: {
+    // 日付の計算はローカルの日付で行うため、運用環境と同じ日本時間で実行する
+    env: { TZ: 'Asia/Tokyo' },
+  },
 })